@@ -0,0 +1,72 @@
+/**
+ * Generated Pedigrees
+ *
+ * Large family trees for the benchmark: a founder couple, then couples
+ * of each generation get one to four children until the size is reached.
+ * Most children marry in a spouse from outside the family. The same
+ * seed always gives the same pedigree, so runs can be compared.
+ */
+
+import type { Pedigree, Person } from '@/core/model/types';
+import { Sex, createPedigree, createPerson, createRelationship } from '@/core/model/types';
+import { addChildToUnion } from '@/core/model/pedigreeEdits';
+
+// Chance that a child marries and has a family of their own
+const MARRIAGE_RATE = 0.7;
+
+export function generatePedigree(size: number, seed = 1): Pedigree {
+  const random = mulberry32(seed);
+  const pedigree = createPedigree(`BENCH${size}`);
+  let nextId = 1;
+
+  const addPerson = (sex: Sex): Person => {
+    const person = createPerson(String(nextId++), pedigree.familyId, sex);
+    pedigree.persons.set(person.id, person);
+    return person;
+  };
+
+  const marry = (person: Person): string => {
+    const spouse = addPerson(person.sex === Sex.Male ? Sex.Female : Sex.Male);
+    const [father, mother] = person.sex === Sex.Male ? [person, spouse] : [spouse, person];
+    const relationship = createRelationship(father.id, mother.id);
+    pedigree.relationships.set(relationship.id, relationship);
+    father.spouseIds.push(mother.id);
+    mother.spouseIds.push(father.id);
+    return relationship.id;
+  };
+
+  const founder = addPerson(Sex.Male);
+  founder.status.isProband = true;
+  let couples = [marry(founder)];
+
+  while (pedigree.persons.size < size && couples.length > 0) {
+    const nextCouples: string[] = [];
+    for (const relationshipId of couples) {
+      const childCount = 1 + Math.floor(random() * 4);
+      for (let i = 0; i < childCount && pedigree.persons.size < size; i++) {
+        const child = createPerson(String(nextId++), pedigree.familyId, random() < 0.5 ? Sex.Male : Sex.Female);
+        addChildToUnion(pedigree, relationshipId, child);
+        if (random() < MARRIAGE_RATE && pedigree.persons.size < size) {
+          nextCouples.push(marry(pedigree.persons.get(child.id)!));
+        }
+      }
+    }
+    couples = nextCouples;
+  }
+
+  return pedigree;
+}
+
+/**
+ * Small seeded random number generator, uniform in [0, 1)
+ */
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
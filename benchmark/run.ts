@@ -0,0 +1,192 @@
+/**
+ * Layout Benchmark
+ *
+ * Times every chart layout on generated pedigrees of growing size, for
+ * the edits the editor makes most: editing a person's details, dragging a
+ * pinned person, adding a child and adding a partner. Each edit is laid
+ * out twice, side by side:
+ * - cached: by an engine that has already laid out the pedigree before
+ *   the edit, as in the editor
+ * - full: by a new engine, from scratch (what a new document costs)
+ *
+ * Both must agree. Edits that keep the family structure give the same
+ * positions; a child or partner placed into the last layout must land in
+ * the same generation as the full layout puts them, clear of everyone.
+ * Run with `npm run bench`; each figure is the median of a few runs.
+ */
+
+import type { Pedigree, LayoutNode } from '@/core/model/types';
+import { LayoutEngineId, createPerson, createRelationship, Sex } from '@/core/model/types';
+import { clonePedigree, addChildToUnion, addPartner } from '@/core/model/pedigreeEdits';
+import { createLayoutEngine } from '@/core/layout/layoutEngines';
+import type { LayoutEngine } from '@/core/layout/LayoutEngine';
+import { generatePedigree } from './generatePedigree';
+
+const SIZES = [100, 250, 500, 1000];
+const RUNS = 5;
+
+interface Scenario {
+  name: string;
+  // Placed into the last layout rather than arranged again
+  local: boolean;
+  edit: (draft: Pedigree, run: number) => void;
+}
+
+const SCENARIOS: Scenario[] = [
+  {
+    name: 'edit details',
+    local: false,
+    edit: (draft, run) => {
+      const person = nthPerson(draft, run);
+      person.metadata.label = `Edited ${run}`;
+      person.status.isDeceased = !person.status.isDeceased;
+    },
+  },
+  {
+    name: 'drag pin',
+    local: false,
+    edit: (draft, run) => {
+      const person = nthPerson(draft, run);
+      person.pin = { x: (person.x ?? 0) + 25, y: person.y ?? 0 };
+    },
+  },
+  {
+    name: 'add child',
+    local: true,
+    edit: (draft, run) => {
+      const relationship = Array.from(draft.relationships.values())[run % draft.relationships.size];
+      addChildToUnion(draft, relationship.id, createPerson(`bench-child-${run}`, draft.familyId, Sex.Female));
+    },
+  },
+  {
+    // As the toolbar does it: the person and the relationship in one edit
+    name: 'add partner',
+    local: true,
+    edit: (draft, run) => {
+      const person = nthPerson(draft, run);
+      const partner = createPerson(`bench-partner-${run}`, draft.familyId, Sex.Unknown);
+      addPartner(draft, person.id, partner, createRelationship(person.id, partner.id));
+    },
+  },
+];
+
+function nthPerson(pedigree: Pedigree, n: number) {
+  const persons = Array.from(pedigree.persons.values());
+  return persons[(n * 37) % persons.length];
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+interface Timing {
+  cached: number;
+  full: number;
+  local: boolean;
+}
+
+function time(engineId: LayoutEngineId, pedigree: Pedigree, scenario: Scenario): Timing {
+  let local = false;
+
+  const measure = (run: number): [number, number] => {
+    const engine: LayoutEngine = createLayoutEngine(engineId);
+    engine.layout(clonePedigree(pedigree));
+    const draft = clonePedigree(pedigree);
+    scenario.edit(draft, run);
+    const fresh = clonePedigree(draft);
+
+    let start = performance.now();
+    const cached = engine.layout(draft);
+    const cachedTime = performance.now() - start;
+
+    start = performance.now();
+    const full = createLayoutEngine(engineId).layout(fresh);
+    const fullTime = performance.now() - start;
+
+    if (!samePositions(cached, full)) {
+      if (!scenario.local) {
+        throw new Error(`${engineId}, ${scenario.name}: cached positions differ from a full layout`);
+      }
+      checkPlacement(engine, cached, full, `${engineId}, ${scenario.name}`);
+      local = true;
+    }
+    return [cachedTime, fullTime];
+  };
+
+  // The first run also warms up the JavaScript engine
+  measure(RUNS);
+  const timings: [number, number][] = [];
+  for (let run = 0; run < RUNS; run++) {
+    timings.push(measure(run));
+  }
+  return {
+    cached: median(timings.map(([cached]) => cached)),
+    full: median(timings.map(([, full]) => full)),
+    local,
+  };
+}
+
+function samePositions(a: Map<string, LayoutNode>, b: Map<string, LayoutNode>): boolean {
+  if (a.size !== b.size) return false;
+  for (const [id, node] of a) {
+    const other = b.get(id);
+    if (!other || other.x !== node.x || other.y !== node.y) return false;
+  }
+  return true;
+}
+
+/**
+ * A local placement: everyone drawn, in their generation, none overlapping
+ */
+function checkPlacement(
+  engine: LayoutEngine,
+  cached: Map<string, LayoutNode>,
+  full: Map<string, LayoutNode>,
+  label: string
+): void {
+  const across = engine.orientation === 'vertical' ? 'y' : 'x';
+  const along = engine.orientation === 'vertical' ? 'x' : 'y';
+  const { nodeWidth, horizontalSpacing } = engine.getOptions();
+
+  const rows = new Map<number, number[]>();
+  for (const [id, node] of cached) {
+    const other = full.get(id);
+    if (!other || other[across] !== node[across]) {
+      throw new Error(`${label}: ${id} is not in the generation a full layout puts them in`);
+    }
+    if (!rows.has(node[across])) rows.set(node[across], []);
+    rows.get(node[across])!.push(node[along]);
+  }
+  if (cached.size !== full.size) {
+    throw new Error(`${label}: ${full.size - cached.size} persons missing`);
+  }
+
+  for (const row of rows.values()) {
+    row.sort((a, b) => a - b);
+    for (let i = 1; i < row.length; i++) {
+      if (row[i] - row[i - 1] < nodeWidth + horizontalSpacing) {
+        throw new Error(`${label}: overlapping symbols at ${row[i - 1]} and ${row[i]}`);
+      }
+    }
+  }
+}
+
+const ms = (value: number) => `${value.toFixed(1)} ms`;
+
+for (const engineId of Object.values(LayoutEngineId)) {
+  const rows: Record<string, Record<string, string>> = {};
+  for (const size of SIZES) {
+    const pedigree = generatePedigree(size);
+    for (const scenario of SCENARIOS) {
+      const { cached, full, local } = time(engineId, pedigree, scenario);
+      rows[`${pedigree.persons.size} persons, ${scenario.name}`] = {
+        cached: ms(cached),
+        full: ms(full),
+        positions: local ? 'placed locally' : 'same',
+      };
+    }
+  }
+  console.log(`\nLayout: ${engineId}`);
+  console.table(rows);
+}
@@ -10,10 +10,16 @@ import { Toolbar } from '../Toolbar/Toolbar';
 import { PropertyPanel } from '../PropertyPanel/PropertyPanel';
 import { RelationshipPanel } from '../RelationshipPanel/RelationshipPanel';
 import { FilePanel } from '../FilePanel/FilePanel';
+import { IssuesPanel } from '../IssuesPanel/IssuesPanel';
+import { InheritancePanel } from '../InheritancePanel/InheritancePanel';
+import { RiskPanel } from '../RiskPanel/RiskPanel';
 import { WelcomeModal } from '../WelcomeModal/WelcomeModal';
 import { TourPromptModal } from '../TourPromptModal/TourPromptModal';
+import { RecoveryModal } from '../RecoveryModal/RecoveryModal';
 import { useGuidedTour } from '../GuidedTour/useGuidedTour';
+import { useAutosave } from './useAutosave';
 import { usePedigreeStore, useTemporalStore } from '@/store/pedigreeStore';
+import { autosaveService } from '@/services/autosaveService';
 import styles from './App.module.css';
 
 const WELCOME_DISMISSED_KEY = 'pedigree-draw-welcome-dismissed';
@@ -26,12 +32,19 @@ export function App() {
     selectedRelationshipId,
     deletePerson,
     deleteRelationship,
+    loadPedigree,
   } = usePedigreeStore();
   const temporal = useTemporalStore();
 
   // Guided tour hook
   const { startTour } = useGuidedTour();
 
+  // Autosave the working pedigree to the browser
+  useAutosave();
+
+  // Autosaved work from a previous session, offered once on startup
+  const [recovery, setRecovery] = useState(() => autosaveService.loadRecovery());
+
   // Welcome modal state - check localStorage on init
   const [showWelcome, setShowWelcome] = useState(() => {
     return localStorage.getItem(WELCOME_DISMISSED_KEY) !== 'true';
@@ -48,6 +61,21 @@ export function App() {
     }
   };
 
+  const handleRestoreRecovery = () => {
+    if (!recovery) return;
+    loadPedigree(recovery.pedigree, { keepPositions: true });
+    temporal.setState({
+      pastStates: recovery.history.map(pedigree => ({ pedigree })),
+      futureStates: [],
+    });
+    setRecovery(null);
+  };
+
+  const handleDiscardRecovery = () => {
+    autosaveService.clearRecovery();
+    setRecovery(null);
+  };
+
   const handleStartTour = () => {
     setShowTourPrompt(false);
     // Small delay to let modal close before tour starts
@@ -114,7 +142,12 @@ export function App() {
       <main className={styles.main}>
         <FilePanel />
         <div className={styles.canvasArea}>
-          <PedigreeCanvas />
+          <div className={styles.canvasSlot}>
+            <PedigreeCanvas />
+          </div>
+          <IssuesPanel />
+          <InheritancePanel />
+          <RiskPanel />
         </div>
         {selectedRelationshipId ? <RelationshipPanel /> : <PropertyPanel />}
       </main>
@@ -138,6 +171,13 @@ export function App() {
       {showTourPrompt && (
         <TourPromptModal onStartTour={handleStartTour} onSkip={handleSkipTour} />
       )}
+      {recovery && !showWelcome && !showTourPrompt && (
+        <RecoveryModal
+          snapshot={recovery}
+          onRestore={handleRestoreRecovery}
+          onDiscard={handleDiscardRecovery}
+        />
+      )}
     </div>
   );
 }
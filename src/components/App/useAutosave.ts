@@ -0,0 +1,83 @@
+/**
+ * useAutosave Hook
+ *
+ * Throttled autosave of the working pedigree. Its undo history is
+ * serialised less often, when the tab is hidden or closed, along with
+ * any pending changes.
+ */
+
+import { useEffect } from 'react';
+import type { Pedigree } from '@/core/model/types';
+import { usePedigreeStore } from '@/store/pedigreeStore';
+import { autosaveService } from '@/services/autosaveService';
+
+const AUTOSAVE_INTERVAL_MS = 2000;
+
+export function useAutosave() {
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let isDirty = false;
+    let isHistoryDirty = false;
+
+    const save = (withHistory: boolean) => {
+      const { pedigree } = usePedigreeStore.getState();
+      if (!pedigree) return;
+
+      // Past states repeat when only selection changed; keep distinct pedigrees
+      const history: Pedigree[] = [];
+      if (withHistory) {
+        for (const state of usePedigreeStore.temporal.getState().pastStates) {
+          if (state.pedigree && state.pedigree !== history[history.length - 1]) {
+            history.push(state.pedigree);
+          }
+        }
+        isHistoryDirty = false;
+      }
+
+      autosaveService.save(pedigree, history);
+    };
+
+    const saveDocument = () => {
+      timer = null;
+      if (!isDirty) return;
+      isDirty = false;
+      save(false);
+    };
+
+    const flush = () => {
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      if (!isDirty && !isHistoryDirty) return;
+      isDirty = false;
+      save(true);
+    };
+
+    const unsubscribe = usePedigreeStore.subscribe((state, prevState) => {
+      if (!state.pedigree || state.pedigree === prevState.pedigree) return;
+
+      isDirty = true;
+      isHistoryDirty = true;
+      if (!timer) {
+        timer = setTimeout(saveDocument, AUTOSAVE_INTERVAL_MS);
+      }
+    });
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        flush();
+      }
+    };
+
+    window.addEventListener('beforeunload', flush);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      flush();
+      unsubscribe();
+      window.removeEventListener('beforeunload', flush);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, []);
+}
@@ -0,0 +1,118 @@
+/**
+ * ChartSettingsPanel Component
+ *
+ * Edits the chart's sizes, spacing and labels live. Changes are saved with
+ * the document; "Save as my defaults" keeps them in this browser for every
+ * document without settings of its own.
+ */
+
+import { usePedigreeStore } from '@/store/pedigreeStore';
+import type { ChartSettings } from '@/core/model/types';
+import { CHART_SETTING_LIMITS, resolveChartSettings } from '@/core/model/chartSettings';
+import styles from './ChartSettingsPanel.module.css';
+
+type NumericSetting = keyof typeof CHART_SETTING_LIMITS;
+
+const SIZE_FIELDS: { key: NumericSetting; label: string; step: number }[] = [
+  { key: 'symbolSize', label: 'Symbol size', step: 1 },
+  { key: 'lineWidth', label: 'Line width', step: 0.5 },
+  { key: 'nodeWidth', label: 'Node width', step: 1 },
+  { key: 'nodeHeight', label: 'Node height', step: 1 },
+];
+
+const SPACING_FIELDS: { key: NumericSetting; label: string; step: number }[] = [
+  { key: 'horizontalSpacing', label: 'Horizontal', step: 5 },
+  { key: 'verticalSpacing', label: 'Generations', step: 5 },
+  { key: 'siblingSpacing', label: 'Siblings', step: 5 },
+  { key: 'spouseSpacing', label: 'Partners', step: 5 },
+];
+
+const TOGGLE_FIELDS: { key: 'showLabels' | 'showGenerationNumbers'; label: string }[] = [
+  { key: 'showLabels', label: 'Labels' },
+  { key: 'showGenerationNumbers', label: 'Generation numbers' },
+];
+
+export function ChartSettingsPanel() {
+  const {
+    pedigree,
+    userChartSettings,
+    setChartSettings,
+    resetChartSettings,
+    saveChartSettingsAsDefaults,
+    clearChartSettingsDefaults,
+  } = usePedigreeStore();
+
+  if (!pedigree) {
+    return null;
+  }
+
+  const settings = resolveChartSettings(pedigree, userChartSettings);
+
+  const renderSlider = ({ key, label, step }: { key: NumericSetting; label: string; step: number }) => {
+    const { min, max } = CHART_SETTING_LIMITS[key];
+    return (
+      <label key={key} className={styles.row}>
+        <span className={styles.label}>{label}</span>
+        <input
+          type="range"
+          className={styles.slider}
+          min={min}
+          max={max}
+          step={step}
+          value={settings[key]}
+          onChange={(e) => setChartSettings({ [key]: Number(e.target.value) } as Partial<ChartSettings>)}
+        />
+        <span className={styles.value}>{settings[key]}</span>
+      </label>
+    );
+  };
+
+  return (
+    <div className={styles.section}>
+      <div className={styles.sectionTitle}>Chart Settings</div>
+
+      {SIZE_FIELDS.map(renderSlider)}
+      <div className={styles.subTitle}>Spacing</div>
+      {SPACING_FIELDS.map(renderSlider)}
+
+      <div className={styles.toggles}>
+        {TOGGLE_FIELDS.map(({ key, label }) => (
+          <label key={key} className={styles.checkbox}>
+            <input
+              type="checkbox"
+              checked={settings[key]}
+              onChange={(e) => setChartSettings({ [key]: e.target.checked })}
+            />
+            {label}
+          </label>
+        ))}
+      </div>
+
+      <div className={styles.buttons}>
+        <button
+          className={styles.button}
+          onClick={saveChartSettingsAsDefaults}
+          title="Use these settings for documents without their own"
+        >
+          Save as my defaults
+        </button>
+        <button
+          className={styles.button}
+          onClick={resetChartSettings}
+          disabled={!pedigree.chartSettings}
+          title="Drop this document's settings"
+        >
+          Use my defaults
+        </button>
+        <button
+          className={styles.button}
+          onClick={clearChartSettingsDefaults}
+          disabled={Object.keys(userChartSettings).length === 0}
+          title="Go back to the built-in defaults"
+        >
+          Forget my defaults
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+/**
+ * DateInput Component
+ *
+ * Text field for a partial date: "1950", "1950-03", "1950-03-14", with a
+ * leading "~" for an approximate date. The date is committed on blur or
+ * Enter; text that is not a date is kept and marked until corrected.
+ */
+
+import { useState } from 'react';
+import type { PartialDate } from '@/core/model/types';
+import { parsePartialDate, partialDateToString } from '@/core/model/dates';
+import styles from './DateInput.module.css';
+
+interface DateInputProps {
+  value: PartialDate | undefined;
+  onChange: (value: PartialDate | undefined) => void;
+  className?: string;
+  placeholder?: string;
+}
+
+export function DateInput({ value, onChange, className, placeholder = 'YYYY-MM-DD' }: DateInputProps) {
+  const committed = value ? partialDateToString(value) : '';
+  const [text, setText] = useState(committed);
+  const [lastCommitted, setLastCommitted] = useState(committed);
+
+  // Follow outside changes (undo, another person selected)
+  if (committed !== lastCommitted) {
+    setLastCommitted(committed);
+    setText(committed);
+  }
+
+  const trimmed = text.trim();
+  const parsed = trimmed ? parsePartialDate(trimmed) : null;
+  const invalid = trimmed !== '' && parsed === null;
+
+  const commit = () => {
+    if (invalid) return;
+    const next = parsed ?? undefined;
+    const nextText = next ? partialDateToString(next) : '';
+    if (nextText !== committed) {
+      onChange(next);
+    }
+    setText(nextText);
+  };
+
+  return (
+    <input
+      type="text"
+      className={`${className ?? ''} ${invalid ? styles.invalid : ''}`}
+      value={text}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit();
+      }}
+      placeholder={placeholder}
+      title={invalid ? 'Use YYYY, YYYY-MM or YYYY-MM-DD, with ~ for approximate' : undefined}
+    />
+  );
+}
@@ -0,0 +1,94 @@
+/**
+ * FamilySelectModal Component
+ *
+ * Lets the user choose which families of a multi-family PED file to load.
+ * Each selected family becomes its own pedigree in the workspace.
+ */
+
+import { useState } from 'react';
+import styles from './FamilySelectModal.module.css';
+
+export interface FamilyOption {
+  familyId: string;
+  individualCount: number;
+}
+
+interface FamilySelectModalProps {
+  families: FamilyOption[];
+  onConfirm: (familyIds: string[]) => void;
+  onCancel: () => void;
+}
+
+export function FamilySelectModal({ families, onConfirm, onCancel }: FamilySelectModalProps) {
+  const [selected, setSelected] = useState<Set<string>>(
+    () => new Set(families.map(f => f.familyId))
+  );
+
+  const toggleFamily = (familyId: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(familyId)) {
+        next.delete(familyId);
+      } else {
+        next.add(familyId);
+      }
+      return next;
+    });
+  };
+
+  const handleConfirm = () => {
+    // Keep file order
+    onConfirm(families.map(f => f.familyId).filter(id => selected.has(id)));
+  };
+
+  return (
+    <div className={styles.overlay} onClick={onCancel}>
+      <div className={styles.modal} onClick={(e) => e.stopPropagation()}>
+        <h2 className={styles.title}>Select Families</h2>
+        <p className={styles.description}>
+          This file contains {families.length} families. Each selected family is loaded as
+          its own pedigree; use the family switcher to move between them.
+        </p>
+
+        <div className={styles.selectionActions}>
+          <button
+            className={styles.linkButton}
+            onClick={() => setSelected(new Set(families.map(f => f.familyId)))}
+          >
+            Select all
+          </button>
+          <button className={styles.linkButton} onClick={() => setSelected(new Set())}>
+            Select none
+          </button>
+        </div>
+
+        <div className={styles.familyList}>
+          {families.map(family => (
+            <label key={family.familyId} className={styles.familyItem}>
+              <input
+                type="checkbox"
+                checked={selected.has(family.familyId)}
+                onChange={() => toggleFamily(family.familyId)}
+              />
+              {family.familyId}
+              <span className={styles.familyCount}>{family.individualCount} individuals</span>
+            </label>
+          ))}
+        </div>
+
+        <div className={styles.buttons}>
+          <button
+            className={styles.primaryButton}
+            onClick={handleConfirm}
+            disabled={selected.size === 0}
+          >
+            Load {selected.size} {selected.size === 1 ? 'family' : 'families'}
+          </button>
+          <button className={styles.secondaryButton} onClick={onCancel}>
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
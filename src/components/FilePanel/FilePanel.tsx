@@ -4,31 +4,165 @@
  * Handles file import and export operations
  */
 
-import { useRef, useCallback, useState } from 'react';
+import { useRef, useCallback, useState, useSyncExternalStore } from 'react';
 import { usePedigreeStore } from '@/store/pedigreeStore';
-import { PedParser } from '@/core/parser/PedParser';
-import { exportService } from '@/services/exportService';
+import {
+  PedParser,
+  DEFAULT_PED_PARSE_OPTIONS,
+  CASE_CONTROL_PED_PARSE_OPTIONS,
+  QUANTITATIVE_PED_PARSE_OPTIONS,
+} from '@/core/parser/PedParser';
+import { DocumentParser } from '@/core/parser/DocumentParser';
+import { exportService, DOCUMENT_FILE_EXTENSION } from '@/services/exportService';
+import { autosaveService } from '@/services/autosaveService';
+import { pedigreeValidator } from '@/core/validation/PedigreeValidator';
+import type { Pedigree, PedRecord, PedParseOptions } from '@/core/model/types';
+import { DEFAULT_DEIDENTIFY_OPTIONS, type DeidentifyOptions } from '@/core/model/deidentify';
+import { FamilySelectModal, type FamilyOption } from '../FamilySelectModal/FamilySelectModal';
 import styles from './FilePanel.module.css';
 
+/**
+ * Native documents are JSON; anything else is treated as PED
+ */
+function isDocumentContent(file: File, content: string): boolean {
+  return file.name.toLowerCase().endsWith('.json') || content.trimStart().startsWith('{');
+}
+
+type PhenotypeEncoding = 'standard' | 'case-control' | 'quantitative';
+
+const ENCODING_PRESETS: Record<PhenotypeEncoding, PedParseOptions> = {
+  'standard': DEFAULT_PED_PARSE_OPTIONS,
+  'case-control': CASE_CONTROL_PED_PARSE_OPTIONS,
+  'quantitative': QUANTITATIVE_PED_PARSE_OPTIONS,
+};
+
+/**
+ * Build PED parser options from the import settings form
+ */
+function buildParseOptions(
+  encoding: PhenotypeEncoding,
+  missingCodes: string,
+  threshold: string
+): PedParseOptions {
+  const options: PedParseOptions = {
+    ...ENCODING_PRESETS[encoding],
+    missingCodes: missingCodes.split(/[\s,]+/).filter(code => code !== ''),
+  };
+  if (encoding === 'quantitative' && threshold.trim() !== '' && Number.isFinite(Number(threshold))) {
+    options.affectedThreshold = Number(threshold);
+  }
+  return options;
+}
+
+/**
+ * Validate imported pedigrees, returning a notice when anything is inconsistent
+ */
+function summarizeIssues(pedigrees: Pedigree[]): string | null {
+  const summaries = pedigrees
+    .map(pedigree => ({ familyId: pedigree.familyId, count: pedigreeValidator.validate(pedigree).length }))
+    .filter(({ count }) => count > 0)
+    .map(({ familyId, count }) => `${familyId}: ${count} ${count === 1 ? 'issue' : 'issues'}`);
+
+  return summaries.length > 0
+    ? `Consistency check found problems (${summaries.join(', ')}). See the Issues panel below the chart.`
+    : null;
+}
+
+/**
+ * Download name; de-identified copies are marked so they are not mistaken for the project
+ */
+function exportFilename(base: string | undefined, privacy: DeidentifyOptions | null): string {
+  // The family ID may be a surname; de-identified copies do not use it
+  return privacy ? 'pedigree-deidentified' : base ?? 'pedigree';
+}
+
+const PRIVACY_OPTION_LABELS: Record<keyof DeidentifyOptions, string> = {
+  relabel: 'Replace names with generation numbers (II-3)',
+  roundAges: 'Round ages to decades, drop dates',
+  stripNotes: 'Remove notes and second-line text',
+  diamonds: 'Draw every symbol as a diamond',
+};
+
+const subscribeRecent = (listener: () => void) => autosaveService.subscribe(listener);
+const getRecentSnapshot = () => autosaveService.listRecent();
+
 export function FilePanel() {
   const {
     pedigree,
+    workspace,
     loadPedigree,
+    loadWorkspace,
+    switchPedigree,
+    getWorkspacePedigrees,
     createNewPedigree,
     clearPedigree,
+    privacyOptions,
+    setPrivacyOptions,
   } = usePedigreeStore();
 
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const documentInputRef = useRef<HTMLInputElement>(null);
   const [isDragging, setIsDragging] = useState(false);
   const [importError, setImportError] = useState<string | null>(null);
+  const [importNotice, setImportNotice] = useState<string | null>(null);
+  const [extendedPed, setExtendedPed] = useState(false);
+  const [numberedPed, setNumberedPed] = useState(false);
+  const [encoding, setEncoding] = useState<PhenotypeEncoding>('standard');
+  const [missingCodes, setMissingCodes] = useState(DEFAULT_PED_PARSE_OPTIONS.missingCodes.join(', '));
+  const [threshold, setThreshold] = useState('');
+  const recentDocuments = useSyncExternalStore(subscribeRecent, getRecentSnapshot);
+  const [pendingFamilies, setPendingFamilies] = useState<{
+    records: PedRecord[];
+    families: FamilyOption[];
+    // The settings the records were read with
+    options: PedParseOptions;
+  } | null>(null);
+
+  const appendNotice = useCallback((notice: string | null) => {
+    if (notice) {
+      setImportNotice(prev => (prev ? `${prev} ${notice}` : notice));
+    }
+  }, []);
 
   const handleFileSelect = useCallback(async (file: File) => {
     setImportError(null);
+    setImportNotice(null);
 
     try {
       const content = await file.text();
-      const parser = new PedParser();
-      const { pedigree: newPedigree, result } = parser.parseToPedigree(content);
+
+      if (isDocumentContent(file, content)) {
+        const documentParser = new DocumentParser();
+        const result = documentParser.parse(content);
+
+        if (!result.pedigree) {
+          setImportError(
+            `Invalid pedigree document: ${result.errors.map(e => e.path ? `${e.path}: ${e.message}` : e.message).join('; ')}`
+          );
+          return;
+        }
+
+        if (result.warnings.length > 0) {
+          console.warn('Document warnings:', result.warnings);
+        }
+
+        if (result.migrations.length > 0) {
+          const changes = result.migrations.flatMap(step => step.changes);
+          console.info('Document migrations:', result.migrations);
+          appendNotice(
+            `Upgraded from schema ${result.migrations[0].from} to ${result.migrations[result.migrations.length - 1].to}` +
+            (changes.length > 0 ? `: ${changes.join('; ')}` : '')
+          );
+        }
+
+        appendNotice(summarizeIssues([result.pedigree]));
+        loadPedigree(result.pedigree, { keepPositions: true });
+        return;
+      }
+
+      const options = buildParseOptions(encoding, missingCodes, threshold);
+      const parser = new PedParser(options);
+      const result = parser.parse(content);
 
       if (result.errors.length > 0) {
         setImportError(`Parse errors: ${result.errors.map(e => e.message).join(', ')}`);
@@ -37,13 +171,45 @@ export function FilePanel() {
 
       if (result.warnings.length > 0) {
         console.warn('Parse warnings:', result.warnings);
+        appendNotice(`Warnings: ${result.warnings.join('; ')}`);
+      }
+
+      const familyIds = parser.getFamilyIds(result.records);
+      if (familyIds.length > 1) {
+        // Let the user choose which families to load
+        setPendingFamilies({
+          records: result.records,
+          families: familyIds.map(familyId => ({
+            familyId,
+            individualCount: result.records.filter(r => r.familyId === familyId).length,
+          })),
+          options,
+        });
+        return;
       }
 
-      loadPedigree(newPedigree);
+      const imported = parser.recordsToPedigree(result.records);
+      appendNotice(summarizeIssues([imported]));
+      loadPedigree(imported);
     } catch (error) {
       setImportError(`Failed to parse file: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
-  }, [loadPedigree]);
+  }, [loadPedigree, appendNotice, encoding, missingCodes, threshold]);
+
+  const handleEncodingChange = useCallback((value: PhenotypeEncoding) => {
+    setEncoding(value);
+    setMissingCodes(ENCODING_PRESETS[value].missingCodes.join(', '));
+  }, []);
+
+  const handleConfirmFamilies = useCallback((familyIds: string[]) => {
+    if (!pendingFamilies) return;
+
+    const parser = new PedParser(pendingFamilies.options);
+    const imported = parser.recordsToPedigrees(pendingFamilies.records, familyIds);
+    appendNotice(summarizeIssues(imported));
+    loadWorkspace(imported);
+    setPendingFamilies(null);
+  }, [pendingFamilies, loadWorkspace, appendNotice]);
 
   const handleFileInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -51,9 +217,7 @@ export function FilePanel() {
       handleFileSelect(file);
     }
     // Reset input
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
-    }
+    e.target.value = '';
   }, [handleFileSelect]);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
@@ -84,11 +248,11 @@ export function FilePanel() {
     }
 
     try {
-      await exportService.exportSvg(svg, { filename: pedigree?.familyId ?? 'pedigree' });
+      await exportService.exportSvg(svg, { filename: exportFilename(pedigree?.familyId, privacyOptions) });
     } catch (error) {
       alert('Failed to export SVG');
     }
-  }, [pedigree]);
+  }, [pedigree, privacyOptions]);
 
   const handleExportPng = useCallback(async () => {
     const svg = document.querySelector('.pedigree-main')?.closest('svg') as SVGSVGElement;
@@ -98,11 +262,11 @@ export function FilePanel() {
     }
 
     try {
-      await exportService.exportPng(svg, { filename: pedigree?.familyId ?? 'pedigree' });
+      await exportService.exportPng(svg, { filename: exportFilename(pedigree?.familyId, privacyOptions) });
     } catch (error) {
       alert('Failed to export PNG');
     }
-  }, [pedigree]);
+  }, [pedigree, privacyOptions]);
 
   const handleExportPed = useCallback(() => {
     if (!pedigree) {
@@ -111,12 +275,78 @@ export function FilePanel() {
     }
 
     try {
-      exportService.exportPed(pedigree, { filename: pedigree.familyId ?? 'pedigree' });
+      exportService.exportPed(pedigree, {
+        filename: exportFilename(pedigree.familyId, privacyOptions),
+        extendedPed,
+        pedIdSource: numberedPed ? 'number' : 'label',
+        deidentify: privacyOptions,
+      });
     } catch (error) {
       alert('Failed to export PED');
     }
+  }, [pedigree, extendedPed, numberedPed, privacyOptions]);
+
+  const handleExportAllPed = useCallback(() => {
+    const pedigrees = getWorkspacePedigrees();
+    if (pedigrees.length === 0) {
+      alert('No pedigree to export');
+      return;
+    }
+
+    try {
+      exportService.exportPedAll(pedigrees, {
+        filename: exportFilename('families', privacyOptions),
+        extendedPed,
+        pedIdSource: numberedPed ? 'number' : 'label',
+        deidentify: privacyOptions,
+      });
+    } catch {
+      alert('Failed to export PED');
+    }
+  }, [getWorkspacePedigrees, extendedPed, numberedPed, privacyOptions]);
+
+  // Always the working document, even while privacy mode previews a copy
+  const handleSaveDocument = useCallback(() => {
+    if (!pedigree) {
+      alert('No pedigree to save');
+      return;
+    }
+
+    try {
+      exportService.exportDocument(pedigree, { filename: exportFilename(pedigree.familyId, null) });
+      autosaveService.markSaved(pedigree);
+    } catch {
+      alert('Failed to save project');
+    }
   }, [pedigree]);
 
+  const handleExportDeidentified = useCallback(() => {
+    if (!pedigree || !privacyOptions) return;
+
+    try {
+      exportService.exportDocument(pedigree, {
+        filename: exportFilename(pedigree.familyId, privacyOptions),
+        deidentify: privacyOptions,
+      });
+    } catch {
+      alert('Failed to export de-identified copy');
+    }
+  }, [pedigree, privacyOptions]);
+
+  const handleOpenRecent = useCallback((id: string) => {
+    setImportError(null);
+    setImportNotice(null);
+
+    const result = autosaveService.openDocument(id);
+    if (!result?.pedigree) {
+      setImportError('This document is no longer available');
+      autosaveService.removeRecent(id);
+      return;
+    }
+
+    loadPedigree(result.pedigree, { keepPositions: true });
+  }, [loadPedigree]);
+
   const handleNewPedigree = useCallback(() => {
     const familyId = prompt('Enter Family ID:', 'FAM001');
     if (familyId) {
@@ -135,6 +365,9 @@ export function FilePanel() {
         <button className={styles.button} onClick={() => fileInputRef.current?.click()}>
           Import PED
         </button>
+        <button className={styles.button} onClick={() => documentInputRef.current?.click()}>
+          Open Project
+        </button>
         <input
           ref={fileInputRef}
           type="file"
@@ -142,8 +375,57 @@ export function FilePanel() {
           onChange={handleFileInputChange}
           style={{ display: 'none' }}
         />
+        <input
+          ref={documentInputRef}
+          type="file"
+          accept={`${DOCUMENT_FILE_EXTENSION},.json`}
+          onChange={handleFileInputChange}
+          style={{ display: 'none' }}
+        />
       </div>
 
+      <details className={styles.importOptions}>
+        <summary>PED Import Options</summary>
+        <label className={styles.switcherLabel} htmlFor="ped-encoding">
+          Phenotype encoding
+        </label>
+        <select
+          id="ped-encoding"
+          className={styles.switcher}
+          value={encoding}
+          onChange={(e) => handleEncodingChange(e.target.value as PhenotypeEncoding)}
+        >
+          <option value="standard">1 = unaffected, 2 = affected</option>
+          <option value="case-control">0 = unaffected, 1 = affected</option>
+          <option value="quantitative">Quantitative trait</option>
+        </select>
+        <label className={styles.switcherLabel} htmlFor="ped-missing-codes">
+          Missing codes
+        </label>
+        <input
+          id="ped-missing-codes"
+          type="text"
+          className={styles.switcher}
+          value={missingCodes}
+          onChange={(e) => setMissingCodes(e.target.value)}
+        />
+        {encoding === 'quantitative' && (
+          <>
+            <label className={styles.switcherLabel} htmlFor="ped-threshold">
+              Affected if value ≥
+            </label>
+            <input
+              id="ped-threshold"
+              type="number"
+              className={styles.switcher}
+              value={threshold}
+              onChange={(e) => setThreshold(e.target.value)}
+              placeholder="No threshold"
+            />
+          </>
+        )}
+      </details>
+
       <div
         className={`${styles.dropZone} ${isDragging ? styles.dragging : ''}`}
         onDragOver={handleDragOver}
@@ -151,7 +433,7 @@ export function FilePanel() {
         onDrop={handleDrop}
       >
         <div className={styles.dropZoneText}>
-          Drag & Drop PED file here
+          Drag & Drop PED or project file here
         </div>
       </div>
 
@@ -159,11 +441,31 @@ export function FilePanel() {
         <div className={styles.error}>{importError}</div>
       )}
 
+      {importNotice && (
+        <div className={styles.notice}>{importNotice}</div>
+      )}
+
       <div className={styles.divider} />
 
       <div className={styles.header}>Export</div>
 
       <div className={styles.section} data-tour="export-section">
+        <button
+          className={styles.button}
+          onClick={handleSaveDocument}
+          disabled={!pedigree}
+        >
+          Save Project
+        </button>
+        {privacyOptions && (
+          <button
+            className={styles.button}
+            onClick={handleExportDeidentified}
+            disabled={!pedigree}
+          >
+            Export De-identified
+          </button>
+        )}
         <button
           className={styles.button}
           onClick={handleExportSvg}
@@ -185,11 +487,110 @@ export function FilePanel() {
         >
           Export PED
         </button>
+        {workspace.size > 1 && (
+          <button
+            className={styles.button}
+            onClick={handleExportAllPed}
+          >
+            Export All Families (PED)
+          </button>
+        )}
+        <label className={styles.checkboxLabel}>
+          <input
+            type="checkbox"
+            checked={extendedPed}
+            onChange={(e) => setExtendedPed(e.target.checked)}
+          />
+          Extended PED columns (status, twins, carrier)
+        </label>
+        <label className={styles.checkboxLabel}>
+          <input
+            type="checkbox"
+            checked={numberedPed}
+            onChange={(e) => setNumberedPed(e.target.checked)}
+          />
+          Generation numbers as PED IDs (II-3)
+        </label>
+        <label className={styles.checkboxLabel}>
+          <input
+            type="checkbox"
+            checked={privacyOptions !== null}
+            onChange={(e) => setPrivacyOptions(e.target.checked ? DEFAULT_DEIDENTIFY_OPTIONS : null)}
+            disabled={!pedigree}
+          />
+          Privacy mode (de-identify exports)
+        </label>
+        {privacyOptions && (
+          <div className={styles.privacyOptions}>
+            {(Object.keys(PRIVACY_OPTION_LABELS) as Array<keyof DeidentifyOptions>).map(key => (
+              <label key={key} className={styles.checkboxLabel}>
+                <input
+                  type="checkbox"
+                  checked={privacyOptions[key]}
+                  onChange={(e) => setPrivacyOptions({ ...privacyOptions, [key]: e.target.checked })}
+                />
+                {PRIVACY_OPTION_LABELS[key]}
+              </label>
+            ))}
+          </div>
+        )}
       </div>
 
+      {recentDocuments.length > 0 && (
+        <>
+          <div className={styles.divider} />
+          <div className={styles.header}>Recent</div>
+          <div className={styles.recentList}>
+            {recentDocuments.map(entry => (
+              <div
+                key={entry.id}
+                className={`${styles.recentItem} ${entry.id === pedigree?.id ? styles.current : ''}`}
+              >
+                <button
+                  className={styles.recentOpen}
+                  onClick={() => handleOpenRecent(entry.id)}
+                  title={`${entry.personCount} persons`}
+                >
+                  <span className={styles.recentName}>{entry.name ?? entry.familyId}</span>
+                  <span className={styles.recentTime}>
+                    {new Date(entry.modifiedAt).toLocaleString()}
+                  </span>
+                </button>
+                <button
+                  className={styles.recentRemove}
+                  onClick={() => autosaveService.removeRecent(entry.id)}
+                  title="Remove from recent"
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
       {pedigree && (
         <>
           <div className={styles.divider} />
+          {workspace.size > 1 && (
+            <div className={styles.section}>
+              <label className={styles.switcherLabel} htmlFor="family-switcher">
+                Family ({workspace.size} loaded)
+              </label>
+              <select
+                id="family-switcher"
+                className={styles.switcher}
+                value={pedigree.id}
+                onChange={(e) => switchPedigree(e.target.value)}
+              >
+                {Array.from(workspace.values()).map(p => (
+                  <option key={p.id} value={p.id}>
+                    {p.name ?? p.familyId}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
           <div className={styles.info}>
             <div className={styles.infoItem}>
               <span>Family ID:</span>
@@ -206,6 +607,14 @@ export function FilePanel() {
           </div>
         </>
       )}
+
+      {pendingFamilies && (
+        <FamilySelectModal
+          families={pendingFamilies.families}
+          onConfirm={handleConfirmFamilies}
+          onCancel={() => setPendingFamilies(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,163 @@
+/**
+ * InheritancePanel Component
+ *
+ * Ranks the modes of inheritance by how well they fit the affected and
+ * carrier statuses. Choosing a mode lists its inconsistencies and
+ * highlights the individuals involved on the canvas.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { usePedigreeStore } from '@/store/pedigreeStore';
+import { inheritanceChecker } from '@/core/analysis/InheritanceChecker';
+import { traitStatus } from '@/core/model/traitCatalogue';
+import {
+  InheritanceMode,
+  IssueSeverity,
+  Phenotype,
+  type InheritanceModeResult,
+} from '@/core/model/types';
+import styles from './InheritancePanel.module.css';
+
+const MODE_LABELS: Record<InheritanceMode, string> = {
+  [InheritanceMode.AutosomalDominant]: 'Autosomal dominant',
+  [InheritanceMode.AutosomalRecessive]: 'Autosomal recessive',
+  [InheritanceMode.XLinkedDominant]: 'X-linked dominant',
+  [InheritanceMode.XLinkedRecessive]: 'X-linked recessive',
+  [InheritanceMode.Mitochondrial]: 'Mitochondrial',
+};
+
+export function InheritancePanel() {
+  const {
+    pedigree,
+    selectedPersonId,
+    selectPerson,
+    setHighlightedPersons,
+  } = usePedigreeStore();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [traitIndex, setTraitIndex] = useState(0);
+  const [selectedMode, setSelectedMode] = useState<InheritanceMode | null>(null);
+
+  const traits = pedigree?.traits ?? [];
+  const activeTraitIndex = traitIndex < Math.max(traits.length, 1) ? traitIndex : 0;
+
+  const results = useMemo(
+    () => (pedigree ? inheritanceChecker.rankModes(pedigree, activeTraitIndex) : []),
+    [pedigree, activeTraitIndex]
+  );
+
+  const hasAffected = useMemo(
+    () => !!pedigree && Array.from(pedigree.persons.values())
+      .some(person =>
+        traitStatus(person, activeTraitIndex, pedigree.metadata.affectedThreshold) === Phenotype.Affected),
+    [pedigree, activeTraitIndex]
+  );
+
+  const selectedResult = isExpanded
+    ? results.find(result => result.mode === selectedMode) ?? null
+    : null;
+
+  // Keep the canvas highlights in step with the chosen mode
+  useEffect(() => {
+    setHighlightedPersons(selectedResult?.inconsistentIds ?? []);
+  }, [selectedResult, setHighlightedPersons]);
+
+  useEffect(() => () => setHighlightedPersons([]), [setHighlightedPersons]);
+
+  if (!pedigree) {
+    return null;
+  }
+
+  const fitting = results.filter(result => result.errorCount === 0);
+
+  const summary = () => {
+    if (!hasAffected) {
+      return <span className={styles.muted}>No affected individuals</span>;
+    }
+    if (fitting.length === 0) {
+      return <span className={styles.errorCount}>No mode fits without exceptions</span>;
+    }
+    return <span className={styles.ok}>Best fit: {MODE_LABELS[fitting[0].mode]}</span>;
+  };
+
+  const describe = (result: InheritanceModeResult) => {
+    if (result.issues.length === 0) {
+      return <span className={styles.ok}>Consistent</span>;
+    }
+    return (
+      <span className={styles.counts}>
+        {result.errorCount > 0 && <span className={styles.errorCount}>{result.errorCount} inconsistent</span>}
+        {result.warningCount > 0 && <span className={styles.warningCount}>{result.warningCount} atypical</span>}
+      </span>
+    );
+  };
+
+  return (
+    <div className={styles.panel}>
+      <button
+        className={styles.header}
+        onClick={() => setIsExpanded(!isExpanded)}
+      >
+        <span>Inheritance</span>
+        {summary()}
+        <span className={styles.toggle}>{isExpanded ? '▾' : '▸'}</span>
+      </button>
+
+      {isExpanded && (
+        <div className={styles.body}>
+          <div className={styles.modes}>
+            {traits.length > 1 && (
+              <select
+                className={styles.select}
+                value={activeTraitIndex}
+                onChange={(e) => setTraitIndex(Number(e.target.value))}
+              >
+                {traits.map((trait, index) => (
+                  <option key={trait.id} value={index}>{trait.name}</option>
+                ))}
+              </select>
+            )}
+            <ol className={styles.list}>
+              {results.map(result => (
+                <li key={result.mode}>
+                  <button
+                    className={`${styles.mode} ${result.mode === selectedMode ? styles.selected : ''}`}
+                    onClick={() => setSelectedMode(result.mode === selectedMode ? null : result.mode)}
+                  >
+                    <span className={styles.modeName}>{MODE_LABELS[result.mode]}</span>
+                    {describe(result)}
+                  </button>
+                </li>
+              ))}
+            </ol>
+          </div>
+
+          <ul className={styles.list}>
+            {!selectedResult && (
+              <li className={styles.hint}>
+                Choose a mode to list and highlight the individuals that do not fit it.
+              </li>
+            )}
+            {selectedResult?.issues.map((issue, index) => (
+              <li key={`${issue.personIds[0]}-${index}`}>
+                <button
+                  className={`${styles.issue} ${issue.personIds[0] === selectedPersonId ? styles.selected : ''}`}
+                  onClick={() => selectPerson(issue.personIds[0])}
+                >
+                  <span className={`${styles.badge} ${styles[issue.severity]}`}>
+                    {issue.severity === IssueSeverity.Error ? '!' : '?'}
+                  </span>
+                  {issue.message}
+                </button>
+              </li>
+            ))}
+            {selectedResult && selectedResult.issues.length === 0 && (
+              <li className={styles.hint}>
+                Every individual fits {MODE_LABELS[selectedResult.mode].toLowerCase()} inheritance.
+              </li>
+            )}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
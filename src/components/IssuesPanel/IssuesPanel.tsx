@@ -0,0 +1,86 @@
+/**
+ * IssuesPanel Component
+ *
+ * Lists structural problems found by the pedigree validator.
+ * Re-validates on every change; clicking an issue selects the person or relationship.
+ */
+
+import { useMemo, useState } from 'react';
+import { usePedigreeStore } from '@/store/pedigreeStore';
+import { pedigreeValidator } from '@/core/validation/PedigreeValidator';
+import { IssueSeverity, type ValidationIssue } from '@/core/model/types';
+import styles from './IssuesPanel.module.css';
+
+export function IssuesPanel() {
+  const {
+    pedigree,
+    selectedPersonId,
+    selectedRelationshipId,
+    selectPerson,
+    selectRelationship,
+  } = usePedigreeStore();
+  const [isExpanded, setIsExpanded] = useState(true);
+
+  const issues = useMemo(
+    () => (pedigree ? pedigreeValidator.validate(pedigree) : []),
+    [pedigree]
+  );
+
+  if (!pedigree) {
+    return null;
+  }
+
+  const errorCount = issues.filter(i => i.severity === IssueSeverity.Error).length;
+  const warningCount = issues.length - errorCount;
+
+  const handleIssueClick = (issue: ValidationIssue) => {
+    if (issue.relationshipId && pedigree.relationships.has(issue.relationshipId)) {
+      selectRelationship(issue.relationshipId);
+    } else if (issue.personIds.length > 0) {
+      selectPerson(issue.personIds[0]);
+    }
+  };
+
+  const isSelected = (issue: ValidationIssue) =>
+    issue.relationshipId
+      ? issue.relationshipId === selectedRelationshipId
+      : issue.personIds[0] === selectedPersonId;
+
+  return (
+    <div className={styles.panel}>
+      <button
+        className={styles.header}
+        onClick={() => setIsExpanded(!isExpanded)}
+      >
+        <span>Issues</span>
+        {issues.length === 0 ? (
+          <span className={styles.ok}>No problems found</span>
+        ) : (
+          <span className={styles.counts}>
+            {errorCount > 0 && <span className={styles.errorCount}>{errorCount} errors</span>}
+            {warningCount > 0 && <span className={styles.warningCount}>{warningCount} warnings</span>}
+          </span>
+        )}
+        <span className={styles.toggle}>{isExpanded ? '▾' : '▸'}</span>
+      </button>
+
+      {isExpanded && issues.length > 0 && (
+        <ul className={styles.list}>
+          {issues.map((issue, index) => (
+            <li key={`${issue.code}-${index}`}>
+              <button
+                className={`${styles.issue} ${isSelected(issue) ? styles.selected : ''}`}
+                onClick={() => handleIssueClick(issue)}
+              >
+                <span className={`${styles.badge} ${styles[issue.severity]}`}>
+                  {issue.severity === IssueSeverity.Error ? '!' : '?'}
+                </span>
+                {issue.message}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
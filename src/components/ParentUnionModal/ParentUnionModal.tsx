@@ -0,0 +1,56 @@
+/**
+ * ParentUnionModal Component
+ *
+ * Asks which partnership a new child belongs to when the selected
+ * person has one or more partners, or whether the other parent is unknown.
+ */
+
+import styles from './ParentUnionModal.module.css';
+
+export interface UnionOption {
+  relationshipId: string;
+  partnerName: string;
+  detail?: string;  // e.g. partnership status
+}
+
+interface ParentUnionModalProps {
+  parentName: string;
+  unions: UnionOption[];
+  onSelect: (relationshipId: string | null) => void;
+  onCancel: () => void;
+}
+
+export function ParentUnionModal({ parentName, unions, onSelect, onCancel }: ParentUnionModalProps) {
+  return (
+    <div className={styles.overlay} onClick={onCancel}>
+      <div className={styles.modal} onClick={(e) => e.stopPropagation()}>
+        <h2 className={styles.title}>Add Child</h2>
+        <p className={styles.description}>
+          Which partnership of {parentName} does the child belong to?
+        </p>
+
+        <div className={styles.unionList}>
+          {unions.map(union => (
+            <button
+              key={union.relationshipId}
+              className={styles.unionItem}
+              onClick={() => onSelect(union.relationshipId)}
+            >
+              {parentName} &amp; {union.partnerName}
+              {union.detail && <span className={styles.unionDetail}>{union.detail}</span>}
+            </button>
+          ))}
+          <button className={styles.unionItem} onClick={() => onSelect(null)}>
+            Unknown other parent
+          </button>
+        </div>
+
+        <div className={styles.buttons}>
+          <button className={styles.secondaryButton} onClick={onCancel}>
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
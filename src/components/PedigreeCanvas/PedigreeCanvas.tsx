@@ -4,38 +4,111 @@
  * Main canvas for rendering and interacting with the pedigree diagram
  */
 
-import { useCallback, useState } from 'react';
+import { useCallback, useMemo, useState } from 'react';
 import { usePedigreeStore } from '@/store/pedigreeStore';
+import type { Pedigree, LayoutNode } from '@/core/model/types';
+import { deidentify } from '@/core/model/deidentify';
+import { visiblePedigree } from '@/core/model/branchView';
+import { resolveChartSettings, renderOptionsOf } from '@/core/model/chartSettings';
+import { layoutEngineFor, viewLayoutEngineFor } from '@/core/layout/layoutEngines';
 import { useD3Pedigree } from './hooks/useD3Pedigree';
 import { useZoomPan } from './hooks/useZoomPan';
 import { useDragBehavior } from './hooks/useDragBehavior';
 import styles from './PedigreeCanvas.module.css';
 
+/**
+ * Layout of a copy drawn in place of the document
+ */
+function layoutView(pedigree: Pedigree, respectPins: boolean): Map<string, LayoutNode> {
+  const engine = viewLayoutEngineFor(pedigree);
+  engine.setOptions({ respectPins });
+  return engine.layout(pedigree);
+}
+
 export function PedigreeCanvas() {
   const {
     pedigree,
     layoutNodes,
     selectedPersonId,
     selectedRelationshipId,
+    highlightedPersonIds,
+    riskLabels,
+    privacyOptions,
+    showIndividualNumbers,
+    respectPins,
+    userChartSettings,
     currentTool,
     selectPerson,
     selectRelationship,
     clearSelection,
     updatePersonPosition,
+    toggleBranch,
   } = usePedigreeStore();
 
   const [zoomLevel, setZoomLevel] = useState(1);
 
+  // Privacy mode draws a de-identified copy; its person IDs are mapped
+  // back so selecting still edits the working document
+  const previewLayout = useMemo(() => {
+    if (!pedigree || !privacyOptions) return null;
+    const { pedigree: copy, ids } = deidentify(pedigree, privacyOptions);
+    const originalIds = new Map(Array.from(ids, ([id, previewId]) => [previewId, id]));
+    return {
+      pedigree: copy,
+      layoutNodes: layoutView(copy, respectPins),
+      toPreview: (id: string) => ids.get(id) ?? id,
+      toOriginal: (id: string) => originalIds.get(id) ?? id,
+    };
+  }, [pedigree, privacyOptions, respectPins]);
+
+  // Selection and highlights only need their IDs mapped, not a new copy
+  const preview = useMemo(() => {
+    if (!previewLayout) return null;
+    const { toPreview } = previewLayout;
+    return {
+      ...previewLayout,
+      selectedPersonId: selectedPersonId && toPreview(selectedPersonId),
+      highlightedPersonIds: highlightedPersonIds.map(toPreview),
+      riskLabels: new Map(Array.from(riskLabels, ([id, label]) => [toPreview(id), label])),
+    };
+  }, [previewLayout, selectedPersonId, highlightedPersonIds, riskLabels]);
+
+  // Collapsed branches and focus mode hide persons; what is left is laid
+  // out on its own, with placeholder nodes for the hidden branches
+  const visible = useMemo(() => {
+    const base = previewLayout?.pedigree ?? pedigree;
+    if (!base) return null;
+    const { pedigree: shown, placeholders } = visiblePedigree(base);
+    if (shown === base) return null;
+    return { pedigree: shown, placeholders, layoutNodes: layoutView(shown, respectPins) };
+  }, [pedigree, previewLayout, respectPins]);
+
+  // Horizontal charts draw their connections on their side
+  const orientation = pedigree ? layoutEngineFor(pedigree).orientation : 'vertical';
+  const renderOptions = useMemo(() => ({
+    ...renderOptionsOf(resolveChartSettings(pedigree, userChartSettings)),
+    showIndividualNumbers,
+    showPins: respectPins,
+    orientation,
+  }), [pedigree, userChartSettings, showIndividualNumbers, respectPins, orientation]);
+
   const handlePersonClick = useCallback((personId: string) => {
+    const placeholder = visible?.placeholders.get(personId);
+    if (placeholder) {
+      const { personId: branchPersonId, direction } = placeholder.branch;
+      toggleBranch(previewLayout ? previewLayout.toOriginal(branchPersonId) : branchPersonId, direction);
+      return;
+    }
     if (currentTool === 'select') {
-      selectPerson(personId);
+      selectPerson(previewLayout ? previewLayout.toOriginal(personId) : personId);
     }
-  }, [currentTool, selectPerson]);
+  }, [currentTool, selectPerson, toggleBranch, previewLayout, visible]);
 
   const handlePersonDoubleClick = useCallback((personId: string) => {
     // Could open edit dialog
-    selectPerson(personId);
-  }, [selectPerson]);
+    if (visible?.placeholders.has(personId)) return;
+    selectPerson(previewLayout ? previewLayout.toOriginal(personId) : personId);
+  }, [selectPerson, previewLayout, visible]);
 
   const handleBackgroundClick = useCallback(() => {
     clearSelection();
@@ -47,15 +120,31 @@ export function PedigreeCanvas() {
     }
   }, [currentTool, selectRelationship]);
 
+  const { drag } = useDragBehavior({
+    // Positions of the preview or visible copy are not the document's
+    isEnabled: currentTool === 'select' && !previewLayout && !visible,
+    onDragEnd: (personId, x, y) => {
+      updatePersonPosition(personId, x, y);
+    },
+    onClick: (personId) => {
+      selectPerson(personId);
+    },
+  });
+
   const { svgRef } = useD3Pedigree({
-    pedigree,
-    layoutNodes,
-    selectedPersonId,
+    pedigree: visible?.pedigree ?? preview?.pedigree ?? pedigree,
+    layoutNodes: visible?.layoutNodes ?? preview?.layoutNodes ?? layoutNodes,
+    selectedPersonId: preview ? preview.selectedPersonId : selectedPersonId,
     selectedRelationshipId,
+    highlightedPersonIds: preview?.highlightedPersonIds ?? highlightedPersonIds,
+    riskLabels: preview?.riskLabels ?? riskLabels,
+    placeholders: visible?.placeholders,
+    options: renderOptions,
     onPersonClick: handlePersonClick,
     onPersonDoubleClick: handlePersonDoubleClick,
     onRelationshipClick: handleRelationshipClick,
     onBackgroundClick: handleBackgroundClick,
+    drag,
   });
 
   const { resetZoom, zoomIn, zoomOut, fitToContent } = useZoomPan({
@@ -63,18 +152,6 @@ export function PedigreeCanvas() {
     onZoomChange: (state) => setZoomLevel(Math.round(state.k * 100) / 100),
   });
 
-  const { isDragging } = useDragBehavior({
-    svgRef,
-    layoutNodes,
-    isEnabled: currentTool === 'select',
-    onDragEnd: (personId, x, y) => {
-      updatePersonPosition(personId, x, y);
-    },
-    onClick: (personId) => {
-      selectPerson(personId);
-    },
-  });
-
   return (
     <div className={styles.canvasContainer} data-tour="canvas">
       <div className={styles.zoomControls}>
@@ -85,6 +162,12 @@ export function PedigreeCanvas() {
         <button onClick={fitToContent} title="Fit to Content">Fit</button>
       </div>
 
+      {preview && (
+        <div className={styles.privacyBadge}>
+          Privacy preview — exports are de-identified
+        </div>
+      )}
+
       <svg
         ref={svgRef}
         className={styles.canvas}
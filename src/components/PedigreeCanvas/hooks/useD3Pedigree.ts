@@ -1,24 +1,58 @@
 /**
  * useD3Pedigree Hook
  *
- * Integrates D3.js with React for rendering the pedigree chart
+ * Integrates D3.js with React for rendering the pedigree chart.
+ * Persons and connections are keyed data joins: each one keeps its SVG
+ * group between renders and is only redrawn when what it shows changes,
+ * so editing one person in a large pedigree touches a handful of nodes.
  */
 
-import { useRef, useEffect, useCallback } from 'react';
+import { useRef, useEffect, useCallback, useMemo, type RefObject } from 'react';
 import * as d3 from 'd3';
-import type { Pedigree, Person, LayoutNode, RenderOptions } from '@/core/model/types';
-import { Sex, Phenotype, PartnershipStatus, ChildlessReason } from '@/core/model/types';
+import type { Pedigree, Person, LayoutNode, RenderOptions, Trait, GeneticTest, PartialDate } from '@/core/model/types';
+import {
+  Sex,
+  Phenotype,
+  PartnershipStatus,
+  ChildlessReason,
+  TraitPattern,
+  TestResult,
+  Zygosity,
+} from '@/core/model/types';
+import { traitStatus } from '@/core/model/traitCatalogue';
+import { formatAge, formatPartialDate, personAge, todayAsPartialDate } from '@/core/model/dates';
+import { toRomanNumeral } from '@/core/model/numbering';
+import { DEFAULT_CHART_SETTINGS } from '@/core/model/chartSettings';
+import type { BranchPlaceholder } from '@/core/model/branchView';
 import { SymbolRegistry } from '@/core/renderer/SymbolRegistry';
-import { ConnectionRenderer } from '@/core/renderer/ConnectionRenderer';
+import { ConnectionRenderer, spouseLineObstacles } from '@/core/renderer/ConnectionRenderer';
+
+// Fill opacity of a trait section for a carrier
+const CARRIER_OPACITY = 0.35;
+
+const ZYGOSITY_ABBREVIATIONS: Record<Zygosity, string> = {
+  [Zygosity.Heterozygous]: 'het',
+  [Zygosity.Homozygous]: 'hom',
+  [Zygosity.Hemizygous]: 'hemi',
+  [Zygosity.Unknown]: '',
+};
+
+// Stable defaults so the render callback is not rebuilt on every call
+const NO_HIGHLIGHTS: string[] = [];
+const NO_RISK_LABELS = new Map<string, string>();
+const NO_PLACEHOLDERS = new Map<string, BranchPlaceholder>();
 
 export const DEFAULT_RENDER_OPTIONS: RenderOptions = {
   width: 800,
   height: 600,
   padding: 50,
-  symbolSize: 40,
-  lineWidth: 2,
-  showLabels: true,
-  showGenerationNumbers: true,
+  symbolSize: DEFAULT_CHART_SETTINGS.symbolSize,
+  lineWidth: DEFAULT_CHART_SETTINGS.lineWidth,
+  showLabels: DEFAULT_CHART_SETTINGS.showLabels,
+  showGenerationNumbers: DEFAULT_CHART_SETTINGS.showGenerationNumbers,
+  showIndividualNumbers: false,
+  showPins: false,
+  orientation: 'vertical',
 };
 
 interface UseD3PedigreeProps {
@@ -26,106 +60,140 @@ interface UseD3PedigreeProps {
   layoutNodes: Map<string, LayoutNode>;
   selectedPersonId: string | null;
   selectedRelationshipId: string | null;
+  highlightedPersonIds?: string[];
+  riskLabels?: Map<string, string>;
+  // Nodes standing for collapsed branches (see branchView.ts)
+  placeholders?: Map<string, BranchPlaceholder>;
   options?: Partial<RenderOptions>;
   onPersonClick?: (personId: string) => void;
   onPersonDoubleClick?: (personId: string) => void;
   onRelationshipClick?: (relationshipId: string) => void;
   onBackgroundClick?: () => void;
+  // Bound once to each person group as it is created (see useDragBehavior)
+  drag?: d3.DragBehavior<SVGGElement, unknown, unknown>;
 }
 
+type PedigreeCallbacks = Pick<
+  UseD3PedigreeProps,
+  'onPersonClick' | 'onPersonDoubleClick' | 'onRelationshipClick' | 'onBackgroundClick'
+>;
+
+type Group = d3.Selection<SVGGElement, unknown, null, undefined>;
+
+/**
+ * One keyed group of the chart: a person, or a relationship's lines
+ * The signature covers everything the group draws.
+ */
+interface KeyedItem {
+  key: string;
+  signature: string;
+}
+
+// What each group was last drawn from, and the render options per chart
+const drawnSignatures = new WeakMap<Element, string>();
+const drawnStyles = new WeakMap<Element, string>();
+
+// Clip path IDs stay unique across renders that redraw only some persons
+let nextClipId = 0;
+
 export function useD3Pedigree({
   pedigree,
   layoutNodes,
   selectedPersonId,
   selectedRelationshipId,
+  highlightedPersonIds = NO_HIGHLIGHTS,
+  riskLabels = NO_RISK_LABELS,
+  placeholders = NO_PLACEHOLDERS,
   options = {},
   onPersonClick,
   onPersonDoubleClick,
   onRelationshipClick,
   onBackgroundClick,
+  drag,
 }: UseD3PedigreeProps) {
   const svgRef = useRef<SVGSVGElement>(null);
-  const renderOptions = { ...DEFAULT_RENDER_OPTIONS, ...options };
+  const renderOptions = useMemo(() => ({ ...DEFAULT_RENDER_OPTIONS, ...options }), [options]);
   const symbolRegistry = useRef(new SymbolRegistry(renderOptions.symbolSize));
   const connectionRenderer = useRef(new ConnectionRenderer({
     symbolSize: renderOptions.symbolSize,
     lineWidth: renderOptions.lineWidth,
   }));
 
+  // Drawn elements call the latest callbacks, so a new callback does not
+  // mean redrawing every person
+  const callbacks = useRef<PedigreeCallbacks>({});
+  useEffect(() => {
+    callbacks.current = { onPersonClick, onPersonDoubleClick, onRelationshipClick, onBackgroundClick };
+  }, [onPersonClick, onPersonDoubleClick, onRelationshipClick, onBackgroundClick]);
+
   const render = useCallback(() => {
     if (!svgRef.current || !pedigree) return;
 
     const svg = d3.select(svgRef.current);
 
-    // Preserve current transform if main group exists
-    let existingTransform: string | null = null;
-    const existingMainGroup = svg.select<SVGGElement>('.pedigree-main');
-    if (!existingMainGroup.empty()) {
-      existingTransform = existingMainGroup.attr('transform');
-    }
-
-    // Clear previous content
-    svg.selectAll('*').remove();
+    // Symbols and connections follow the chart settings
+    symbolRegistry.current.setSize(renderOptions.symbolSize);
+    connectionRenderer.current.setConfig({
+      symbolSize: renderOptions.symbolSize,
+      lineWidth: renderOptions.lineWidth,
+    });
 
-    // Create main group for zoom/pan
-    const mainGroup = svg
-      .append('g')
-      .attr('class', 'pedigree-main');
+    const layers = chartLayers(svg, callbacks);
 
-    // Restore transform if it existed
-    if (existingTransform) {
-      mainGroup.attr('transform', existingTransform);
+    // Other options, traits or dates change every person and line
+    const styleKey = JSON.stringify([
+      renderOptions,
+      pedigree.traits ?? [],
+      pedigree.metadata.asOfDate ?? null,
+      pedigree.metadata.affectedThreshold ?? null,
+    ]);
+    if (drawnStyles.get(svgRef.current) !== styleKey) {
+      drawnStyles.set(svgRef.current, styleKey);
+      layers.connections.selectChildren().remove();
+      layers.persons.selectChildren().remove();
     }
 
-    // Background (for click handling)
-    mainGroup
-      .append('rect')
-      .attr('class', 'pedigree-background')
-      .attr('x', -10000)
-      .attr('y', -10000)
-      .attr('width', 20000)
-      .attr('height', 20000)
-      .attr('fill', 'transparent')
-      .on('click', () => {
-        onBackgroundClick?.();
-      });
+    // Trait fill patterns
+    layers.patterns.selectChildren().remove();
+    renderTraitPatterns(layers.patterns, pedigree.traits ?? []);
 
-    // Render connections first (so they appear behind symbols)
-    const connectionsGroup = mainGroup
-      .append('g')
-      .attr('class', 'connections');
+    // Horizontal charts: lines are worked out as if the chart were upright,
+    // then the group is mirrored across the diagonal (x and y swapped)
+    const horizontal = renderOptions.orientation === 'horizontal';
+    layers.connections.attr('transform', horizontal ? 'matrix(0 1 1 0 0 0)' : null);
 
     renderConnections(
-      connectionsGroup,
+      layers.connections,
       pedigree,
-      layoutNodes,
+      horizontal ? transposeNodes(layoutNodes) : layoutNodes,
       connectionRenderer.current,
+      renderOptions.lineWidth,
       selectedRelationshipId,
-      onRelationshipClick
+      callbacks
     );
 
-    // Render persons
-    const personsGroup = mainGroup
-      .append('g')
-      .attr('class', 'persons');
-
     renderPersons(
-      personsGroup,
+      layers.persons,
       pedigree,
       layoutNodes,
       symbolRegistry.current,
       renderOptions,
       selectedPersonId,
-      onPersonClick,
-      onPersonDoubleClick
+      highlightedPersonIds,
+      riskLabels,
+      placeholders,
+      callbacks,
+      drag
     );
 
-    // Render generation labels
+    // Generation labels and the legend are few; they are simply drawn again
+    layers.annotations.selectChildren().remove();
     if (renderOptions.showGenerationNumbers) {
-      renderGenerationLabels(mainGroup, layoutNodes);
+      renderGenerationLabels(layers.annotations, layoutNodes, renderOptions.orientation);
     }
+    renderLegend(layers.annotations, pedigree, layoutNodes, renderOptions.symbolSize);
 
-  }, [pedigree, layoutNodes, selectedPersonId, selectedRelationshipId, renderOptions, onPersonClick, onPersonDoubleClick, onRelationshipClick, onBackgroundClick]);
+  }, [pedigree, layoutNodes, selectedPersonId, selectedRelationshipId, highlightedPersonIds, riskLabels, placeholders, renderOptions, drag]);
 
   useEffect(() => {
     render();
@@ -134,14 +202,108 @@ export function useD3Pedigree({
   return { svgRef, render };
 }
 
+/**
+ * Groups the chart is drawn into
+ * Created on the first render and kept afterwards, so the zoom transform
+ * and the keyed groups inside them survive re-renders.
+ */
+function chartLayers(
+  svg: d3.Selection<SVGSVGElement, unknown, null, undefined>,
+  callbacks: RefObject<PedigreeCallbacks>
+) {
+  let mainGroup = svg.select<SVGGElement>('g.pedigree-main');
+  if (mainGroup.empty()) {
+    mainGroup = svg
+      .append('g')
+      .attr('class', 'pedigree-main');
+
+    // Background (for click handling)
+    mainGroup
+      .append('rect')
+      .attr('class', 'pedigree-background')
+      .attr('x', -10000)
+      .attr('y', -10000)
+      .attr('width', 20000)
+      .attr('height', 20000)
+      .attr('fill', 'transparent')
+      .on('click', () => {
+        callbacks.current.onBackgroundClick?.();
+      });
+
+    // Connections first, so they appear behind symbols
+    for (const layer of ['trait-patterns', 'connections', 'persons', 'annotations']) {
+      mainGroup.append('g').attr('class', layer);
+    }
+  }
+
+  return {
+    patterns: mainGroup.select<SVGGElement>('g.trait-patterns'),
+    connections: mainGroup.select<SVGGElement>('g.connections'),
+    persons: mainGroup.select<SVGGElement>('g.persons'),
+    annotations: mainGroup.select<SVGGElement>('g.annotations'),
+  };
+}
+
+/**
+ * Keyed data join: one group per item, in the order given
+ * New items get a group, gone ones lose theirs, and a group is only
+ * cleared and drawn again when its item's signature has changed.
+ */
+function joinKeyed<T extends KeyedItem>(
+  group: Group,
+  className: string,
+  items: T[],
+  draw: (itemGroup: Group, item: T) => void,
+  onEnter?: (itemGroup: Group) => void
+): d3.Selection<SVGGElement, T, SVGGElement, unknown> {
+  return group
+    .selectChildren<SVGGElement, T>(`g.${className}`)
+    .data(items, item => item.key)
+    .join(enter => enter
+      .append('g')
+      .attr('class', className)
+      .each(function () {
+        onEnter?.(d3.select<SVGGElement, unknown>(this));
+      }))
+    .order()
+    .each(function (item) {
+      if (drawnSignatures.get(this) === item.signature) return;
+      drawnSignatures.set(this, item.signature);
+      const itemGroup = d3.select<SVGGElement, unknown>(this);
+      itemGroup.selectChildren().remove();
+      itemGroup.attr('class', className);
+      draw(itemGroup, item);
+    });
+}
+
+function position(node: LayoutNode): [number, number] {
+  return [node.x, node.y];
+}
+
+/**
+ * Layout nodes with x and y swapped; persons are shared, not copied
+ */
+function transposeNodes(layoutNodes: Map<string, LayoutNode>): Map<string, LayoutNode> {
+  const transposed = new Map<string, LayoutNode>();
+  for (const [id, node] of layoutNodes) {
+    transposed.set(id, { ...node, x: node.y, y: node.x });
+  }
+  return transposed;
+}
+
 function renderConnections(
   group: d3.Selection<SVGGElement, unknown, null, undefined>,
   pedigree: Pedigree,
   layoutNodes: Map<string, LayoutNode>,
   renderer: ConnectionRenderer,
+  lineWidth: number,
   selectedRelationshipId: string | null,
-  onRelationshipClick?: (relationshipId: string) => void
+  callbacks: RefObject<PedigreeCallbacks>
 ) {
+  // One keyed unit per couple (partner line, indicators and line down to
+  // the children) and per child of a single parent
+  const items: (KeyedItem & { draw: (unit: Group) => void })[] = [];
+
   // Render spouse connections
   const processedPairs = new Set<string>();
 
@@ -155,126 +317,139 @@ function renderConnections(
     if (processedPairs.has(pairKey)) continue;
     processedPairs.add(pairKey);
 
-    const paths = renderer.renderSpouseConnection(node1, node2, relationship);
+    const obstacles = spouseLineObstacles(node1, node2, layoutNodes.values());
     const isSelected = relationship.id === selectedRelationshipId;
+    const childNodes = relationship.childrenIds
+      .map(id => layoutNodes.get(id))
+      .filter((n): n is LayoutNode => n !== undefined);
+
+    items.push({
+      key: `relationship:${relationship.id}`,
+      signature: JSON.stringify([
+        relationship,
+        position(node1),
+        position(node2),
+        obstacles.map(position),
+        childNodes.map(node => [...position(node), node.person.status]),
+        isSelected,
+      ]),
+      draw: (unit) => {
+        const paths = renderer.renderSpouseConnection(node1, node2, relationship, obstacles);
+
+        // Create a group for the clickable connection
+        const connectionGroup = unit
+          .append('g')
+          .attr('class', `connection-group${isSelected ? ' selected' : ''}`)
+          .attr('data-relationship-id', relationship.id);
+
+        // Render clickable hit area if available
+        const pathWithArea = paths.find(p => p.clickableArea);
+        if (pathWithArea?.clickableArea) {
+          const area = pathWithArea.clickableArea;
+          connectionGroup
+            .append('rect')
+            .attr('class', 'connection-hit-area')
+            .attr('x', area.x)
+            .attr('y', area.y)
+            .attr('width', area.width)
+            .attr('height', area.height)
+            .attr('fill', 'transparent')
+            .attr('cursor', 'pointer')
+            .on('click', (event) => {
+              event.stopPropagation();
+              callbacks.current.onRelationshipClick?.(relationship.id);
+            });
+        }
 
-    // Create a group for the clickable connection
-    const connectionGroup = group
-      .append('g')
-      .attr('class', `connection-group${isSelected ? ' selected' : ''}`)
-      .attr('data-relationship-id', relationship.id);
-
-    // Render clickable hit area if available
-    const pathWithArea = paths.find(p => p.clickableArea);
-    if (pathWithArea?.clickableArea) {
-      const area = pathWithArea.clickableArea;
-      connectionGroup
-        .append('rect')
-        .attr('class', 'connection-hit-area')
-        .attr('x', area.x)
-        .attr('y', area.y)
-        .attr('width', area.width)
-        .attr('height', area.height)
-        .attr('fill', 'transparent')
-        .attr('cursor', 'pointer')
-        .on('click', (event) => {
-          event.stopPropagation();
-          onRelationshipClick?.(relationship.id);
-        });
-    }
-
-    for (const path of paths) {
-      connectionGroup
-        .append('path')
-        .attr('d', path.d)
-        .attr('class', path.className)
-        .attr('fill', 'none')
-        .attr('stroke', '#333')
-        .attr('stroke-width', 2);
-    }
-
-    // Render partnership status indicators (separation/divorce)
-    if (relationship.partnershipStatus === PartnershipStatus.Separated) {
-      const separationPaths = renderer.renderSeparationIndicator(node1, node2);
-      for (const path of separationPaths) {
-        connectionGroup
-          .append('path')
-          .attr('d', path.d)
-          .attr('class', path.className)
-          .attr('fill', 'none')
-          .attr('stroke', '#333')
-          .attr('stroke-width', 2);
-      }
-    } else if (relationship.partnershipStatus === PartnershipStatus.Divorced) {
-      const divorcePaths = renderer.renderDivorceIndicator(node1, node2);
-      for (const path of divorcePaths) {
-        connectionGroup
-          .append('path')
-          .attr('d', path.d)
-          .attr('class', path.className)
-          .attr('fill', 'none')
-          .attr('stroke', '#333')
-          .attr('stroke-width', 2);
-      }
-    }
-
-    // Render childlessness indicators
-    if (relationship.childlessReason === ChildlessReason.Infertility) {
-      const infertilityPaths = renderer.renderInfertilityIndicator(node1, node2, false);
-      for (const path of infertilityPaths) {
-        connectionGroup
-          .append('path')
-          .attr('d', path.d)
-          .attr('class', path.className)
-          .attr('fill', 'none')
-          .attr('stroke', '#333')
-          .attr('stroke-width', 2);
-      }
-    } else if (relationship.childlessReason === ChildlessReason.ByChoice) {
-      const byChoicePaths = renderer.renderInfertilityIndicator(node1, node2, true);
-      for (const path of byChoicePaths) {
-        connectionGroup
-          .append('path')
-          .attr('d', path.d)
-          .attr('class', path.className)
-          .attr('fill', 'none')
-          .attr('stroke', '#333')
-          .attr('stroke-width', 2);
-      }
-      // Add "(c)" text for by-choice
-      connectionGroup
-        .append('text')
-        .attr('x', (node1.x + node2.x) / 2)
-        .attr('y', node1.y + 20 + 30 + 12)
-        .attr('text-anchor', 'middle')
-        .attr('font-size', '10px')
-        .attr('font-family', 'sans-serif')
-        .text('(c)');
-    }
-
-    // Render parent-child connections if there are children
-    if (relationship.childrenIds.length > 0) {
-      const childNodes = relationship.childrenIds
-        .map(id => layoutNodes.get(id))
-        .filter((n): n is LayoutNode => n !== undefined);
-
-      if (childNodes.length > 0) {
-        const parentChildPaths = renderer.renderParentChildConnection(
-          [node1, node2],
-          childNodes
-        );
-
-        for (const path of parentChildPaths) {
-          group
+        for (const path of paths) {
+          connectionGroup
             .append('path')
             .attr('d', path.d)
             .attr('class', path.className)
             .attr('fill', 'none')
             .attr('stroke', '#333')
-            .attr('stroke-width', 2);
+            .attr('stroke-width', lineWidth);
         }
-      }
-    }
+
+        // Render partnership status indicators (separation/divorce)
+        if (relationship.partnershipStatus === PartnershipStatus.Separated) {
+          const separationPaths = renderer.renderSeparationIndicator(node1, node2);
+          for (const path of separationPaths) {
+            connectionGroup
+              .append('path')
+              .attr('d', path.d)
+              .attr('class', path.className)
+              .attr('fill', 'none')
+              .attr('stroke', '#333')
+              .attr('stroke-width', lineWidth);
+          }
+        } else if (relationship.partnershipStatus === PartnershipStatus.Divorced) {
+          const divorcePaths = renderer.renderDivorceIndicator(node1, node2);
+          for (const path of divorcePaths) {
+            connectionGroup
+              .append('path')
+              .attr('d', path.d)
+              .attr('class', path.className)
+              .attr('fill', 'none')
+              .attr('stroke', '#333')
+              .attr('stroke-width', lineWidth);
+          }
+        }
+
+        // Render childlessness indicators
+        if (relationship.childlessReason === ChildlessReason.Infertility) {
+          const infertilityPaths = renderer.renderInfertilityIndicator(node1, node2, false);
+          for (const path of infertilityPaths) {
+            connectionGroup
+              .append('path')
+              .attr('d', path.d)
+              .attr('class', path.className)
+              .attr('fill', 'none')
+              .attr('stroke', '#333')
+              .attr('stroke-width', lineWidth);
+          }
+        } else if (relationship.childlessReason === ChildlessReason.ByChoice) {
+          const byChoicePaths = renderer.renderInfertilityIndicator(node1, node2, true);
+          for (const path of byChoicePaths) {
+            connectionGroup
+              .append('path')
+              .attr('d', path.d)
+              .attr('class', path.className)
+              .attr('fill', 'none')
+              .attr('stroke', '#333')
+              .attr('stroke-width', lineWidth);
+          }
+          // Add "(c)" text for by-choice
+          connectionGroup
+            .append('text')
+            .attr('x', (node1.x + node2.x) / 2)
+            .attr('y', node1.y + 20 + 30 + 12)
+            .attr('text-anchor', 'middle')
+            .attr('font-size', '10px')
+            .attr('font-family', 'sans-serif')
+            .text('(c)');
+        }
+
+        // Render parent-child connections if there are children
+        if (childNodes.length > 0) {
+          const parentChildPaths = renderer.renderParentChildConnection(
+            [node1, node2],
+            childNodes
+          );
+
+          for (const path of parentChildPaths) {
+            unit
+              .append('path')
+              .attr('d', path.d)
+              .attr('class', path.className)
+              .attr('fill', 'none')
+              .attr('stroke', '#333')
+              .attr('stroke-width', lineWidth)
+              .attr('stroke-dasharray', path.className === 'connection-adopted-in' ? '5,3' : null);
+          }
+        }
+      },
+    });
   }
 
   // Render parent-child connections for persons with parents but no explicit relationship
@@ -298,22 +473,31 @@ function renderConnections(
       const parentNode = fatherNode ?? motherNode;
       if (!parentNode) continue;
 
-      const paths = renderer.renderParentChildConnection(
-        [parentNode],
-        [childNode]
-      );
-
-      for (const path of paths) {
-        group
-          .append('path')
-          .attr('d', path.d)
-          .attr('class', path.className)
-          .attr('fill', 'none')
-          .attr('stroke', '#333')
-          .attr('stroke-width', 2);
-      }
+      items.push({
+        key: `parent-line:${person.id}`,
+        signature: JSON.stringify([position(parentNode), [...position(childNode), person.status]]),
+        draw: (unit) => {
+          const paths = renderer.renderParentChildConnection(
+            [parentNode],
+            [childNode]
+          );
+
+          for (const path of paths) {
+            unit
+              .append('path')
+              .attr('d', path.d)
+              .attr('class', path.className)
+              .attr('fill', 'none')
+              .attr('stroke', '#333')
+              .attr('stroke-width', lineWidth)
+              .attr('stroke-dasharray', path.className === 'connection-adopted-in' ? '5,3' : null);
+          }
+        },
+      });
     }
   }
+
+  joinKeyed(group, 'connection-unit', items, (unit, item) => item.draw(unit));
 }
 
 function renderPersons(
@@ -323,28 +507,58 @@ function renderPersons(
   symbolRegistry: SymbolRegistry,
   options: RenderOptions,
   selectedPersonId: string | null,
-  onPersonClick?: (personId: string) => void,
-  onPersonDoubleClick?: (personId: string) => void
+  highlightedPersonIds: string[],
+  riskLabels: Map<string, string>,
+  placeholders: Map<string, BranchPlaceholder>,
+  callbacks: RefObject<PedigreeCallbacks>,
+  drag?: d3.DragBehavior<SVGGElement, unknown, unknown>
 ) {
+  const traits = pedigree.traits ?? [];
+  const asOf = pedigree.metadata.asOfDate ?? todayAsPartialDate();
+  const threshold = pedigree.metadata.affectedThreshold;
+  const highlighted = new Set(highlightedPersonIds);
+
+  const items: (KeyedItem & { person: Person; node: LayoutNode })[] = [];
   for (const [personId, node] of layoutNodes) {
     const person = pedigree.persons.get(personId);
     if (!person) continue;
 
-    const personGroup = group
-      .append('g')
-      .attr('class', 'person')
+    items.push({
+      key: personId,
+      // Everything drawn but the position, which moves the group as it is
+      signature: JSON.stringify([
+        { ...person, x: undefined, y: undefined },
+        personId === selectedPersonId,
+        highlighted.has(personId),
+        riskLabels.get(personId) ?? null,
+        placeholders.get(personId) ?? null,
+      ]),
+      person,
+      node,
+    });
+  }
+
+  const personGroups = joinKeyed(group, 'person', items, (personGroup, { person }) => {
+    const personId = person.id;
+    personGroup
       .attr('data-id', personId)
-      .attr('transform', `translate(${node.x}, ${node.y})`)
       .attr('cursor', 'pointer')
       .on('click', (event) => {
         event.stopPropagation();
-        onPersonClick?.(personId);
+        callbacks.current.onPersonClick?.(personId);
       })
       .on('dblclick', (event) => {
         event.stopPropagation();
-        onPersonDoubleClick?.(personId);
+        callbacks.current.onPersonDoubleClick?.(personId);
       });
 
+    // Collapsed branch: dashed diamond with the number of hidden persons
+    const placeholder = placeholders.get(personId);
+    if (placeholder) {
+      renderPlaceholder(personGroup, placeholder, options.symbolSize);
+      return;
+    }
+
     // Selection highlight
     if (personId === selectedPersonId) {
       const highlightSize = options.symbolSize / 2 + 5;
@@ -361,13 +575,27 @@ function renderPersons(
         .attr('stroke-dasharray', '5,3');
     }
 
-    // Main symbol
-    const symbolPath = symbolRegistry.getSymbolPath(person.sex);
-    const phenotype = person.phenotypes[0] ?? Phenotype.Unknown;
+    // Analysis highlight
+    if (highlighted.has(personId)) {
+      personGroup
+        .append('circle')
+        .attr('class', 'analysis-highlight')
+        .attr('r', options.symbolSize / 2 + 10)
+        .attr('fill', 'none')
+        .attr('stroke', '#ef6c00')
+        .attr('stroke-width', 3);
+    }
+
+    // Main symbol (a small triangle for a miscarriage)
+    const { status } = person;
+    const symbolPath = status.isMiscarriage
+      ? symbolRegistry.getMiscarriageTrianglePath()
+      : symbolRegistry.getSymbolPath(person.sex);
+    const phenotype = traitStatus(person, 0, threshold);
 
-    // Determine fill based on phenotype
+    // Determine fill based on phenotype (traits fill their own sections)
     let fillColor = '#fff';
-    if (phenotype === Phenotype.Affected) {
+    if (phenotype === Phenotype.Affected && traits.length === 0) {
       fillColor = '#333';
     }
 
@@ -377,10 +605,15 @@ function renderPersons(
       .attr('class', 'person-symbol')
       .attr('fill', fillColor)
       .attr('stroke', '#333')
-      .attr('stroke-width', 2);
+      .attr('stroke-width', options.lineWidth);
+
+    // Trait catalogue: each trait fills its own section
+    if (traits.length > 0) {
+      renderTraitFills(personGroup, person, symbolPath, traits, threshold, symbolRegistry, `symbol-clip-${nextClipId++}`);
+    }
 
     // Carrier pattern (half-filled)
-    if (phenotype === Phenotype.Carrier) {
+    if (phenotype === Phenotype.Carrier && !status.isMiscarriage && traits.length === 0) {
       const carrierPath = symbolRegistry.getCarrierPath(person.sex);
       personGroup
         .append('path')
@@ -390,10 +623,10 @@ function renderPersons(
     }
 
     // Multiple phenotypes
-    if (person.phenotypes.length > 1) {
+    if (person.phenotypes.length > 1 && !status.isMiscarriage && traits.length === 0) {
       const quadrantPaths = symbolRegistry.getQuadrantPaths(person.sex, person.phenotypes.length);
-      person.phenotypes.forEach((pheno, index) => {
-        if (pheno === Phenotype.Affected && quadrantPaths[index]) {
+      person.phenotypes.forEach((_, index) => {
+        if (traitStatus(person, index, threshold) === Phenotype.Affected && quadrantPaths[index]) {
           personGroup
             .append('path')
             .attr('d', quadrantPaths[index])
@@ -403,15 +636,38 @@ function renderPersons(
       });
     }
 
-    // Deceased overlay
-    if (person.status.isDeceased) {
+    // Text inside the symbol: "P" for a pregnancy, otherwise the
+    // aggregate sibling count (number or "n")
+    const innerText = status.isMiscarriage ? null
+      : status.isPregnancy ? symbolRegistry.getPregnancyText()
+      : person.aggregateCount !== undefined ? symbolRegistry.getAggregateText(person.aggregateCount)
+      : null;
+    if (innerText) {
+      const { text, fontSize } = innerText;
+      personGroup
+        .append('text')
+        .attr('class', status.isPregnancy ? 'person-pregnancy' : 'person-aggregate')
+        .attr('x', 0)
+        .attr('y', 0)
+        .attr('text-anchor', 'middle')
+        .attr('dominant-baseline', 'central')
+        .attr('font-size', `${fontSize}px`)
+        .attr('font-family', 'sans-serif')
+        .attr('font-weight', 'bold')
+        .attr('fill', isFilledDark(person, traits, threshold) ? '#fff' : '#333')
+        .attr('pointer-events', 'none')
+        .text(text);
+    }
+
+    // Deceased overlay (a stillbirth is drawn as deceased too)
+    if ((status.isDeceased || status.isStillbirth) && !status.isMiscarriage) {
       const deceasedPath = symbolRegistry.getDeceasedPath();
       personGroup
         .append('path')
         .attr('d', deceasedPath)
         .attr('class', 'person-deceased')
         .attr('stroke', '#333')
-        .attr('stroke-width', 2)
+        .attr('stroke-width', options.lineWidth)
         .attr('fill', 'none');
     }
 
@@ -423,36 +679,79 @@ function renderPersons(
         .attr('d', probandPath)
         .attr('class', 'person-proband')
         .attr('stroke', '#333')
-        .attr('stroke-width', 2)
+        .attr('stroke-width', options.lineWidth)
         .attr('fill', 'none');
     }
 
-    // Adopted brackets
-    if (person.status.isAdopted || person.status.isAdoptedIn) {
+    // Adopted brackets; adopted in and out differ by the line to the
+    // parents (dashed to adoptive parents, see ConnectionRenderer)
+    if (status.isAdopted || status.isAdoptedIn || status.isAdoptedOut) {
       const [leftBracket, rightBracket] = symbolRegistry.getAdoptionBracketPaths();
       personGroup
         .append('path')
         .attr('d', leftBracket)
         .attr('class', 'person-adopted')
         .attr('stroke', '#333')
-        .attr('stroke-width', 2)
+        .attr('stroke-width', options.lineWidth)
         .attr('fill', 'none');
       personGroup
         .append('path')
         .attr('d', rightBracket)
         .attr('class', 'person-adopted')
         .attr('stroke', '#333')
-        .attr('stroke-width', 2)
+        .attr('stroke-width', options.lineWidth)
+        .attr('fill', 'none');
+    }
+
+    // Infertility (line with a double bar below the symbol)
+    if (status.isInfertile) {
+      personGroup
+        .append('path')
+        .attr('d', symbolRegistry.getInfertilityPath())
+        .attr('class', 'person-infertile')
+        .attr('stroke', '#333')
+        .attr('stroke-width', options.lineWidth)
         .attr('fill', 'none');
     }
 
+    // NSGC individual number ("II-3") at the lower left of the symbol
+    if (options.showIndividualNumbers && person.generationNumber) {
+      personGroup
+        .append('text')
+        .attr('class', 'person-number')
+        .attr('x', -options.symbolSize / 2 - 4)
+        .attr('y', options.symbolSize / 2)
+        .attr('text-anchor', 'end')
+        .attr('font-size', '11px')
+        .attr('font-family', 'serif')
+        .attr('font-weight', 'bold')
+        .attr('fill', '#333')
+        .text(person.generationNumber);
+    }
+
+    // Pinned position: small dot at the upper right
+    if (options.showPins && person.pin) {
+      personGroup
+        .append('circle')
+        .attr('class', 'person-pin')
+        .attr('cx', options.symbolSize / 2 + 3)
+        .attr('cy', -options.symbolSize / 2 - 3)
+        .attr('r', 3)
+        .attr('fill', '#607d8b')
+        .append('title')
+        .text('Pinned');
+    }
+
+    // Labels sit below the symbol and anything drawn under it
+    const labelY = options.symbolSize / 2 + (status.isInfertile ? symbolRegistry.getInfertilityDepth() : 0);
+
     // Label line 1 (positioned just below the symbol, above connection lines)
     if (options.showLabels && person.metadata.label) {
       personGroup
         .append('text')
         .attr('class', 'person-label')
         .attr('x', 0)
-        .attr('y', options.symbolSize / 2 + 15)
+        .attr('y', labelY + 15)
         .attr('text-anchor', 'middle')
         .attr('font-size', '12px')
         .attr('font-family', 'sans-serif')
@@ -465,7 +764,7 @@ function renderPersons(
         .append('text')
         .attr('class', 'person-id')
         .attr('x', 0)
-        .attr('y', options.symbolSize / 2 + 15)
+        .attr('y', labelY + 15)
         .attr('text-anchor', 'middle')
         .attr('font-size', '11px')
         .attr('font-family', 'sans-serif')
@@ -474,65 +773,381 @@ function renderPersons(
     }
 
     // Label line 2 (subtitle/additional info)
-    const line2Text = buildSecondLineText(person);
+    const line2Text = buildSecondLineText(person, traits, asOf);
     if (options.showLabels && line2Text) {
       personGroup
         .append('text')
         .attr('class', 'person-label-line2')
         .attr('x', 0)
-        .attr('y', options.symbolSize / 2 + 30)
+        .attr('y', labelY + 30)
         .attr('text-anchor', 'middle')
         .attr('font-size', '10px')
         .attr('font-family', 'sans-serif')
         .attr('fill', '#666')
         .text(line2Text);
     }
+
+    // Evidence lines (E+ / E- / E VUS), one per genetic test
+    const tests = person.geneticTests ?? [];
+    const evidenceY = labelY + (line2Text ? 45 : 30);
+    if (options.showLabels) {
+      tests.forEach((test, index) => {
+        personGroup
+          .append('text')
+          .attr('class', 'person-evidence')
+          .attr('x', 0)
+          .attr('y', evidenceY + index * 13)
+          .attr('text-anchor', 'middle')
+          .attr('font-size', '10px')
+          .attr('font-family', 'sans-serif')
+          .attr('fill', '#333')
+          .text(buildEvidenceText(test));
+      });
+    }
+
+    // Calculated risk, below the evidence lines
+    const riskLabel = riskLabels.get(personId);
+    if (riskLabel) {
+      personGroup
+        .append('text')
+        .attr('class', 'person-risk')
+        .attr('x', 0)
+        .attr('y', evidenceY + (options.showLabels ? tests.length * 13 : 0))
+        .attr('text-anchor', 'middle')
+        .attr('font-size', '10px')
+        .attr('font-family', 'sans-serif')
+        .attr('fill', '#1565C0')
+        .text(riskLabel);
+    }
+
+    // Documented evaluation (asterisk at the lower right)
+    if (status.isEvaluated || tests.length > 0) {
+      personGroup
+        .append('text')
+        .attr('class', 'person-evaluated')
+        .attr('x', options.symbolSize / 2 + 4)
+        .attr('y', options.symbolSize / 2 + 4)
+        .attr('font-size', '16px')
+        .attr('font-family', 'sans-serif')
+        .attr('font-weight', 'bold')
+        .attr('fill', '#333')
+        .text('*');
+    }
+  }, (personGroup) => {
+    if (drag) personGroup.call(drag);
+  });
+
+  // Moved persons are only translated
+  personGroups.each(function ({ node }) {
+    const transform = `translate(${node.x}, ${node.y})`;
+    if (this.getAttribute('transform') !== transform) {
+      this.setAttribute('transform', transform);
+    }
+  });
+}
+
+/**
+ * Build an NSGC evidence line for a genetic test, e.g. "E+ BRCA1 c.68_69delAG het"
+ */
+function buildEvidenceText(test: GeneticTest): string {
+  const marker = test.result === TestResult.Positive ? 'E+'
+    : test.result === TestResult.Negative ? 'E-'
+    : 'E VUS';
+  const zygosity = ZYGOSITY_ABBREVIATIONS[test.zygosity];
+
+  return [marker, test.gene, test.variant, test.result === TestResult.Negative ? '' : zygosity]
+    .filter(Boolean)
+    .join(' ');
+}
+
+/**
+ * Fill each trait's section of a person's symbol
+ * Affected sections get the trait's colour or pattern, carrier sections a
+ * light shade of it. Sections are clipped to the symbol outline, so the
+ * same quadrants and wedges work for every shape.
+ */
+function renderTraitFills(
+  personGroup: d3.Selection<SVGGElement, unknown, null, undefined>,
+  person: Person,
+  symbolPath: string,
+  traits: Trait[],
+  affectedThreshold: number | undefined,
+  symbolRegistry: SymbolRegistry,
+  clipId: string
+) {
+  const sections = traits.length === 1
+    ? [symbolPath]
+    : symbolRegistry.getQuadrantPaths(person.sex, traits.length);
+
+  personGroup
+    .append('clipPath')
+    .attr('id', clipId)
+    .append('path')
+    .attr('d', symbolPath);
+
+  const fills = personGroup
+    .append('g')
+    .attr('class', 'person-traits')
+    .attr('clip-path', `url(#${clipId})`);
+
+  traits.forEach((trait, index) => {
+    const status = traitStatus(person, index, affectedThreshold);
+    if (status !== Phenotype.Affected && status !== Phenotype.Carrier) return;
+
+    fills
+      .append('path')
+      .attr('d', sections[trait.slot] ?? symbolPath)
+      .attr('class', 'person-trait')
+      .attr('fill', traitFill(trait))
+      .attr('fill-opacity', status === Phenotype.Carrier ? CARRIER_OPACITY : 1);
+  });
+}
+
+/**
+ * Whether the symbol is mostly dark, so text inside it should be white
+ */
+function isFilledDark(person: Person, traits: Trait[], affectedThreshold: number | undefined): boolean {
+  const affected = traitStatus(person, 0, affectedThreshold) === Phenotype.Affected;
+  if (traits.length === 0) {
+    return affected;
+  }
+  return traits.length === 1 && traits[0].pattern === TraitPattern.Solid && affected;
+}
+
+/**
+ * Fill for a trait: its colour, or its pattern from renderTraitPatterns
+ */
+function traitFill(trait: Trait): string {
+  return trait.pattern === TraitPattern.Solid ? trait.color : `url(#trait-pattern-${trait.id})`;
+}
+
+/**
+ * Define the hatch/dot patterns used by traitFill
+ */
+function renderTraitPatterns(
+  group: d3.Selection<SVGGElement, unknown, null, undefined>,
+  traits: Trait[]
+) {
+  const defs = group.append('defs');
+
+  for (const trait of traits) {
+    if (trait.pattern === TraitPattern.Solid) continue;
+
+    const pattern = defs
+      .append('pattern')
+      .attr('id', `trait-pattern-${trait.id}`)
+      .attr('patternUnits', 'userSpaceOnUse')
+      .attr('width', 6)
+      .attr('height', 6);
+
+    if (trait.pattern === TraitPattern.Dots) {
+      pattern
+        .append('circle')
+        .attr('cx', 3)
+        .attr('cy', 3)
+        .attr('r', 1.5)
+        .attr('fill', trait.color);
+      continue;
+    }
+
+    pattern.attr('patternTransform', 'rotate(45)');
+    pattern
+      .append('path')
+      .attr('d', trait.pattern === TraitPattern.CrossHatch ? 'M 0 0 L 0 6 M 0 0 L 6 0' : 'M 0 0 L 0 6')
+      .attr('stroke', trait.color)
+      .attr('stroke-width', 2);
   }
 }
 
+/**
+ * Node standing for a collapsed branch: dashed diamond with "+n"
+ */
+function renderPlaceholder(
+  group: d3.Selection<SVGGElement, unknown, null, undefined>,
+  placeholder: BranchPlaceholder,
+  symbolSize: number
+) {
+  const half = symbolSize / 2;
+  group.attr('class', 'person person-placeholder');
+
+  group
+    .append('title')
+    .text(`${placeholder.hiddenCount} hidden (${placeholder.branch.direction}) - click to expand`);
+
+  group
+    .append('path')
+    .attr('d', `M 0 ${-half} L ${half} 0 L 0 ${half} L ${-half} 0 Z`)
+    .attr('fill', '#f5f5f5')
+    .attr('stroke', '#888')
+    .attr('stroke-width', 1.5)
+    .attr('stroke-dasharray', '4,3');
+
+  group
+    .append('text')
+    .attr('text-anchor', 'middle')
+    .attr('dominant-baseline', 'central')
+    .attr('font-size', '12px')
+    .attr('fill', '#555')
+    .text(`+${placeholder.hiddenCount}`);
+}
+
+/**
+ * Legend for the trait catalogue, below the chart
+ * Drawn into the chart itself so SVG/PNG exports include it
+ */
+function renderLegend(
+  group: d3.Selection<SVGGElement, unknown, null, undefined>,
+  pedigree: Pedigree,
+  layoutNodes: Map<string, LayoutNode>,
+  symbolSize: number
+) {
+  const traits = pedigree.traits ?? [];
+  if (traits.length === 0 || layoutNodes.size === 0) return;
+
+  let minX = Infinity;
+  let maxY = -Infinity;
+  for (const [, node] of layoutNodes) {
+    minX = Math.min(minX, node.x);
+    maxY = Math.max(maxY, node.y);
+  }
+
+  const swatchSize = 16;
+  const rowHeight = 24;
+  const swatches = new SymbolRegistry(swatchSize);
+  const swatchPath = swatches.getSymbolPath(Sex.Male);
+  const sections = traits.length === 1
+    ? [swatchPath]
+    : swatches.getQuadrantPaths(Sex.Male, traits.length);
+
+  const legend = group
+    .append('g')
+    .attr('class', 'pedigree-legend')
+    .attr('transform', `translate(${minX - symbolSize / 2}, ${maxY + symbolSize / 2 + 70})`);
+
+  legend
+    .append('clipPath')
+    .attr('id', 'legend-swatch-clip')
+    .append('path')
+    .attr('d', swatchPath);
+
+  legend
+    .append('text')
+    .attr('x', 0)
+    .attr('y', 0)
+    .attr('font-size', '12px')
+    .attr('font-family', 'sans-serif')
+    .attr('font-weight', 'bold')
+    .text('Legend');
+
+  const hasCarriers = Array.from(pedigree.persons.values())
+    .some(person => traits.some((_, index) => traitStatus(person, index, pedigree.metadata.affectedThreshold) === Phenotype.Carrier));
+
+  const rows = traits.map(trait => ({ trait, label: trait.name, opacity: 1 }));
+  if (hasCarriers) {
+    rows.push({ trait: traits[0], label: 'Carrier (light shade)', opacity: CARRIER_OPACITY });
+  }
+
+  rows.forEach(({ trait, label, opacity }, index) => {
+    const row = legend
+      .append('g')
+      .attr('transform', `translate(${swatchSize / 2}, ${(index + 1) * rowHeight})`);
+
+    row
+      .append('path')
+      .attr('d', swatchPath)
+      .attr('fill', '#fff')
+      .attr('stroke', '#333')
+      .attr('stroke-width', 1.5);
+
+    row
+      .append('path')
+      .attr('d', sections[trait.slot] ?? swatchPath)
+      .attr('clip-path', 'url(#legend-swatch-clip)')
+      .attr('fill', traitFill(trait))
+      .attr('fill-opacity', opacity);
+
+    row
+      .append('text')
+      .attr('x', swatchSize)
+      .attr('y', 0)
+      .attr('dominant-baseline', 'central')
+      .attr('font-size', '12px')
+      .attr('font-family', 'sans-serif')
+      .text(label);
+  });
+}
+
 /**
  * Build the second line text from person metadata
+ * Ages of living persons are counted up to the pedigree's as-of date.
  */
-function buildSecondLineText(person: Person): string {
+function buildSecondLineText(person: Person, traits: Trait[], asOf: PartialDate): string {
   const parts: string[] = [];
   const meta = person.metadata;
 
-  // Custom text first
+  // Pregnancy outcome and gestational age, e.g. "SB 28 wk"
+  const outcome = [
+    person.status.isStillbirth ? 'SB' : person.status.isMiscarriage ? 'SAB' : '',
+    meta.gestationalAge !== undefined ? `${meta.gestationalAge} wk` : '',
+  ].filter(Boolean).join(' ');
+  if (outcome) {
+    parts.push(outcome);
+  }
+
+  // Custom text
   if (meta.label2) {
     parts.push(meta.label2);
   }
 
-  // Year/age info
-  if (meta.showBirthYear && meta.birthYear) {
-    parts.push(`b.${meta.birthYear}`);
+  // Dates and ages (NSGC: "b. 1950", "d. 67y", "42y")
+  const age = personAge(person, asOf);
+  const isDeceased = person.status.isDeceased || meta.deathDate !== undefined;
+  if (meta.showBirthYear && meta.birthDate) {
+    parts.push(`b. ${formatPartialDate(meta.birthDate)}`);
   }
-  if (meta.showDeathYear && meta.deathYear) {
-    parts.push(`d.${meta.deathYear}`);
-  }
-  if (meta.showAge && meta.age !== undefined) {
-    parts.push(`${meta.age}y`);
+  if (isDeceased && (meta.showDeathYear || meta.showAge)) {
+    // Age at death when known, otherwise the death date
+    const death = age
+      ? `d. ${formatAge(age)}`
+      : meta.showDeathYear && meta.deathDate ? `d. ${formatPartialDate(meta.deathDate)}` : '';
+    if (death) {
+      parts.push(meta.showDeathYear && meta.causeOfDeath ? `${death} ${meta.causeOfDeath}` : death);
+    }
+  } else if (meta.showAge && age) {
+    parts.push(formatAge(age));
   }
 
+  // Age at diagnosis per trait, e.g. "BC dx 45y"
+  person.diagnosisAges?.forEach((diagnosisAge, index) => {
+    if (diagnosisAge === null || diagnosisAge === undefined) return;
+    const name = traits[index]?.name;
+    parts.push(`${name ? `${name} ` : ''}dx ${diagnosisAge}y`);
+  });
+
   return parts.join(' ');
 }
 
 function renderGenerationLabels(
   group: d3.Selection<SVGGElement, unknown, null, undefined>,
-  layoutNodes: Map<string, LayoutNode>
+  layoutNodes: Map<string, LayoutNode>,
+  orientation: RenderOptions['orientation']
 ) {
-  // Find unique generations and their Y positions
+  // Find unique generations and their Y positions (X in horizontal charts)
+  const horizontal = orientation === 'horizontal';
   const generations = new Map<number, number>();
 
   for (const [, node] of layoutNodes) {
     if (!generations.has(node.generation)) {
-      generations.set(node.generation, node.y);
+      generations.set(node.generation, horizontal ? node.x : node.y);
     }
   }
 
-  // Find leftmost X position
+  // Find leftmost X position (topmost Y in horizontal charts)
   let minX = Infinity;
+  let minY = Infinity;
   for (const [, node] of layoutNodes) {
     minX = Math.min(minX, node.x);
+    minY = Math.min(minY, node.y);
   }
 
   // Render Roman numerals
@@ -542,39 +1157,17 @@ function renderGenerationLabels(
 
   const sortedGens = Array.from(generations.entries()).sort((a, b) => a[0] - b[0]);
 
-  sortedGens.forEach(([gen, y]) => {
+  sortedGens.forEach(([gen, position]) => {
     const romanNumeral = toRomanNumeral(gen + 1);
 
     labelsGroup
       .append('text')
-      .attr('x', minX - 60)
-      .attr('y', y + 5)
-      .attr('text-anchor', 'end')
+      .attr('x', horizontal ? position : minX - 60)
+      .attr('y', horizontal ? minY - 50 : position + 5)
+      .attr('text-anchor', horizontal ? 'middle' : 'end')
       .attr('font-size', '14px')
       .attr('font-family', 'serif')
       .attr('font-weight', 'bold')
       .text(romanNumeral);
   });
 }
-
-function toRomanNumeral(num: number): string {
-  const romanNumerals: [number, string][] = [
-    [10, 'X'],
-    [9, 'IX'],
-    [5, 'V'],
-    [4, 'IV'],
-    [1, 'I'],
-  ];
-
-  let result = '';
-  let remaining = num;
-
-  for (const [value, numeral] of romanNumerals) {
-    while (remaining >= value) {
-      result += numeral;
-      remaining -= value;
-    }
-  }
-
-  return result;
-}
@@ -1,16 +1,16 @@
 /**
  * useDragBehavior Hook
  *
- * Enables drag functionality for person nodes in the pedigree
+ * Enables drag functionality for person nodes in the pedigree. The drag
+ * behaviour is created once and bound by useD3Pedigree to each person as
+ * it is first drawn; it reads the latest options through refs, so it is
+ * never rebound when the layout or the callbacks change.
  */
 
-import { useEffect, useCallback, useRef } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import * as d3 from 'd3';
-import type { LayoutNode } from '@/core/model/types';
 
 interface UseDragBehaviorProps {
-  svgRef: React.RefObject<SVGSVGElement | null>;
-  layoutNodes: Map<string, LayoutNode>;
   isEnabled: boolean;
   onDragStart?: (personId: string) => void;
   onDrag?: (personId: string, x: number, y: number) => void;
@@ -18,108 +18,73 @@ interface UseDragBehaviorProps {
   onClick?: (personId: string) => void;
 }
 
-export function useDragBehavior({
-  svgRef,
-  layoutNodes,
-  isEnabled,
-  onDragStart,
-  onDrag,
-  onDragEnd,
-  onClick,
-}: UseDragBehaviorProps) {
-  const draggedNode = useRef<string | null>(null);
-  const startPos = useRef<{ x: number; y: number }>({ x: 0, y: 0 });
-  const hasDragged = useRef<boolean>(false);
-
+export function useDragBehavior(props: UseDragBehaviorProps) {
+  const latest = useRef(props);
   useEffect(() => {
-    if (!svgRef.current || !isEnabled) return;
+    latest.current = props;
+  });
 
-    const svg = d3.select(svgRef.current);
-    const persons = svg.selectAll<SVGGElement, unknown>('.person');
+  const [drag] = useState(() => {
+    let startPos = { x: 0, y: 0 };
+    let hasDragged = false;
 
-    const drag = d3.drag<SVGGElement, unknown>()
+    return d3.drag<SVGGElement, unknown>()
+      // Disabled: events pass through to the person's own click handler
+      .filter((event) => latest.current.isEnabled && !event.ctrlKey && !event.button)
       .clickDistance(4) // Distinguish click from drag - must move at least 4px to be a drag
-      .on('start', function (event) {
+      .on('start', function () {
         const personId = d3.select(this).attr('data-id');
         if (!personId) return;
 
-        draggedNode.current = personId;
-        hasDragged.current = false;
+        hasDragged = false;
 
         // Get current position from the transform attribute
         const currentTransform = d3.select(this).attr('transform');
         const match = currentTransform?.match(/translate\(([^,]+),\s*([^)]+)\)/);
         if (match) {
-          startPos.current = { x: parseFloat(match[1]), y: parseFloat(match[2]) };
+          startPos = { x: parseFloat(match[1]), y: parseFloat(match[2]) };
         }
 
         d3.select(this).classed('dragging', true);
-        onDragStart?.(personId);
+        latest.current.onDragStart?.(personId);
       })
       .on('drag', function (event) {
         const personId = d3.select(this).attr('data-id');
         if (!personId) return;
 
-        hasDragged.current = true;
+        hasDragged = true;
 
         // Get the zoom transform to account for scale
-        const transform = d3.zoomTransform(svg.node()!);
+        const transform = d3.zoomTransform(this.ownerSVGElement ?? this);
 
         // Calculate new position: start position + delta adjusted for zoom scale
-        const newX = startPos.current.x + event.dx / transform.k;
-        const newY = startPos.current.y + event.dy / transform.k;
+        const newX = startPos.x + event.dx / transform.k;
+        const newY = startPos.y + event.dy / transform.k;
 
         // Update start position for next drag event
-        startPos.current = { x: newX, y: newY };
+        startPos = { x: newX, y: newY };
 
         // Update visual position
         d3.select(this).attr('transform', `translate(${newX}, ${newY})`);
 
-        onDrag?.(personId, newX, newY);
+        latest.current.onDrag?.(personId, newX, newY);
       })
-      .on('end', function (event) {
+      .on('end', function () {
         const personId = d3.select(this).attr('data-id');
         if (!personId) return;
 
         d3.select(this).classed('dragging', false);
 
         // If we didn't actually drag, treat it as a click
-        if (!hasDragged.current) {
-          onClick?.(personId);
+        if (!hasDragged) {
+          latest.current.onClick?.(personId);
         } else {
-          const finalX = startPos.current.x;
-          const finalY = startPos.current.y;
-          onDragEnd?.(personId, finalX, finalY);
+          latest.current.onDragEnd?.(personId, startPos.x, startPos.y);
         }
 
-        draggedNode.current = null;
-        hasDragged.current = false;
+        hasDragged = false;
       });
+  });
 
-    persons.call(drag);
-
-    return () => {
-      persons.on('.drag', null);
-    };
-  }, [svgRef, layoutNodes, isEnabled, onDragStart, onDrag, onDragEnd, onClick]);
-
-  const enableDrag = useCallback(() => {
-    if (!svgRef.current) return;
-    d3.select(svgRef.current)
-      .selectAll('.person')
-      .style('cursor', 'grab');
-  }, [svgRef]);
-
-  const disableDrag = useCallback(() => {
-    if (!svgRef.current) return;
-    d3.select(svgRef.current)
-      .selectAll('.person')
-      .style('cursor', 'pointer');
-  }, [svgRef]);
-
-  return {
-    enableDrag,
-    disableDrag,
-    isDragging: draggedNode.current !== null,
-  };
+  return { drag };
 }
@@ -4,28 +4,121 @@
  * Panel for editing properties of the selected person or relationship
  */
 
+import { useState } from 'react';
 import { usePedigreeStore } from '@/store/pedigreeStore';
-import { Sex, Phenotype } from '@/core/model/types';
+import {
+  Sex,
+  Phenotype,
+  BranchDirection,
+  LayoutEngineId,
+  TestResult,
+  Zygosity,
+  createGeneticTest,
+  type AggregateCount,
+  type GeneticTest,
+  type Person,
+} from '@/core/model/types';
+import { traitStatus } from '@/core/model/traitCatalogue';
+import { isBranchCollapsed } from '@/core/model/branchView';
+import { datedAge, formatAge, formatPartialDate, todayAsPartialDate } from '@/core/model/dates';
+import { kinshipCalculator, formatCoefficient } from '@/core/analysis/KinshipCalculator';
+import { SiblingsModal } from '@/components/SiblingsModal/SiblingsModal';
+import { TraitPanel } from '@/components/TraitPanel/TraitPanel';
+import { ChartSettingsPanel } from '@/components/ChartSettingsPanel/ChartSettingsPanel';
+import { DateInput } from '@/components/DateInput/DateInput';
 import styles from './PropertyPanel.module.css';
 
+const LAYOUT_ENGINES: { engine: LayoutEngineId; label: string; root?: string }[] = [
+  { engine: LayoutEngineId.Generations, label: 'Generations' },
+  { engine: LayoutEngineId.Horizontal, label: 'Generations, left to right' },
+  { engine: LayoutEngineId.Descendants, label: 'Descendant chart', root: 'Founder' },
+  { engine: LayoutEngineId.Ancestors, label: 'Ancestor chart', root: 'Proband' },
+];
+
+const BRANCH_BUTTONS: { direction: BranchDirection; label: string }[] = [
+  { direction: BranchDirection.Descendants, label: 'Hide descendants' },
+  { direction: BranchDirection.Ancestors, label: 'Hide ancestors' },
+  { direction: BranchDirection.Collateral, label: 'Hide collateral lines' },
+];
+
 export function PropertyPanel() {
   const {
     pedigree,
     selectedPersonId,
     updatePerson,
+    setParents,
+    mergePersons,
+    addSiblings,
+    collapseSiblings,
+    setAsOfDate,
+    setAffectedThreshold,
+    toggleBranch,
+    setLayoutEngine,
   } = usePedigreeStore();
+  const [showSiblingsModal, setShowSiblingsModal] = useState(false);
+  const [relativeId, setRelativeId] = useState('');
 
   const selectedPerson = selectedPersonId && pedigree
     ? pedigree.persons.get(selectedPersonId)
     : null;
 
   if (!selectedPerson) {
+    const selection = pedigree?.layoutSelection;
+    const chart = LAYOUT_ENGINES.find(({ engine }) => engine === selection?.engine) ?? LAYOUT_ENGINES[0];
     return (
       <div className={styles.panel}>
         <div className={styles.header}>Properties</div>
         <div className={styles.empty}>
           Select a person to edit properties
         </div>
+        {pedigree && (
+          <div className={styles.section}>
+            <div className={styles.sectionTitle}>Dates</div>
+            <div className={styles.inlineGroup}>
+              <span className={styles.inlineLabel}>Ages as of</span>
+              <DateInput
+                className={styles.dateInput}
+                value={pedigree.metadata.asOfDate}
+                onChange={setAsOfDate}
+                placeholder="Today"
+              />
+            </div>
+          </div>
+        )}
+        {pedigree && (
+          <div className={styles.section}>
+            <div className={styles.sectionTitle}>Layout</div>
+            <div className={styles.inlineGroup}>
+              <span className={styles.inlineLabel}>Chart</span>
+              <select
+                className={styles.select}
+                value={chart.engine}
+                onChange={(e) => setLayoutEngine(e.target.value as LayoutEngineId)}
+              >
+                {LAYOUT_ENGINES.map(({ engine, label }) => (
+                  <option key={engine} value={engine}>{label}</option>
+                ))}
+              </select>
+            </div>
+            {chart.root && (
+              <div className={styles.inlineGroup}>
+                <span className={styles.inlineLabel}>{chart.root}</span>
+                <select
+                  className={styles.select}
+                  value={selection?.rootId ?? ''}
+                  onChange={(e) => setLayoutEngine(chart.engine, e.target.value || undefined)}
+                >
+                  <option value="">Automatic</option>
+                  {Array.from(pedigree.persons.values()).map(p => (
+                    <option key={p.id} value={p.id}>{p.metadata.label || p.id}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
+        )}
+        <TraitPanel />
+        <ChartSettingsPanel />
       </div>
     );
   }
@@ -35,7 +128,47 @@ export function PropertyPanel() {
   };
 
   const handlePhenotypeChange = (phenotype: Phenotype) => {
-    updatePerson(selectedPerson.id, { phenotypes: [phenotype] });
+    // Only the first phenotype; any further ones are kept
+    updatePerson(selectedPerson.id, { phenotypes: [phenotype, ...selectedPerson.phenotypes.slice(1)] });
+  };
+
+  const traits = pedigree?.traits ?? [];
+  const threshold = pedigree?.metadata.affectedThreshold;
+  const phenotype = traitStatus(selectedPerson, 0, threshold);
+  // The first trait then follows the value, not the buttons
+  const isThresholded = selectedPerson.metadata.quantitativeValue !== undefined && threshold !== undefined;
+  const thresholdedTitle = isThresholded ? 'Set by the trait value and the affected threshold' : undefined;
+
+  const handleTraitStatusChange = (index: number, phenotype: Phenotype) => {
+    const phenotypes = traits.map((_, i) => selectedPerson.phenotypes[i] ?? Phenotype.Unknown);
+    phenotypes[index] = phenotype;
+    updatePerson(selectedPerson.id, { phenotypes });
+  };
+
+  // Diagnosis ages line up with the phenotypes; trailing blanks are dropped
+  const handleDiagnosisAgeChange = (index: number, age: number | null) => {
+    const diagnosisAges = [...(selectedPerson.diagnosisAges ?? [])];
+    while (diagnosisAges.length <= index) diagnosisAges.push(null);
+    diagnosisAges[index] = age;
+    while (diagnosisAges.length > 0 && diagnosisAges[diagnosisAges.length - 1] === null) diagnosisAges.pop();
+    updatePerson(selectedPerson.id, { diagnosisAges: diagnosisAges.length > 0 ? diagnosisAges : undefined });
+  };
+
+  const tests = selectedPerson.geneticTests ?? [];
+
+  const handleTestChange = (testId: string, updates: Partial<GeneticTest>) => {
+    updatePerson(selectedPerson.id, {
+      geneticTests: tests.map(test => (test.id === testId ? { ...test, ...updates } : test)),
+    });
+  };
+
+  const handleAddTest = () => {
+    updatePerson(selectedPerson.id, { geneticTests: [...tests, createGeneticTest()] });
+  };
+
+  const handleRemoveTest = (testId: string) => {
+    const remaining = tests.filter(test => test.id !== testId);
+    updatePerson(selectedPerson.id, { geneticTests: remaining.length > 0 ? remaining : undefined });
   };
 
   const handleStatusChange = (key: keyof typeof selectedPerson.status, value: boolean) => {
@@ -62,11 +195,82 @@ export function PropertyPanel() {
     });
   };
 
+  const asOf = pedigree?.metadata.asOfDate ?? todayAsPartialDate();
+  const computedAge = datedAge(selectedPerson, asOf);
+
+  const otherPersons = Array.from(pedigree?.persons.values() ?? [])
+    .filter(p => p.id !== selectedPerson.id);
+  const personName = (id: string) => pedigree?.persons.get(id)?.metadata.label || id;
+
+  const inbreeding = pedigree ? kinshipCalculator.inbreeding(pedigree, selectedPerson.id) : 0;
+  const kinship = pedigree && relativeId && relativeId !== selectedPerson.id && pedigree.persons.has(relativeId)
+    ? kinshipCalculator.relate(pedigree, selectedPerson.id, relativeId)
+    : null;
+
+  const handleParentChange = (role: 'father' | 'mother', parentId: string) => {
+    const fatherId = role === 'father' ? (parentId || null) : selectedPerson.fatherId;
+    const motherId = role === 'mother' ? (parentId || null) : selectedPerson.motherId;
+    if (!setParents(selectedPerson.id, fatherId, motherId)) {
+      alert(`Cannot set ${personName(parentId)} as ${role}: it would make a person their own ancestor`);
+    }
+  };
+
+  const handleMerge = (duplicateId: string) => {
+    if (!duplicateId) return;
+    const confirmed = confirm(
+      `Merge ${personName(duplicateId)} into ${personName(selectedPerson.id)}? ` +
+      `${personName(duplicateId)} will be removed and their family links moved over.`
+    );
+    if (confirmed && !mergePersons(selectedPerson.id, duplicateId)) {
+      alert('These persons cannot be merged: one is an ancestor of the other');
+    }
+  };
+
+  const handleAggregateChange = (value: string) => {
+    const trimmed = value.trim().toLowerCase();
+    let aggregateCount: AggregateCount | undefined;
+    if (trimmed === 'n') {
+      aggregateCount = 'n';
+    } else if (trimmed !== '') {
+      const count = parseInt(trimmed);
+      if (!Number.isInteger(count) || count < 1) return;
+      aggregateCount = count;
+    }
+    updatePerson(selectedPerson.id, { aggregateCount });
+  };
+
+  const hasParents = selectedPerson.fatherId !== null || selectedPerson.motherId !== null;
+
+  // Unaffected, childless, unpartnered siblings of the same sex can be
+  // folded into one aggregate symbol
+  const isCollapsible = (person: Person) =>
+    person.sex === selectedPerson.sex &&
+    person.fatherId === selectedPerson.fatherId &&
+    person.motherId === selectedPerson.motherId &&
+    person.phenotypes.every(p => p === Phenotype.Unaffected) &&
+    !person.status.isProband &&
+    person.spouseIds.length === 0 &&
+    person.childrenIds.length === 0;
+  const collapsibleSiblings = hasParents && isCollapsible(selectedPerson)
+    ? otherPersons.filter(isCollapsible)
+    : [];
+
+  const handleAddSiblings = (siblings: Person[]) => {
+    setShowSiblingsModal(false);
+    addSiblings(selectedPerson.id, siblings);
+  };
+
+  const handleCollapseSiblings = () => {
+    collapseSiblings(selectedPerson.id, collapsibleSiblings.map(p => p.id));
+  };
+
   return (
     <div className={styles.panel} data-tour="property-panel">
       <div className={styles.header}>
         Properties
-        <span className={styles.personId}>{selectedPerson.id}</span>
+        <span className={styles.personId}>
+          {selectedPerson.generationNumber ? `${selectedPerson.generationNumber} · ` : ''}{selectedPerson.id}
+        </span>
       </div>
 
       <div className={styles.section}>
@@ -102,12 +306,10 @@ export function PropertyPanel() {
             />
             Birth
           </label>
-          <input
-            type="number"
-            className={styles.smallInput}
-            value={selectedPerson.metadata.birthYear ?? ''}
-            onChange={(e) => handleMetadataChange('birthYear', e.target.value ? parseInt(e.target.value) : undefined)}
-            placeholder="Year"
+          <DateInput
+            className={styles.dateInput}
+            value={selectedPerson.metadata.birthDate}
+            onChange={(date) => handleMetadataChange('birthDate', date)}
           />
         </div>
         <div className={styles.inlineGroup}>
@@ -119,14 +321,24 @@ export function PropertyPanel() {
             />
             Death
           </label>
-          <input
-            type="number"
-            className={styles.smallInput}
-            value={selectedPerson.metadata.deathYear ?? ''}
-            onChange={(e) => handleMetadataChange('deathYear', e.target.value ? parseInt(e.target.value) : undefined)}
-            placeholder="Year"
+          <DateInput
+            className={styles.dateInput}
+            value={selectedPerson.metadata.deathDate}
+            onChange={(date) => handleMetadataChange('deathDate', date)}
           />
         </div>
+        {(selectedPerson.status.isDeceased || selectedPerson.metadata.deathDate) && (
+          <div className={styles.inlineGroup}>
+            <span className={styles.inlineLabel}>Cause</span>
+            <input
+              type="text"
+              className={styles.input}
+              value={selectedPerson.metadata.causeOfDeath ?? ''}
+              onChange={(e) => handleMetadataChange('causeOfDeath', e.target.value || undefined)}
+              placeholder="Cause of death"
+            />
+          </div>
+        )}
         <div className={styles.inlineGroup}>
           <label className={styles.inlineLabel}>
             <input
@@ -139,11 +351,18 @@ export function PropertyPanel() {
           <input
             type="number"
             className={styles.smallInput}
-            value={selectedPerson.metadata.age ?? ''}
+            value={computedAge ? '' : selectedPerson.metadata.age ?? ''}
             onChange={(e) => handleMetadataChange('age', e.target.value ? parseInt(e.target.value) : undefined)}
-            placeholder="Age"
+            placeholder={computedAge ? formatAge(computedAge) : 'Age'}
+            disabled={computedAge !== null}
           />
         </div>
+        {computedAge && (
+          <div className={styles.infoText}>
+            {selectedPerson.status.isDeceased || selectedPerson.metadata.deathDate ? 'Age at death' : 'Age'}: {formatAge(computedAge)}
+            {!selectedPerson.metadata.deathDate && ` (as of ${formatPartialDate(asOf)})`}
+          </div>
+        )}
       </div>
 
       <div className={styles.section}>
@@ -172,32 +391,101 @@ export function PropertyPanel() {
 
       <div className={styles.section}>
         <div className={styles.sectionTitle}>Phenotype</div>
-        <div className={styles.buttonGroup}>
+        {traits.map((trait, index) => (
+          <div key={trait.id} className={styles.inlineGroup}>
+            <span className={styles.inlineLabel}>{trait.name || `Trait ${index + 1}`}</span>
+            <select
+              className={styles.select}
+              value={traitStatus(selectedPerson, index, threshold)}
+              onChange={(e) => handleTraitStatusChange(index, e.target.value as Phenotype)}
+              disabled={index === 0 && isThresholded}
+              title={index === 0 ? thresholdedTitle : undefined}
+            >
+              <option value={Phenotype.Unaffected}>Unaffected</option>
+              <option value={Phenotype.Affected}>Affected</option>
+              <option value={Phenotype.Carrier}>Carrier</option>
+              <option value={Phenotype.Unknown}>Unknown</option>
+            </select>
+            <input
+              type="number"
+              className={styles.smallInput}
+              value={selectedPerson.diagnosisAges?.[index] ?? ''}
+              onChange={(e) => handleDiagnosisAgeChange(index, e.target.value ? parseInt(e.target.value) : null)}
+              placeholder="Dx age"
+              title="Age at diagnosis"
+            />
+          </div>
+        ))}
+        {traits.length === 0 && <div className={styles.buttonGroup}>
           <button
-            className={`${styles.optionButton} ${selectedPerson.phenotypes[0] === Phenotype.Unaffected ? styles.active : ''}`}
+            className={`${styles.optionButton} ${phenotype === Phenotype.Unaffected ? styles.active : ''}`}
             onClick={() => handlePhenotypeChange(Phenotype.Unaffected)}
+            disabled={isThresholded}
+            title={thresholdedTitle}
           >
             Unaffected
           </button>
           <button
-            className={`${styles.optionButton} ${selectedPerson.phenotypes[0] === Phenotype.Affected ? styles.active : ''}`}
+            className={`${styles.optionButton} ${phenotype === Phenotype.Affected ? styles.active : ''}`}
             onClick={() => handlePhenotypeChange(Phenotype.Affected)}
+            disabled={isThresholded}
+            title={thresholdedTitle}
           >
             Affected
           </button>
           <button
-            className={`${styles.optionButton} ${selectedPerson.phenotypes[0] === Phenotype.Carrier ? styles.active : ''}`}
+            className={`${styles.optionButton} ${phenotype === Phenotype.Carrier ? styles.active : ''}`}
             onClick={() => handlePhenotypeChange(Phenotype.Carrier)}
+            disabled={isThresholded}
+            title={thresholdedTitle}
           >
             Carrier
           </button>
           <button
-            className={`${styles.optionButton} ${selectedPerson.phenotypes[0] === Phenotype.Unknown ? styles.active : ''}`}
+            className={`${styles.optionButton} ${phenotype === Phenotype.Unknown ? styles.active : ''}`}
             onClick={() => handlePhenotypeChange(Phenotype.Unknown)}
+            disabled={isThresholded}
+            title={thresholdedTitle}
           >
             Unknown
           </button>
-        </div>
+        </div>}
+        {traits.length === 0 && (
+          <div className={styles.inlineGroup}>
+            <span className={styles.inlineLabel}>Age at diagnosis</span>
+            <input
+              type="number"
+              className={styles.smallInput}
+              value={selectedPerson.diagnosisAges?.[0] ?? ''}
+              onChange={(e) => handleDiagnosisAgeChange(0, e.target.value ? parseInt(e.target.value) : null)}
+              placeholder="Age"
+            />
+          </div>
+        )}
+        {selectedPerson.metadata.quantitativeValue !== undefined && (
+          <div className={styles.inlineGroup}>
+            <span className={styles.inlineLabel}>Trait value</span>
+            <input
+              type="number"
+              className={styles.smallInput}
+              value={selectedPerson.metadata.quantitativeValue}
+              onChange={(e) => handleMetadataChange('quantitativeValue', e.target.value ? parseFloat(e.target.value) : undefined)}
+            />
+          </div>
+        )}
+        {selectedPerson.metadata.quantitativeValue !== undefined && (
+          <div className={styles.inlineGroup}>
+            <span className={styles.inlineLabel}>Affected from</span>
+            <input
+              type="number"
+              className={styles.smallInput}
+              value={threshold ?? ''}
+              onChange={(e) => setAffectedThreshold(e.target.value ? parseFloat(e.target.value) : undefined)}
+              placeholder="None"
+              title="Trait values at or above this are affected, for the whole pedigree"
+            />
+          </div>
+        )}
       </div>
 
       <div className={styles.section}>
@@ -243,14 +531,207 @@ export function PropertyPanel() {
             />
             Stillbirth
           </label>
+          <label className={styles.checkbox}>
+            <input
+              type="checkbox"
+              checked={selectedPerson.status.isPregnancy}
+              onChange={(e) => handleStatusChange('isPregnancy', e.target.checked)}
+            />
+            Pregnancy
+          </label>
+          <label className={styles.checkbox}>
+            <input
+              type="checkbox"
+              checked={selectedPerson.status.isAdoptedIn}
+              onChange={(e) => handleStatusChange('isAdoptedIn', e.target.checked)}
+            />
+            Adopted in
+          </label>
+          <label className={styles.checkbox}>
+            <input
+              type="checkbox"
+              checked={selectedPerson.status.isAdoptedOut}
+              onChange={(e) => handleStatusChange('isAdoptedOut', e.target.checked)}
+            />
+            Adopted out
+          </label>
+          <label className={styles.checkbox}>
+            <input
+              type="checkbox"
+              checked={selectedPerson.status.isInfertile}
+              onChange={(e) => handleStatusChange('isInfertile', e.target.checked)}
+            />
+            Infertile
+          </label>
+          <label className={styles.checkbox}>
+            <input
+              type="checkbox"
+              checked={selectedPerson.status.isEvaluated}
+              onChange={(e) => handleStatusChange('isEvaluated', e.target.checked)}
+            />
+            Documented evaluation (*)
+          </label>
+        </div>
+        {(selectedPerson.status.isPregnancy ||
+          selectedPerson.status.isMiscarriage ||
+          selectedPerson.status.isStillbirth) && (
+          <div className={styles.inlineGroup}>
+            <span className={styles.inlineLabel}>Gestational age</span>
+            <input
+              type="number"
+              min={0}
+              className={styles.smallInput}
+              value={selectedPerson.metadata.gestationalAge ?? ''}
+              onChange={(e) => handleMetadataChange('gestationalAge', e.target.value ? parseInt(e.target.value) : undefined)}
+              placeholder="Weeks"
+            />
+          </div>
+        )}
+      </div>
+
+      <div className={styles.section}>
+        <div className={styles.sectionTitle}>Genetic Tests</div>
+        {tests.map(test => (
+          <div key={test.id} className={styles.testItem}>
+            <div className={styles.inlineGroup}>
+              <input
+                type="text"
+                className={styles.smallInput}
+                value={test.gene}
+                onChange={(e) => handleTestChange(test.id, { gene: e.target.value })}
+                placeholder="Gene"
+              />
+              <input
+                type="text"
+                className={styles.select}
+                value={test.variant ?? ''}
+                onChange={(e) => handleTestChange(test.id, { variant: e.target.value || undefined })}
+                placeholder="Variant (HGVS)"
+              />
+            </div>
+            <div className={styles.inlineGroup}>
+              <select
+                className={styles.select}
+                value={test.result}
+                onChange={(e) => handleTestChange(test.id, { result: e.target.value as TestResult })}
+              >
+                <option value={TestResult.Positive}>Positive (E+)</option>
+                <option value={TestResult.Negative}>Negative (E-)</option>
+                <option value={TestResult.Vus}>VUS</option>
+              </select>
+              <select
+                className={styles.select}
+                value={test.zygosity}
+                onChange={(e) => handleTestChange(test.id, { zygosity: e.target.value as Zygosity })}
+              >
+                <option value={Zygosity.Heterozygous}>Heterozygous</option>
+                <option value={Zygosity.Homozygous}>Homozygous</option>
+                <option value={Zygosity.Hemizygous}>Hemizygous</option>
+                <option value={Zygosity.Unknown}>Unknown</option>
+              </select>
+            </div>
+            <div className={styles.inlineGroup}>
+              <input
+                type="text"
+                className={styles.select}
+                value={test.date ?? ''}
+                onChange={(e) => handleTestChange(test.id, { date: e.target.value || undefined })}
+                placeholder="Date (optional)"
+              />
+              <button
+                className={styles.optionButton}
+                onClick={() => handleRemoveTest(test.id)}
+              >
+                Remove
+              </button>
+            </div>
+          </div>
+        ))}
+        <div className={styles.buttonGroup}>
+          <button className={styles.optionButton} onClick={handleAddTest}>
+            + Add Test Result
+          </button>
+        </div>
+      </div>
+
+      <div className={styles.section}>
+        <div className={styles.sectionTitle}>Parents</div>
+        <div className={styles.inlineGroup}>
+          <span className={styles.inlineLabel}>Father</span>
+          <select
+            className={styles.select}
+            value={selectedPerson.fatherId ?? ''}
+            onChange={(e) => handleParentChange('father', e.target.value)}
+          >
+            <option value="">None</option>
+            {otherPersons
+              .filter(p => p.sex !== Sex.Female || p.id === selectedPerson.fatherId)
+              .map(p => <option key={p.id} value={p.id}>{personName(p.id)}</option>)}
+          </select>
+        </div>
+        <div className={styles.inlineGroup}>
+          <span className={styles.inlineLabel}>Mother</span>
+          <select
+            className={styles.select}
+            value={selectedPerson.motherId ?? ''}
+            onChange={(e) => handleParentChange('mother', e.target.value)}
+          >
+            <option value="">None</option>
+            {otherPersons
+              .filter(p => p.sex !== Sex.Male || p.id === selectedPerson.motherId)
+              .map(p => <option key={p.id} value={p.id}>{personName(p.id)}</option>)}
+          </select>
         </div>
       </div>
 
+      <div className={styles.section}>
+        <div className={styles.sectionTitle}>Siblings</div>
+        <div className={styles.inlineGroup}>
+          <span className={styles.inlineLabel}>Symbol count</span>
+          <input
+            type="text"
+            className={styles.smallInput}
+            value={selectedPerson.aggregateCount ?? ''}
+            onChange={(e) => handleAggregateChange(e.target.value)}
+            placeholder="Number or n"
+          />
+        </div>
+        <div className={styles.buttonGroup}>
+          <button
+            className={styles.optionButton}
+            onClick={() => setShowSiblingsModal(true)}
+            disabled={!hasParents}
+            title={hasParents ? undefined : 'Set a parent first'}
+          >
+            Add Siblings...
+          </button>
+          {collapsibleSiblings.length > 0 && (
+            <button
+              className={styles.optionButton}
+              onClick={handleCollapseSiblings}
+              title="Replace the unaffected siblings of the same sex with one symbol"
+            >
+              Collapse {collapsibleSiblings.length + 1} unaffected
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className={styles.section}>
+        <div className={styles.sectionTitle}>Merge Duplicate</div>
+        <select
+          className={styles.select}
+          value=""
+          onChange={(e) => handleMerge(e.target.value)}
+        >
+          <option value="">Merge another person into this one...</option>
+          {otherPersons.map(p => <option key={p.id} value={p.id}>{personName(p.id)}</option>)}
+        </select>
+      </div>
+
       <div className={styles.section}>
         <div className={styles.sectionTitle}>Relationships</div>
         <div className={styles.infoText}>
-          {selectedPerson.fatherId && <div>Father: {selectedPerson.fatherId}</div>}
-          {selectedPerson.motherId && <div>Mother: {selectedPerson.motherId}</div>}
           {selectedPerson.spouseIds.length > 0 && (
             <div>Spouse(s): {selectedPerson.spouseIds.join(', ')}</div>
           )}
@@ -263,6 +744,74 @@ export function PropertyPanel() {
           )}
         </div>
       </div>
+
+      {(hasParents || selectedPerson.childrenIds.length > 0) && (
+        <div className={styles.section}>
+          <div className={styles.sectionTitle}>Branches</div>
+          <div className={styles.buttonGroup}>
+            {BRANCH_BUTTONS
+              .filter(({ direction }) => direction === BranchDirection.Descendants
+                ? selectedPerson.childrenIds.length > 0
+                : hasParents)
+              .map(({ direction, label }) => {
+                const collapsed = pedigree ? isBranchCollapsed(pedigree, selectedPerson.id, direction) : false;
+                return (
+                  <button
+                    key={direction}
+                    className={`${styles.optionButton} ${collapsed ? styles.active : ''}`}
+                    onClick={() => toggleBranch(selectedPerson.id, direction)}
+                    title={collapsed ? 'Expand' : 'Collapse into one placeholder symbol'}
+                  >
+                    {label}
+                  </button>
+                );
+              })}
+          </div>
+        </div>
+      )}
+
+      <div className={styles.section}>
+        <div className={styles.sectionTitle}>Kinship</div>
+        {selectedPerson.fatherId && selectedPerson.motherId && (
+          <div className={styles.infoText}>
+            Inbreeding coefficient: F = {formatCoefficient(inbreeding)}
+          </div>
+        )}
+        <select
+          className={styles.select}
+          value={kinship ? relativeId : ''}
+          onChange={(e) => setRelativeId(e.target.value)}
+        >
+          <option value="">Compare with...</option>
+          {otherPersons.map(p => <option key={p.id} value={p.id}>{personName(p.id)}</option>)}
+        </select>
+        {kinship && (
+          <div className={styles.infoText}>
+            <div>
+              {kinship.relationship
+                ? `${kinship.relationship[0].toUpperCase()}${kinship.relationship.slice(1)}`
+                : 'No common ancestor in this pedigree'}
+            </div>
+            <div>Kinship coefficient: {formatCoefficient(kinship.coefficient)}</div>
+            {kinship.paths.map((path, index) => (
+              <div key={index} className={styles.kinshipPath}>
+                via {personName(path.ancestorId)}: {path.personIds.map(personName).join(' – ')}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {showSiblingsModal && pedigree && (
+        <SiblingsModal
+          title="Add Siblings"
+          description={`New siblings share the parents of ${personName(selectedPerson.id)}.`}
+          familyId={pedigree.familyId}
+          position={{ x: (selectedPerson.x ?? 0) + 80, y: selectedPerson.y ?? 0 }}
+          onConfirm={handleAddSiblings}
+          onCancel={() => setShowSiblingsModal(false)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,67 @@
+/**
+ * RecoveryModal Component
+ *
+ * Offers to restore the autosaved working pedigree on startup.
+ * Shown when a recovery snapshot from a previous session exists.
+ */
+
+import type { RecoverySnapshot } from '@/services/autosaveService';
+import styles from './RecoveryModal.module.css';
+
+interface RecoveryModalProps {
+  snapshot: RecoverySnapshot;
+  onRestore: () => void;
+  onDiscard: () => void;
+}
+
+const isChineseLocale = (): boolean => {
+  const lang = navigator.language || (navigator.languages?.[0]) || 'en';
+  return lang.toLowerCase().startsWith('zh');
+};
+
+export function RecoveryModal({ snapshot, onRestore, onDiscard }: RecoveryModalProps) {
+  const isChinese = isChineseLocale();
+  const { pedigree, savedAt } = snapshot;
+
+  const content = isChinese ? {
+    title: '要恢復上次的工作嗎？',
+    description: '我們在瀏覽器中找到一份自動儲存的 Pedigree。',
+    family: '家族 ID',
+    persons: '成員數',
+    saved: '儲存時間',
+    restoreButton: '恢復',
+    discardButton: '捨棄，重新開始',
+  } : {
+    title: 'Restore your previous work?',
+    description: 'An autosaved pedigree was found in this browser.',
+    family: 'Family ID',
+    persons: 'Persons',
+    saved: 'Saved',
+    restoreButton: 'Restore',
+    discardButton: 'Discard and start fresh',
+  };
+
+  return (
+    <div className={styles.overlay}>
+      <div className={styles.modal}>
+        <h2 className={styles.title}>{content.title}</h2>
+        <p className={styles.description}>{content.description}</p>
+
+        <div className={styles.details}>
+          <div>{content.family}: {pedigree.name ?? pedigree.familyId}</div>
+          <div>{content.persons}: {pedigree.persons.size}</div>
+          <div>{content.saved}: {savedAt.toLocaleString()}</div>
+        </div>
+
+        <div className={styles.buttons}>
+          <button className={styles.primaryButton} onClick={onRestore}>
+            {content.restoreButton}
+          </button>
+          <button className={styles.secondaryButton} onClick={onDiscard}>
+            {content.discardButton}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@
  * Panel for editing properties of the selected relationship
  */
 
+import { useMemo, useState } from 'react';
 import { usePedigreeStore } from '@/store/pedigreeStore';
 import {
   RelationshipType,
@@ -11,25 +12,54 @@ import {
   ChildlessReason,
   Sex,
   createPerson,
+  type Person,
+  type KinshipResult,
 } from '@/core/model/types';
+import { kinshipCalculator, formatCoefficient } from '@/core/analysis/KinshipCalculator';
+import { SiblingsModal } from '@/components/SiblingsModal/SiblingsModal';
 import styles from './RelationshipPanel.module.css';
 
+const DEGREE_LABELS: Record<number, string> = {
+  1: 'First cousins',
+  2: 'Second cousins',
+  3: 'Third cousins',
+  4: 'Fourth cousins or more distant',
+};
+
+/**
+ * Consanguinity suggested by the drawn ancestry, null when unrelated
+ * The degree only describes cousins, so closer relatives get the flag alone.
+ */
+function suggestConsanguinity(kinship: KinshipResult | null): { degree: number | null } | null {
+  if (!kinship?.generations) return null;
+  const cousinDegree = Math.min(...kinship.generations) - 1;
+  return { degree: cousinDegree >= 1 ? Math.min(cousinDegree, 4) : null };
+}
+
 export function RelationshipPanel() {
   const {
     pedigree,
     selectedRelationshipId,
-    addPerson,
-    updatePerson,
+    addChildToUnion,
+    addChildrenToUnion,
     updateRelationship,
     deleteRelationship,
     clearSelection,
-    recalculateLayout,
   } = usePedigreeStore();
+  const [showSiblingsModal, setShowSiblingsModal] = useState(false);
 
   const selectedRelationship = selectedRelationshipId && pedigree
     ? pedigree.relationships.get(selectedRelationshipId)
     : null;
 
+  // Path enumeration is not free, so only redo it when the pedigree changes
+  const kinship = useMemo(() => {
+    if (!pedigree || !selectedRelationship) return null;
+    const { person1Id, person2Id } = selectedRelationship;
+    if (!pedigree.persons.has(person1Id) || !pedigree.persons.has(person2Id)) return null;
+    return kinshipCalculator.relate(pedigree, person1Id, person2Id);
+  }, [pedigree, selectedRelationship]);
+
   if (!selectedRelationship) {
     return null;
   }
@@ -37,6 +67,16 @@ export function RelationshipPanel() {
   const person1 = pedigree?.persons.get(selectedRelationship.person1Id);
   const person2 = pedigree?.persons.get(selectedRelationship.person2Id);
 
+  const personName = (id: string) => pedigree?.persons.get(id)?.metadata.label || id;
+
+  const suggestion = suggestConsanguinity(kinship);
+  const isConsanguineous = selectedRelationship.type === RelationshipType.Consanguineous;
+  const suggestedDegree = suggestion?.degree ?? null;
+  const needsSuggestion = suggestion !== null && (
+    !isConsanguineous ||
+    (suggestedDegree !== null && (selectedRelationship.consanguinityDegree || 1) !== suggestedDegree)
+  );
+
   const handleTypeChange = (isConsanguineous: boolean) => {
     updateRelationship(selectedRelationship.id, {
       type: isConsanguineous ? RelationshipType.Consanguineous : RelationshipType.Spouse,
@@ -51,6 +91,13 @@ export function RelationshipPanel() {
     updateRelationship(selectedRelationship.id, { consanguinityDegree: degree });
   };
 
+  const handleApplySuggestion = () => {
+    updateRelationship(selectedRelationship.id, {
+      type: RelationshipType.Consanguineous,
+      consanguinityDegree: suggestedDegree ?? selectedRelationship.consanguinityDegree ?? 1,
+    });
+  };
+
   const handleChildlessReasonChange = (reason: ChildlessReason) => {
     updateRelationship(selectedRelationship.id, { childlessReason: reason });
   };
@@ -67,16 +114,10 @@ export function RelationshipPanel() {
     const parent2 = pedigree.persons.get(selectedRelationship.person2Id);
     if (!parent1 || !parent2) return;
 
-    // Determine father and mother based on sex
-    const father = parent1.sex === Sex.Male ? parent1 : (parent2.sex === Sex.Male ? parent2 : null);
-    const mother = parent1.sex === Sex.Female ? parent1 : (parent2.sex === Sex.Female ? parent2 : null);
-
     // Create child
     const childId = `P${Date.now().toString(36)}`;
     const child = createPerson(childId, pedigree.familyId, sex);
     child.metadata.label = childId;
-    child.fatherId = father?.id ?? null;
-    child.motherId = mother?.id ?? null;
 
     // Position child below parents
     const parentX = ((parent1.x ?? 0) + (parent2.x ?? 0)) / 2;
@@ -84,22 +125,13 @@ export function RelationshipPanel() {
     child.x = parentX;
     child.y = parentY + 120;
 
-    addPerson(child);
-
-    // Update parents' childrenIds
-    updatePerson(parent1.id, {
-      childrenIds: [...parent1.childrenIds, childId],
-    });
-    updatePerson(parent2.id, {
-      childrenIds: [...parent2.childrenIds, childId],
-    });
-
-    // Update relationship's childrenIds
-    updateRelationship(selectedRelationship.id, {
-      childrenIds: [...selectedRelationship.childrenIds, childId],
-    });
+    // Sets both parents, their childrenIds and the relationship's childrenIds
+    addChildToUnion(selectedRelationship.id, child);
+  };
 
-    recalculateLayout();
+  const handleAddChildren = (children: Person[]) => {
+    setShowSiblingsModal(false);
+    addChildrenToUnion(selectedRelationship.id, children);
   };
 
   return (
@@ -176,25 +208,48 @@ export function RelationshipPanel() {
         <label className={styles.checkbox}>
           <input
             type="checkbox"
-            checked={selectedRelationship.type === RelationshipType.Consanguineous}
+            checked={isConsanguineous}
             onChange={(e) => handleTypeChange(e.target.checked)}
           />
           Consanguineous relationship (related by blood)
         </label>
-        {selectedRelationship.type === RelationshipType.Consanguineous && (
+        {isConsanguineous && (
           <div className={styles.degreeSelector}>
             <label>Degree:</label>
             <select
               value={selectedRelationship.consanguinityDegree || 1}
               onChange={(e) => handleConsanguinityDegreeChange(Number(e.target.value))}
             >
-              <option value={1}>First cousins</option>
-              <option value={2}>Second cousins</option>
-              <option value={3}>Third cousins</option>
-              <option value={4}>Fourth cousins or more distant</option>
+              {Object.entries(DEGREE_LABELS).map(([degree, label]) => (
+                <option key={degree} value={degree}>{label}</option>
+              ))}
             </select>
           </div>
         )}
+        {kinship && (
+          <div className={styles.kinship}>
+            {kinship.relationship ? (
+              <>
+                <div>
+                  Related as {kinship.relationship} (kinship {formatCoefficient(kinship.coefficient)})
+                </div>
+                {kinship.paths.map((path, index) => (
+                  <div key={index} className={styles.kinshipPath}>
+                    via {personName(path.ancestorId)}: {path.personIds.map(personName).join(' – ')}
+                  </div>
+                ))}
+              </>
+            ) : (
+              <div>No common ancestor in this pedigree</div>
+            )}
+            {needsSuggestion && (
+              <button className={styles.optionButton} onClick={handleApplySuggestion}>
+                Mark as consanguineous
+                {suggestedDegree !== null && `: ${DEGREE_LABELS[suggestedDegree].toLowerCase()}`}
+              </button>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Add Child Section */}
@@ -219,6 +274,12 @@ export function RelationshipPanel() {
           >
             Unknown
           </button>
+          <button
+            className={styles.optionButton}
+            onClick={() => setShowSiblingsModal(true)}
+          >
+            Several...
+          </button>
         </div>
       </div>
 
@@ -285,6 +346,20 @@ export function RelationshipPanel() {
           Delete Relationship
         </button>
       </div>
+
+      {showSiblingsModal && pedigree && (
+        <SiblingsModal
+          title="Add Children"
+          description={`Add several children of ${person1?.metadata.label || person1?.id} & ${person2?.metadata.label || person2?.id} at once.`}
+          familyId={pedigree.familyId}
+          position={{
+            x: ((person1?.x ?? 0) + (person2?.x ?? 0)) / 2,
+            y: Math.max(person1?.y ?? 0, person2?.y ?? 0) + 120,
+          }}
+          onConfirm={handleAddChildren}
+          onCancel={() => setShowSiblingsModal(false)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,212 @@
+/**
+ * RiskPanel Component
+ *
+ * Bayesian genotype probabilities for the selected person under a chosen
+ * single-gene model, with optional risk labels under every symbol.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { usePedigreeStore } from '@/store/pedigreeStore';
+import { riskCalculator, DEFAULT_RISK_MODEL } from '@/core/analysis/RiskCalculator';
+import {
+  Genotype,
+  InheritanceMode,
+  type MonogenicMode,
+  type RiskModel,
+  type RiskResult,
+} from '@/core/model/types';
+import styles from './RiskPanel.module.css';
+
+const MODE_LABELS: Record<MonogenicMode, string> = {
+  [InheritanceMode.AutosomalDominant]: 'Autosomal dominant',
+  [InheritanceMode.AutosomalRecessive]: 'Autosomal recessive',
+  [InheritanceMode.XLinkedDominant]: 'X-linked dominant',
+  [InheritanceMode.XLinkedRecessive]: 'X-linked recessive',
+};
+
+const GENOTYPE_LABELS: Record<Genotype, string> = {
+  [Genotype.Noncarrier]: 'Non-carrier',
+  [Genotype.Heterozygous]: 'Heterozygous (carrier)',
+  [Genotype.Homozygous]: 'Homozygous',
+  [Genotype.Hemizygous]: 'Hemizygous',
+};
+
+/**
+ * Percentage with more precision for small risks, e.g. "67%", "2.5%", "<0.1%"
+ */
+function formatProbability(probability: number): string {
+  if (probability > 0 && probability < 0.001) return '<0.1%';
+  const percent = probability * 100;
+  return `${percent < 10 ? Number(percent.toFixed(1)) : Math.round(percent)}%`;
+}
+
+/**
+ * Short label for under a symbol: carrier risk for recessive models
+ * (where a carrier can exist), otherwise the chance of carrying the variant
+ */
+function riskLabel(result: RiskResult, mode: MonogenicMode): string {
+  const recessive = mode === InheritanceMode.AutosomalRecessive ||
+    mode === InheritanceMode.XLinkedRecessive;
+  const canBeCarrier = result.genotypes.some(g => g.genotype === Genotype.Heterozygous);
+
+  return recessive && canBeCarrier
+    ? `Carrier ${formatProbability(result.carrierRisk)}`
+    : `Variant ${formatProbability(result.variantRisk)}`;
+}
+
+export function RiskPanel() {
+  const {
+    pedigree,
+    selectedPersonId,
+    setRiskLabels,
+  } = usePedigreeStore();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [model, setModel] = useState<RiskModel>(DEFAULT_RISK_MODEL);
+  const [showLabels, setShowLabels] = useState(false);
+
+  const traits = pedigree?.traits ?? [];
+  const traitCount = Math.max(traits.length, 1);
+  const activeModel = useMemo(
+    () => (model.traitIndex < traitCount ? model : { ...model, traitIndex: 0 }),
+    [model, traitCount]
+  );
+
+  const selected = selectedPersonId ? pedigree?.persons.get(selectedPersonId) ?? null : null;
+
+  const target = useMemo(() => {
+    if (!pedigree || !selected || !isExpanded) return null;
+    try {
+      return { result: riskCalculator.calculate(pedigree, selected.id, activeModel), error: null };
+    } catch (error) {
+      return { result: null, error: (error as Error).message };
+    }
+  }, [pedigree, selected, isExpanded, activeModel]);
+
+  const labels = useMemo(() => {
+    if (!pedigree || !showLabels) return null;
+    try {
+      const results = riskCalculator.calculateAll(pedigree, activeModel);
+      return new Map(Array.from(results, ([id, result]) => [id, riskLabel(result, activeModel.mode)]));
+    } catch {
+      return null;
+    }
+  }, [pedigree, showLabels, activeModel]);
+
+  useEffect(() => {
+    setRiskLabels(labels ?? new Map());
+  }, [labels, setRiskLabels]);
+
+  useEffect(() => () => setRiskLabels(new Map()), [setRiskLabels]);
+
+  if (!pedigree) {
+    return null;
+  }
+
+  const updateModel = (updates: Partial<RiskModel>) => setModel({ ...activeModel, ...updates });
+
+  const name = selected ? selected.metadata.label || selected.id : null;
+
+  return (
+    <div className={styles.panel}>
+      <button
+        className={styles.header}
+        onClick={() => setIsExpanded(!isExpanded)}
+      >
+        <span>Risk</span>
+        <span className={styles.muted}>{MODE_LABELS[activeModel.mode]}</span>
+        {target?.result && (
+          <span className={styles.summary}>{name}: {riskLabel(target.result, activeModel.mode)}</span>
+        )}
+        <span className={styles.toggle}>{isExpanded ? '▾' : '▸'}</span>
+      </button>
+
+      {isExpanded && (
+        <div className={styles.body}>
+          <div className={styles.settings}>
+            <label className={styles.field}>
+              <span>Model</span>
+              <select
+                className={styles.input}
+                value={activeModel.mode}
+                onChange={(e) => updateModel({ mode: e.target.value as MonogenicMode })}
+              >
+                {Object.entries(MODE_LABELS).map(([mode, label]) => (
+                  <option key={mode} value={mode}>{label}</option>
+                ))}
+              </select>
+            </label>
+            {traits.length > 1 && (
+              <label className={styles.field}>
+                <span>Trait</span>
+                <select
+                  className={styles.input}
+                  value={activeModel.traitIndex}
+                  onChange={(e) => updateModel({ traitIndex: Number(e.target.value) })}
+                >
+                  {traits.map((trait, index) => (
+                    <option key={trait.id} value={index}>{trait.name}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+            <label className={styles.field}>
+              <span>Penetrance (%)</span>
+              <input
+                type="number"
+                min={1}
+                max={100}
+                className={styles.input}
+                value={Math.round(activeModel.penetrance * 1000) / 10}
+                onChange={(e) => updateModel({ penetrance: Number(e.target.value) / 100 })}
+              />
+            </label>
+            <label className={styles.field}>
+              <span>Allele frequency</span>
+              <input
+                type="number"
+                min={0}
+                max={1}
+                step={0.001}
+                className={styles.input}
+                value={activeModel.alleleFrequency}
+                onChange={(e) => updateModel({ alleleFrequency: Number(e.target.value) })}
+              />
+            </label>
+            <label className={styles.checkboxLabel}>
+              <input
+                type="checkbox"
+                checked={showLabels}
+                onChange={(e) => setShowLabels(e.target.checked)}
+              />
+              Show risk under each symbol
+            </label>
+          </div>
+
+          <div className={styles.results}>
+            {!selected && (
+              <p className={styles.hint}>Select a person to see their genotype probabilities.</p>
+            )}
+            {target?.error && <p className={styles.error}>{target.error}</p>}
+            {target?.result && (
+              <table className={styles.table}>
+                <caption className={styles.caption}>{name}</caption>
+                <tbody>
+                  {target.result.genotypes.map(({ genotype, probability }) => (
+                    <tr key={genotype}>
+                      <td>{GENOTYPE_LABELS[genotype]}</td>
+                      <td className={styles.value}>{formatProbability(probability)}</td>
+                    </tr>
+                  ))}
+                  <tr className={styles.total}>
+                    <td>Affected</td>
+                    <td className={styles.value}>{formatProbability(target.result.affectedRisk)}</td>
+                  </tr>
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+/**
+ * SiblingsModal Component
+ *
+ * Adds several siblings at once: a count, their sex and phenotype, and
+ * whether to draw them as individual symbols or one NSGC aggregate
+ * symbol with the count (or "n") inside.
+ */
+
+import { useState } from 'react';
+import {
+  Sex,
+  Phenotype,
+  createPerson,
+  type Person,
+} from '@/core/model/types';
+import styles from './SiblingsModal.module.css';
+
+// Above this, individual symbols are impractical; use an aggregate symbol
+const MAX_INDIVIDUAL_SIBLINGS = 20;
+
+interface SiblingsModalProps {
+  title: string;
+  description: string;
+  familyId: string;
+  position: { x: number; y: number };  // Initial position of the new symbols
+  onConfirm: (siblings: Person[]) => void;
+  onCancel: () => void;
+}
+
+export function SiblingsModal({
+  title,
+  description,
+  familyId,
+  position,
+  onConfirm,
+  onCancel,
+}: SiblingsModalProps) {
+  const [count, setCount] = useState(2);
+  const [countUnknown, setCountUnknown] = useState(false);
+  const [sex, setSex] = useState<Sex>(Sex.Female);
+  const [phenotype, setPhenotype] = useState<Phenotype>(Phenotype.Unaffected);
+  const [aggregate, setAggregate] = useState(false);
+
+  const asAggregate = aggregate || countUnknown;
+  const valid = countUnknown || (Number.isInteger(count) && count >= 1 &&
+    (asAggregate || count <= MAX_INDIVIDUAL_SIBLINGS));
+
+  const handleConfirm = () => {
+    if (!valid) return;
+
+    const base = `P${Date.now().toString(36)}`;
+    const makePerson = (id: string): Person => {
+      const person = createPerson(id, familyId, sex);
+      person.phenotypes = [phenotype];
+      person.metadata.label = id;
+      person.x = position.x;
+      person.y = position.y;
+      return person;
+    };
+
+    if (asAggregate) {
+      const person = makePerson(base);
+      person.aggregateCount = countUnknown ? 'n' : count;
+      onConfirm([person]);
+      return;
+    }
+
+    onConfirm(Array.from({ length: count }, (_, i) => makePerson(`${base}-${i + 1}`)));
+  };
+
+  return (
+    <div className={styles.overlay} onClick={onCancel}>
+      <div className={styles.modal} onClick={(e) => e.stopPropagation()}>
+        <h2 className={styles.title}>{title}</h2>
+        <p className={styles.description}>{description}</p>
+
+        <div className={styles.form}>
+          <label className={styles.field}>
+            <span>Number</span>
+            <input
+              type="number"
+              min={1}
+              className={styles.input}
+              value={countUnknown ? '' : count}
+              disabled={countUnknown}
+              onChange={(e) => setCount(Number(e.target.value))}
+            />
+          </label>
+          <label className={styles.checkboxLabel}>
+            <input
+              type="checkbox"
+              checked={countUnknown}
+              onChange={(e) => setCountUnknown(e.target.checked)}
+            />
+            Number unknown ("n")
+          </label>
+
+          <label className={styles.field}>
+            <span>Sex</span>
+            <select
+              className={styles.input}
+              value={sex}
+              onChange={(e) => setSex(e.target.value as Sex)}
+            >
+              <option value={Sex.Female}>Female</option>
+              <option value={Sex.Male}>Male</option>
+              <option value={Sex.Unknown}>Unknown</option>
+            </select>
+          </label>
+
+          <label className={styles.field}>
+            <span>Phenotype</span>
+            <select
+              className={styles.input}
+              value={phenotype}
+              onChange={(e) => setPhenotype(e.target.value as Phenotype)}
+            >
+              <option value={Phenotype.Unaffected}>Unaffected</option>
+              <option value={Phenotype.Affected}>Affected</option>
+              <option value={Phenotype.Carrier}>Carrier</option>
+              <option value={Phenotype.Unknown}>Unknown</option>
+            </select>
+          </label>
+
+          <label className={styles.checkboxLabel}>
+            <input
+              type="checkbox"
+              checked={asAggregate}
+              disabled={countUnknown}
+              onChange={(e) => setAggregate(e.target.checked)}
+            />
+            Draw as one symbol with the number inside
+          </label>
+
+          {!valid && !countUnknown && count > MAX_INDIVIDUAL_SIBLINGS && (
+            <p className={styles.hint}>
+              More than {MAX_INDIVIDUAL_SIBLINGS} siblings must be drawn as one symbol.
+            </p>
+          )}
+        </div>
+
+        <div className={styles.buttons}>
+          <button className={styles.primaryButton} onClick={handleConfirm} disabled={!valid}>
+            Add
+          </button>
+          <button className={styles.secondaryButton} onClick={onCancel}>
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -6,7 +6,9 @@
 
 import { useState } from 'react';
 import { usePedigreeStore, useTemporalStore } from '@/store/pedigreeStore';
-import { createPerson, createRelationship, Sex, RelationshipType } from '@/core/model/types';
+import { createPerson, createRelationship, Sex, RelationshipType, type Person } from '@/core/model/types';
+import { findProband } from '@/core/model/branchView';
+import { ParentUnionModal, type UnionOption } from '../ParentUnionModal/ParentUnionModal';
 import styles from './Toolbar.module.css';
 
 export function Toolbar() {
@@ -16,14 +18,34 @@ export function Toolbar() {
     selectedPersonId,
     setCurrentTool,
     addPerson,
-    addRelationship,
-    updatePerson,
+    addChildToUnion,
+    addParents,
+    addPartner,
     deletePerson,
     createNewPedigree,
     recalculateLayout,
+    showIndividualNumbers,
+    setShowIndividualNumbers,
+    renumberPersons,
+    setFocusMode,
+    expandAllBranches,
+    selectedRelationshipId,
+    respectPins,
+    setRespectPins,
+    setPinned,
+    releaseAllPins,
   } = usePedigreeStore();
 
   const [showRelationshipMenu, setShowRelationshipMenu] = useState(false);
+  // Partnerships offered when adding a child to a person with partners
+  const [unionChoices, setUnionChoices] = useState<UnionOption[] | null>(null);
+
+  // Persons a "re-layout selection" applies to
+  const selectedRelationship = selectedRelationshipId ? pedigree?.relationships.get(selectedRelationshipId) : undefined;
+  const selectionIds = selectedRelationship
+    ? [selectedRelationship.person1Id, selectedRelationship.person2Id, ...selectedRelationship.childrenIds]
+    : selectedPersonId ? [selectedPersonId] : [];
+  const hasPins = pedigree ? Array.from(pedigree.persons.values()).some(p => p.pin) : false;
 
   const temporal = useTemporalStore();
   const { undo, redo, pastStates, futureStates } = temporal.getState();
@@ -72,11 +94,18 @@ export function Toolbar() {
     newPerson.x = (selectedPerson.x ?? 0) + 80;
     newPerson.y = selectedPerson.y ?? 100;
 
-    addPerson(newPerson);
-
-    // Create spouse relationship
+    // One undo step for the partner and the relationship
     const relationship = createRelationship(selectedPersonId, id, RelationshipType.Spouse);
-    addRelationship(relationship);
+    addPartner(selectedPersonId, newPerson, relationship);
+  };
+
+  const createChild = (parent: Person): Person => {
+    const id = `P${Date.now().toString(36)}`;
+    const child = createPerson(id, parent.familyId, Sex.Unknown);
+    child.metadata.label = id;
+    child.x = parent.x ?? 0;
+    child.y = (parent.y ?? 0) + 120;
+    return child;
   };
 
   const handleAddChild = () => {
@@ -85,28 +114,51 @@ export function Toolbar() {
     const selectedPerson = pedigree.persons.get(selectedPersonId);
     if (!selectedPerson) return;
 
-    // Create a new child
-    const id = `P${Date.now().toString(36)}`;
-    const child = createPerson(id, pedigree.familyId, Sex.Unknown);
-    child.metadata.label = id;
-    child.x = selectedPerson.x ?? 0;
-    child.y = (selectedPerson.y ?? 0) + 120;
-
-    // Set parent based on selected person's sex
-    if (selectedPerson.sex === Sex.Male) {
-      child.fatherId = selectedPersonId;
-    } else if (selectedPerson.sex === Sex.Female) {
-      child.motherId = selectedPersonId;
+    // With partners, ask which union the child belongs to
+    const unions = Array.from(pedigree.relationships.values())
+      .filter(r => r.person1Id === selectedPersonId || r.person2Id === selectedPersonId)
+      .map(r => {
+        const partnerId = r.person1Id === selectedPersonId ? r.person2Id : r.person1Id;
+        return {
+          relationshipId: r.id,
+          partnerName: pedigree.persons.get(partnerId)?.metadata.label || partnerId,
+          detail: r.partnershipStatus,
+        };
+      });
+
+    if (unions.length > 0) {
+      setUnionChoices(unions);
+      return;
+    }
+
+    addSingleParentChild(selectedPerson);
+  };
+
+  const addSingleParentChild = (parent: Person) => {
+    const child = createChild(parent);
+
+    // Set parent based on selected person's sex (unknown sex takes the father slot)
+    if (parent.sex === Sex.Female) {
+      child.motherId = parent.id;
+    } else {
+      child.fatherId = parent.id;
     }
 
+    // addPerson links the parent's childrenIds as well
     addPerson(child);
+  };
+
+  const handleSelectUnion = (relationshipId: string | null) => {
+    setUnionChoices(null);
 
-    // Update selected person's children
-    updatePerson(selectedPersonId, {
-      childrenIds: [...selectedPerson.childrenIds, id],
-    });
+    const selectedPerson = selectedPersonId ? pedigree?.persons.get(selectedPersonId) : null;
+    if (!selectedPerson) return;
 
-    recalculateLayout();
+    if (relationshipId) {
+      addChildToUnion(relationshipId, createChild(selectedPerson));
+    } else {
+      addSingleParentChild(selectedPerson);
+    }
   };
 
   const handleAddParents = () => {
@@ -121,7 +173,6 @@ export function Toolbar() {
     father.metadata.label = fatherId;
     father.x = (selectedPerson.x ?? 0) - 40;
     father.y = (selectedPerson.y ?? 0) - 120;
-    father.childrenIds = [selectedPersonId];
 
     // Create mother
     const motherId = `P${Date.now().toString(36)}M`;
@@ -129,23 +180,9 @@ export function Toolbar() {
     mother.metadata.label = motherId;
     mother.x = (selectedPerson.x ?? 0) + 40;
     mother.y = (selectedPerson.y ?? 0) - 120;
-    mother.childrenIds = [selectedPersonId];
-
-    addPerson(father);
-    addPerson(mother);
-
-    // Update child's parent references
-    updatePerson(selectedPersonId, {
-      fatherId,
-      motherId,
-    });
 
-    // Create spouse relationship between parents
-    const relationship = createRelationship(fatherId, motherId, RelationshipType.Spouse);
-    relationship.childrenIds = [selectedPersonId];
-    addRelationship(relationship);
-
-    recalculateLayout();
+    // Links the child and creates the parents' spouse relationship, as one undo step
+    addParents(selectedPersonId, father, mother);
   };
 
   return (
@@ -266,12 +303,95 @@ export function Toolbar() {
           className={styles.toolButton}
           onClick={() => recalculateLayout()}
           disabled={!pedigree || pedigree.persons.size === 0}
-          title="Auto Align - Reset all positions"
+          title={respectPins
+            ? 'Auto Align - Reset all positions except pinned persons'
+            : 'Auto Align - Reset all positions'}
         >
           <AutoAlignIcon />
           Auto Align
         </button>
+        <button
+          className={`${styles.toolButton} ${respectPins ? styles.active : ''}`}
+          onClick={() => setRespectPins(!respectPins)}
+          title="Keep dragged persons where they were placed"
+        >
+          <PinIcon />
+          Pins
+        </button>
+        <button
+          className={styles.toolButton}
+          onClick={() => setPinned(selectionIds, false)}
+          disabled={!selectionIds.some(id => pedigree?.persons.get(id)?.pin)}
+          title="Unpin the selected person (or couple and their children) and lay them out again"
+        >
+          <RelayoutIcon />
+          Re-layout
+        </button>
+        <button
+          className={styles.toolButton}
+          onClick={() => releaseAllPins()}
+          disabled={!hasPins}
+          title="Unpin everyone"
+        >
+          <ReleasePinsIcon />
+          Release Pins
+        </button>
+      </div>
+
+      <div className={styles.divider} />
+
+      <div className={styles.toolGroup}>
+        <button
+          className={`${styles.toolButton} ${showIndividualNumbers ? styles.active : ''}`}
+          onClick={() => setShowIndividualNumbers(!showIndividualNumbers)}
+          disabled={!pedigree || pedigree.persons.size === 0}
+          title="Show NSGC individual numbers (II-3)"
+        >
+          <NumbersIcon />
+          Numbers
+        </button>
+        <button
+          className={styles.toolButton}
+          onClick={() => renumberPersons()}
+          disabled={!pedigree || pedigree.persons.size === 0}
+          title="Renumber everyone left to right by generation"
+        >
+          <RenumberIcon />
+          Renumber
+        </button>
+      </div>
+
+      <div className={styles.divider} />
+
+      <div className={styles.toolGroup}>
+        <button
+          className={`${styles.toolButton} ${pedigree?.view?.focus ? styles.active : ''}`}
+          onClick={() => setFocusMode(!pedigree?.view?.focus)}
+          disabled={!pedigree || !findProband(pedigree)}
+          title="Show only the proband's ancestors, descendants and first-degree relatives"
+        >
+          <FocusIcon />
+          Focus
+        </button>
+        <button
+          className={styles.toolButton}
+          onClick={() => expandAllBranches()}
+          disabled={!pedigree?.view}
+          title="Expand all collapsed branches and leave focus mode"
+        >
+          <ShowAllIcon />
+          Show All
+        </button>
       </div>
+
+      {unionChoices && selectedPersonId && (
+        <ParentUnionModal
+          parentName={pedigree?.persons.get(selectedPersonId)?.metadata.label || selectedPersonId}
+          unions={unionChoices}
+          onSelect={handleSelectUnion}
+          onCancel={() => setUnionChoices(null)}
+        />
+      )}
     </div>
   );
 }
@@ -381,3 +501,71 @@ function AutoAlignIcon() {
     </svg>
   );
 }
+
+function NumbersIcon() {
+  return (
+    <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+      <rect x="9" y="3" width="10" height="10" />
+      <text x="2" y="22" fontSize="9" fill="currentColor" stroke="none" fontFamily="serif" fontWeight="bold">II-1</text>
+    </svg>
+  );
+}
+
+function RenumberIcon() {
+  return (
+    <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+      <path d="M4 12 A8 8 0 0 1 18 7" />
+      <path d="M18 3 L18 7 L14 7" />
+      <path d="M20 12 A8 8 0 0 1 6 17" />
+      <path d="M6 21 L6 17 L10 17" />
+    </svg>
+  );
+}
+
+function FocusIcon() {
+  return (
+    <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+      <circle cx="12" cy="12" r="3" />
+      <path d="M3 8 V3 H8 M16 3 H21 V8 M21 16 V21 H16 M8 21 H3 V16" />
+    </svg>
+  );
+}
+
+function ShowAllIcon() {
+  return (
+    <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+      <path d="M12 3 L12 21 M3 12 L21 12" />
+      <path d="M9 6 L12 3 L15 6 M9 18 L12 21 L15 18 M6 9 L3 12 L6 15 M18 9 L21 12 L18 15" />
+    </svg>
+  );
+}
+
+function PinIcon() {
+  return (
+    <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+      <circle cx="12" cy="8" r="5" />
+      <path d="M12 13 L12 22" />
+    </svg>
+  );
+}
+
+function RelayoutIcon() {
+  return (
+    <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+      <rect x="9" y="3" width="6" height="6" strokeDasharray="2,2" />
+      <rect x="3" y="15" width="6" height="6" />
+      <rect x="15" y="15" width="6" height="6" />
+      <path d="M12 9 L12 12 M6 12 L18 12 M6 12 L6 15 M18 12 L18 15" />
+    </svg>
+  );
+}
+
+function ReleasePinsIcon() {
+  return (
+    <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+      <circle cx="12" cy="8" r="5" />
+      <path d="M12 13 L12 22" />
+      <path d="M4 4 L20 20" />
+    </svg>
+  );
+}
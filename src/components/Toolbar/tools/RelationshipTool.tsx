@@ -18,7 +18,7 @@ export function RelationshipTool({ onClose }: RelationshipToolProps) {
     pedigree,
     selectedPersonId,
     addRelationship,
-    updatePerson,
+    linkParent,
   } = usePedigreeStore();
 
   const [relationshipType, setRelationshipType] = useState<'spouse' | 'parent' | 'child'>('spouse');
@@ -49,35 +49,19 @@ export function RelationshipTool({ onClose }: RelationshipToolProps) {
       }
       case 'parent': {
         // Make target person a parent of selected person
-        if (targetPerson.sex === 'male') {
-          updatePerson(selectedPersonId, { fatherId: targetPersonId });
-        } else if (targetPerson.sex === 'female') {
-          updatePerson(selectedPersonId, { motherId: targetPersonId });
-        }
-        // Add selected person as child of target
-        updatePerson(targetPersonId, {
-          childrenIds: [...targetPerson.childrenIds, selectedPersonId],
-        });
+        linkParent(selectedPersonId, targetPersonId);
         break;
       }
       case 'child': {
         // Make target person a child of selected person
-        if (selectedPerson.sex === 'male') {
-          updatePerson(targetPersonId, { fatherId: selectedPersonId });
-        } else if (selectedPerson.sex === 'female') {
-          updatePerson(targetPersonId, { motherId: selectedPersonId });
-        }
-        // Add target person as child of selected
-        updatePerson(selectedPersonId, {
-          childrenIds: [...selectedPerson.childrenIds, targetPersonId],
-        });
+        linkParent(targetPersonId, selectedPersonId);
         break;
       }
     }
 
     setTargetPersonId('');
     onClose?.();
-  }, [selectedPersonId, targetPersonId, relationshipType, pedigree, addRelationship, updatePerson, onClose]);
+  }, [selectedPersonId, targetPersonId, relationshipType, pedigree, addRelationship, linkParent, onClose]);
 
   if (!selectedPerson) {
     return (
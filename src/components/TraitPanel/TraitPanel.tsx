@@ -0,0 +1,121 @@
+/**
+ * TraitPanel Component
+ *
+ * Edits the pedigree's trait catalogue: name, colour, fill pattern and
+ * the section of the symbol each trait is drawn in. The catalogue also
+ * drives the legend under the chart.
+ */
+
+import { usePedigreeStore } from '@/store/pedigreeStore';
+import { TraitPattern, MAX_TRAITS, createTrait } from '@/core/model/types';
+import styles from './TraitPanel.module.css';
+
+const PATTERN_LABELS: Record<TraitPattern, string> = {
+  [TraitPattern.Solid]: 'Solid',
+  [TraitPattern.Hatch]: 'Hatched',
+  [TraitPattern.CrossHatch]: 'Cross-hatched',
+  [TraitPattern.Dots]: 'Dotted',
+};
+
+const SLOT_LABELS: Record<number, string[]> = {
+  2: ['Left half', 'Right half'],
+  3: ['Upper right', 'Bottom', 'Upper left'],
+  4: ['Top left', 'Top right', 'Bottom right', 'Bottom left'],
+};
+
+export function TraitPanel() {
+  const {
+    pedigree,
+    addTrait,
+    updateTrait,
+    setTraitSlot,
+    removeTrait,
+  } = usePedigreeStore();
+
+  if (!pedigree) {
+    return null;
+  }
+
+  const traits = pedigree.traits ?? [];
+  const slotLabels = SLOT_LABELS[traits.length] ?? [];
+
+  const handleAdd = () => {
+    addTrait(createTrait(`Trait ${traits.length + 1}`, traits.length));
+  };
+
+  const handleRemove = (id: string, name: string) => {
+    if (confirm(`Remove trait "${name}"? Every person's status for it is removed too.`)) {
+      removeTrait(id);
+    }
+  };
+
+  return (
+    <div className={styles.section}>
+      <div className={styles.sectionTitle}>Traits</div>
+      {traits.length === 0 && (
+        <p className={styles.hint}>
+          Add traits to record several conditions per person, each drawn in
+          its own section of the symbol and listed in a legend.
+        </p>
+      )}
+
+      {traits.map(trait => (
+        <div key={trait.id} className={styles.trait}>
+          <div className={styles.row}>
+            <input
+              type="text"
+              className={styles.input}
+              value={trait.name}
+              onChange={(e) => updateTrait(trait.id, { name: e.target.value })}
+              placeholder="Trait name"
+            />
+            <input
+              type="color"
+              className={styles.color}
+              value={trait.color}
+              onChange={(e) => updateTrait(trait.id, { color: e.target.value })}
+              title="Colour"
+            />
+            <button
+              className={styles.removeButton}
+              onClick={() => handleRemove(trait.id, trait.name)}
+              title="Remove trait"
+            >
+              ✕
+            </button>
+          </div>
+          <div className={styles.row}>
+            <select
+              className={styles.select}
+              value={trait.pattern}
+              onChange={(e) => updateTrait(trait.id, { pattern: e.target.value as TraitPattern })}
+            >
+              {Object.values(TraitPattern).map(pattern => (
+                <option key={pattern} value={pattern}>{PATTERN_LABELS[pattern]}</option>
+              ))}
+            </select>
+            {slotLabels.length > 0 && (
+              <select
+                className={styles.select}
+                value={trait.slot}
+                onChange={(e) => setTraitSlot(trait.id, Number(e.target.value))}
+              >
+                {slotLabels.map((label, slot) => (
+                  <option key={slot} value={slot}>{label}</option>
+                ))}
+              </select>
+            )}
+          </div>
+        </div>
+      ))}
+
+      <button
+        className={styles.addButton}
+        onClick={handleAdd}
+        disabled={traits.length >= MAX_TRAITS}
+      >
+        + Add Trait
+      </button>
+    </div>
+  );
+}
@@ -29,7 +29,7 @@ export function WelcomeModal({ onClose }: WelcomeModalProps) {
       '作者明確支持與 Usher syndrome 及其他遺傳疾病相關的研究，並希望此專案能以某種方式為 Bioinformatics 研究社群做出貢獻。',
     ],
     privacyTitle: '隱私政策',
-    privacyContent: '本網站不搜集任何使用者資料，也不儲存任何資料。所有操作僅在您的瀏覽器中進行，關閉頁面後資料即消失。',
+    privacyContent: '本網站不搜集任何使用者資料。所有操作僅在您的瀏覽器中進行，編輯中的 Pedigree 只會自動儲存在此瀏覽器的本機儲存空間，不會上傳。',
     supportTitle: '☕ 支持這個專案',
     supportContent: '如果您覺得這個工具對您的研究、教學或臨床工作有幫助，歡迎支持它的開發。',
     buttonText: '我了解，開始使用',
@@ -42,7 +42,7 @@ export function WelcomeModal({ onClose }: WelcomeModalProps) {
       'The author explicitly supports research related to Usher syndrome and other genetic disorders, and hopes this project may contribute, even in a small way, to the bioinformatics research community.',
     ],
     privacyTitle: 'Privacy Policy',
-    privacyContent: 'This website does not collect any user data or store any information. All operations are performed locally in your browser. Data will be lost when you close the page.',
+    privacyContent: 'This website does not collect any user data. All operations are performed locally in your browser. Your work in progress is autosaved only to this browser\'s local storage and is never uploaded.',
     supportTitle: '☕ Support This Project',
     supportContent: 'If you find this tool helpful for research, teaching, or clinical work, consider supporting its development.',
     buttonText: 'I Understand, Let\'s Start',
@@ -0,0 +1,320 @@
+/**
+ * Inheritance Checker
+ *
+ * Tests a pedigree's affected/carrier statuses against the Mendelian
+ * modes of inheritance (and mitochondrial inheritance), assuming full
+ * penetrance and a rare allele:
+ * - Autosomal dominant: every affected child has an affected parent
+ * - Autosomal recessive: two affected parents only have affected children
+ * - X-linked dominant: affected fathers have only affected daughters, and
+ *   an affected son's mother is affected
+ * - X-linked recessive: an affected daughter's father is affected, an
+ *   affected mother's sons are affected, males are never carriers
+ * - Mitochondrial: an affected child's mother is affected
+ *
+ * Families are the trios recorded on each child (fatherId/motherId).
+ */
+
+import {
+  type Pedigree,
+  type Person,
+  type InheritanceIssue,
+  type InheritanceModeResult,
+  InheritanceMode,
+  IssueSeverity,
+  Phenotype,
+  Sex,
+} from '@/core/model/types';
+import { traitStatus } from '@/core/model/traitCatalogue';
+
+interface Family {
+  father: Person | null;
+  mother: Person | null;
+  children: Person[];
+}
+
+export class InheritanceChecker {
+  /**
+   * Check one mode for the trait at a catalogue index (0 without a catalogue)
+   */
+  check(pedigree: Pedigree, mode: InheritanceMode, traitIndex = 0): InheritanceModeResult {
+    const families = this.getFamilies(pedigree);
+    const status = (person: Person | null) =>
+      person ? traitStatus(person, traitIndex, pedigree.metadata.affectedThreshold) : Phenotype.Unknown;
+
+    let issues: InheritanceIssue[];
+    switch (mode) {
+      case InheritanceMode.AutosomalDominant:
+        issues = this.checkAutosomalDominant(families, status);
+        break;
+      case InheritanceMode.AutosomalRecessive:
+        issues = this.checkAutosomalRecessive(families, status);
+        break;
+      case InheritanceMode.XLinkedDominant:
+        issues = this.checkXLinkedDominant(pedigree, families, status);
+        break;
+      case InheritanceMode.XLinkedRecessive:
+        issues = this.checkXLinkedRecessive(pedigree, families, status);
+        break;
+      case InheritanceMode.Mitochondrial:
+        issues = this.checkMitochondrial(families, status);
+        break;
+    }
+
+    const rank = (issue: InheritanceIssue) => (issue.severity === IssueSeverity.Error ? 0 : 1);
+    issues.sort((a, b) => rank(a) - rank(b));
+
+    const errorCount = issues.filter(i => i.severity === IssueSeverity.Error).length;
+    return {
+      mode,
+      issues,
+      inconsistentIds: [...new Set(issues.map(issue => issue.personIds[0]))],
+      errorCount,
+      warningCount: issues.length - errorCount,
+    };
+  }
+
+  /**
+   * Check every mode, best fit first (fewest contradictions, then fewest atypical findings)
+   */
+  rankModes(pedigree: Pedigree, traitIndex = 0): InheritanceModeResult[] {
+    return Object.values(InheritanceMode)
+      .map(mode => this.check(pedigree, mode, traitIndex))
+      .sort((a, b) => a.errorCount - b.errorCount || a.warningCount - b.warningCount);
+  }
+
+  private checkAutosomalDominant(
+    families: Family[],
+    status: (person: Person | null) => Phenotype
+  ): InheritanceIssue[] {
+    const issues: InheritanceIssue[] = [];
+
+    for (const { father, mother, children } of families) {
+      // A carrier parent stands for a non-penetrant one, so only two
+      // known unaffected parents contradict an affected child
+      if (!father || !mother) continue;
+      if (status(father) !== Phenotype.Unaffected || status(mother) !== Phenotype.Unaffected) continue;
+
+      for (const child of children) {
+        if (status(child) === Phenotype.Affected) {
+          issues.push(this.error(
+            `${this.name(child)} is affected but neither parent is`,
+            [child, father, mother]
+          ));
+        }
+      }
+    }
+
+    return issues;
+  }
+
+  private checkAutosomalRecessive(
+    families: Family[],
+    status: (person: Person | null) => Phenotype
+  ): InheritanceIssue[] {
+    const issues: InheritanceIssue[] = [];
+
+    for (const { father, mother, children } of families) {
+      const affectedParents = [father, mother].filter(
+        (parent): parent is Person => status(parent) === Phenotype.Affected
+      );
+
+      for (const child of children) {
+        const childStatus = status(child);
+
+        if (affectedParents.length === 2 && childStatus === Phenotype.Unaffected) {
+          issues.push(this.error(
+            `${this.name(child)} is unaffected but both parents are affected`,
+            [child, ...affectedParents]
+          ));
+        } else if (affectedParents.length === 1 && childStatus === Phenotype.Affected) {
+          issues.push(this.warning(
+            `${this.name(child)} and parent ${this.name(affectedParents[0])} are both affected; the other parent must be a carrier`,
+            [child, affectedParents[0]]
+          ));
+        }
+      }
+    }
+
+    return issues;
+  }
+
+  private checkXLinkedDominant(
+    pedigree: Pedigree,
+    families: Family[],
+    status: (person: Person | null) => Phenotype
+  ): InheritanceIssue[] {
+    const issues: InheritanceIssue[] = [...this.checkMaleCarriers(pedigree, status)];
+
+    for (const { father, mother, children } of families) {
+      const fatherStatus = status(father);
+      const motherStatus = status(mother);
+
+      for (const child of children) {
+        const childStatus = status(child);
+
+        if (child.sex === Sex.Male && childStatus === Phenotype.Affected && motherStatus === Phenotype.Unaffected) {
+          // A son's X comes from his mother
+          issues.push(this.error(
+            fatherStatus === Phenotype.Affected
+              ? `${this.name(child)} is affected with an unaffected mother (male-to-male transmission)`
+              : `${this.name(child)} is affected but his mother is not`,
+            [child, mother!]
+          ));
+        } else if (
+          childStatus === Phenotype.Affected &&
+          fatherStatus === Phenotype.Unaffected &&
+          motherStatus === Phenotype.Unaffected
+        ) {
+          issues.push(this.error(
+            `${this.name(child)} is affected but neither parent is`,
+            [child, father!, mother!]
+          ));
+        } else if (
+          child.sex === Sex.Female &&
+          childStatus === Phenotype.Unaffected &&
+          fatherStatus === Phenotype.Affected
+        ) {
+          issues.push(this.error(
+            `${this.name(child)} is unaffected but her father is affected`,
+            [child, father!]
+          ));
+        }
+      }
+    }
+
+    return issues;
+  }
+
+  private checkXLinkedRecessive(
+    pedigree: Pedigree,
+    families: Family[],
+    status: (person: Person | null) => Phenotype
+  ): InheritanceIssue[] {
+    const issues: InheritanceIssue[] = [...this.checkMaleCarriers(pedigree, status)];
+
+    for (const { father, mother, children } of families) {
+      const fatherStatus = status(father);
+      const motherStatus = status(mother);
+
+      for (const child of children) {
+        const childStatus = status(child);
+
+        if (child.sex === Sex.Female && childStatus === Phenotype.Affected) {
+          if (fatherStatus === Phenotype.Unaffected) {
+            issues.push(this.error(
+              `${this.name(child)} is affected but her father is not`,
+              [child, father!]
+            ));
+          } else {
+            issues.push(this.warning(
+              `${this.name(child)} is an affected female, which is rare`,
+              [child]
+            ));
+          }
+        } else if (child.sex === Sex.Male && childStatus === Phenotype.Unaffected && motherStatus === Phenotype.Affected) {
+          issues.push(this.error(
+            `${this.name(child)} is unaffected but his mother is affected`,
+            [child, mother!]
+          ));
+        } else if (child.sex === Sex.Male && childStatus === Phenotype.Affected && fatherStatus === Phenotype.Affected) {
+          issues.push(this.warning(
+            `${this.name(child)} and his father are both affected; his mother must be a carrier`,
+            [child, father!]
+          ));
+        }
+      }
+    }
+
+    return issues;
+  }
+
+  private checkMitochondrial(
+    families: Family[],
+    status: (person: Person | null) => Phenotype
+  ): InheritanceIssue[] {
+    const issues: InheritanceIssue[] = [];
+
+    for (const { father, mother, children } of families) {
+      if (status(mother) !== Phenotype.Unaffected) continue;
+
+      for (const child of children) {
+        if (status(child) !== Phenotype.Affected) continue;
+
+        issues.push(this.error(
+          status(father) === Phenotype.Affected
+            ? `${this.name(child)} is affected but only the father is; mitochondria are inherited from the mother`
+            : `${this.name(child)} is affected but the mother is not`,
+          [child, mother!]
+        ));
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Males have one X, so under X-linked modes they cannot be carriers
+   */
+  private checkMaleCarriers(
+    pedigree: Pedigree,
+    status: (person: Person | null) => Phenotype
+  ): InheritanceIssue[] {
+    const issues: InheritanceIssue[] = [];
+
+    for (const person of pedigree.persons.values()) {
+      if (person.sex === Sex.Male && status(person) === Phenotype.Carrier) {
+        issues.push(this.error(
+          `${this.name(person)} is a male carrier, but males have a single X chromosome`,
+          [person]
+        ));
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Children grouped by their father and mother, as recorded on each child
+   * A child whose parents have no relationship still counts as a trio.
+   */
+  private getFamilies(pedigree: Pedigree): Family[] {
+    const families = new Map<string, Family>();
+
+    for (const child of pedigree.persons.values()) {
+      if (!child.fatherId && !child.motherId) continue;
+
+      const key = `${child.fatherId}|${child.motherId}`;
+      let family = families.get(key);
+      if (!family) {
+        family = {
+          father: this.resolve(pedigree, child.fatherId),
+          mother: this.resolve(pedigree, child.motherId),
+          children: [],
+        };
+        families.set(key, family);
+      }
+      family.children.push(child);
+    }
+
+    return Array.from(families.values());
+  }
+
+  private resolve(pedigree: Pedigree, id: string | null): Person | null {
+    return id ? pedigree.persons.get(id) ?? null : null;
+  }
+
+  private error(message: string, persons: Person[]): InheritanceIssue {
+    return { severity: IssueSeverity.Error, message, personIds: persons.map(p => p.id) };
+  }
+
+  private warning(message: string, persons: Person[]): InheritanceIssue {
+    return { severity: IssueSeverity.Warning, message, personIds: persons.map(p => p.id) };
+  }
+
+  private name(person: Person): string {
+    return person.metadata.label || person.id;
+  }
+}
+
+export const inheritanceChecker = new InheritanceChecker();
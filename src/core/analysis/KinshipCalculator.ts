@@ -0,0 +1,294 @@
+/**
+ * Kinship Calculator
+ *
+ * Relatedness from the parent links alone:
+ * - Kinship coefficient of any two persons (the chance that an allele
+ *   drawn at random from each is identical by descent)
+ * - Inbreeding coefficient of a person (the kinship of their parents)
+ * - The relationship in plain words and the lines of descent through
+ *   each common ancestor
+ *
+ * Persons with a missing parent are treated as unrelated through that
+ * side. Ancestry cycles are reported by the validator and ignored here.
+ */
+
+import {
+  type Pedigree,
+  type Person,
+  type KinshipPath,
+  type KinshipResult,
+  Sex,
+} from '@/core/model/types';
+
+// Paths listed per pair; loops in large pedigrees can produce many more
+const MAX_PATHS = 20;
+
+const ORDINALS = ['first', 'second', 'third', 'fourth', 'fifth', 'sixth', 'seventh', 'eighth', 'ninth', 'tenth'];
+const REMOVALS = ['once', 'twice', 'three times'];
+
+/**
+ * Memoised depths and kinships for one pedigree
+ */
+interface KinshipContext {
+  pedigree: Pedigree;
+  depths: Map<string, number>;
+  kinships: Map<string, number>;
+}
+
+export class KinshipCalculator {
+  /**
+   * Kinship coefficient of two persons (1/2 for a person with themself, without inbreeding)
+   */
+  kinship(pedigree: Pedigree, aId: string, bId: string): number {
+    return this.phi(this.createContext(pedigree), aId, bId);
+  }
+
+  /**
+   * Inbreeding coefficient of a person: the kinship of their parents
+   */
+  inbreeding(pedigree: Pedigree, personId: string): number {
+    return this.inbreedingIn(this.createContext(pedigree), personId);
+  }
+
+  /**
+   * Inbreeding coefficients of every person, keyed by id
+   */
+  inbreedingAll(pedigree: Pedigree): Map<string, number> {
+    const context = this.createContext(pedigree);
+    const result = new Map<string, number>();
+    for (const id of pedigree.persons.keys()) {
+      result.set(id, this.inbreedingIn(context, id));
+    }
+    return result;
+  }
+
+  /**
+   * Kinship, relationship name and lines of descent between two persons
+   */
+  relate(pedigree: Pedigree, aId: string, bId: string): KinshipResult {
+    const a = pedigree.persons.get(aId);
+    const b = pedigree.persons.get(bId);
+    if (!a || !b) {
+      throw new Error(`Person ${a ? bId : aId} not found`);
+    }
+
+    const context = this.createContext(pedigree);
+    const coefficient = this.phi(context, aId, bId);
+
+    if (aId === bId) {
+      return { coefficient, relationship: 'same person', generations: [0, 0], paths: [] };
+    }
+
+    const paths = this.findPaths(pedigree, aId, bId);
+    if (paths.length === 0) {
+      return { coefficient, relationship: null, generations: null, paths };
+    }
+
+    // Name the relationship after the nearest common ancestors
+    const steps = (path: KinshipPath): [number, number] => {
+      const index = path.personIds.indexOf(path.ancestorId);
+      return [index, path.personIds.length - 1 - index];
+    };
+    const nearest = paths.reduce<[number, number]>((best, path) => {
+      const [up, down] = steps(path);
+      return up + down < best[0] + best[1] ? [up, down] : best;
+    }, steps(paths[0]));
+    const nearestAncestors = new Set(paths
+      .filter(path => {
+        const [up, down] = steps(path);
+        return up === nearest[0] && down === nearest[1];
+      })
+      .map(path => path.ancestorId));
+
+    return {
+      coefficient,
+      relationship: this.describe(a, b, nearest, nearestAncestors.size > 1),
+      generations: nearest,
+      paths: paths.slice(0, MAX_PATHS),
+    };
+  }
+
+  private createContext(pedigree: Pedigree): KinshipContext {
+    return { pedigree, depths: new Map(), kinships: new Map() };
+  }
+
+  private inbreedingIn(context: KinshipContext, personId: string): number {
+    const person = context.pedigree.persons.get(personId);
+    if (!person?.fatherId || !person.motherId) return 0;
+    return this.phi(context, person.fatherId, person.motherId);
+  }
+
+  /**
+   * Kinship by recursion on the younger person's parents
+   * A person is always deeper than their ancestors, so recursing on the
+   * deeper of the two never climbs above a shared ancestor.
+   */
+  private phi(context: KinshipContext, aId: string, bId: string): number {
+    const { pedigree } = context;
+    if (!pedigree.persons.has(aId) || !pedigree.persons.has(bId)) return 0;
+
+    const key = aId < bId ? `${aId}|${bId}` : `${bId}|${aId}`;
+    const cached = context.kinships.get(key);
+    if (cached !== undefined) return cached;
+
+    // Guard against ancestry cycles while computing
+    context.kinships.set(key, 0);
+
+    let value: number;
+    if (aId === bId) {
+      value = (1 + this.inbreedingIn(context, aId)) / 2;
+    } else {
+      const [younger, other] = this.depth(context, aId) >= this.depth(context, bId) ? [aId, bId] : [bId, aId];
+      const person = pedigree.persons.get(younger)!;
+      value = (
+        (person.fatherId ? this.phi(context, person.fatherId, other) : 0) +
+        (person.motherId ? this.phi(context, person.motherId, other) : 0)
+      ) / 2;
+    }
+
+    context.kinships.set(key, value);
+    return value;
+  }
+
+  /**
+   * Longest chain of ancestors above a person
+   */
+  private depth(context: KinshipContext, id: string): number {
+    const cached = context.depths.get(id);
+    if (cached !== undefined) return cached;
+
+    context.depths.set(id, 0);
+    const person = context.pedigree.persons.get(id);
+    let depth = 0;
+    for (const parentId of [person?.fatherId, person?.motherId]) {
+      if (parentId && context.pedigree.persons.has(parentId)) {
+        depth = Math.max(depth, this.depth(context, parentId) + 1);
+      }
+    }
+    context.depths.set(id, depth);
+    return depth;
+  }
+
+  /**
+   * Lines of descent through common ancestors, shortest first
+   * The two halves of a path meet only at the ancestor (Wright's rule), so
+   * a line through a common ancestor never continues above them.
+   */
+  private findPaths(pedigree: Pedigree, aId: string, bId: string): KinshipPath[] {
+    const upA = this.pathsUp(pedigree, aId);
+    const upB = this.pathsUp(pedigree, bId);
+    const paths: KinshipPath[] = [];
+
+    for (const [ancestorId, fromA] of upA) {
+      const fromB = upB.get(ancestorId);
+      if (!fromB) continue;
+
+      for (const left of fromA) {
+        for (const right of fromB) {
+          const shared = left.filter(id => right.includes(id));
+          if (shared.length !== 1) continue;
+
+          paths.push({
+            ancestorId,
+            personIds: [...left, ...right.slice(0, -1).reverse()],
+          });
+        }
+      }
+    }
+
+    return paths.sort((p, q) => p.personIds.length - q.personIds.length);
+  }
+
+  /**
+   * Every upward path from a person (including the empty one to themself), by ancestor
+   */
+  private pathsUp(pedigree: Pedigree, id: string): Map<string, string[][]> {
+    const result = new Map<string, string[][]>();
+
+    const walk = (path: string[]) => {
+      const current = path[path.length - 1];
+      const list = result.get(current) ?? [];
+      list.push(path);
+      result.set(current, list);
+
+      const person = pedigree.persons.get(current);
+      for (const parentId of [person?.fatherId, person?.motherId]) {
+        if (parentId && pedigree.persons.has(parentId) && !path.includes(parentId)) {
+          walk([...path, parentId]);
+        }
+      }
+    };
+
+    walk([id]);
+    return result;
+  }
+
+  /**
+   * Relationship in plain words from the steps up to the nearest common ancestor
+   */
+  private describe(a: Person, b: Person, [up, down]: [number, number], full: boolean): string {
+    const half = full ? '' : 'half-';
+
+    // Direct line
+    if (up === 0 || down === 0) {
+      const [ancestor, descendant] = up === 0 ? [a, b] : [b, a];
+      const generations = up + down;
+      const prefix = this.greats(generations - 2);
+      const parentWord = this.bySex(ancestor, 'father', 'mother', 'parent');
+      const childWord = this.bySex(descendant, 'son', 'daughter', 'child');
+      return generations === 1
+        ? `${parentWord} and ${childWord}`
+        : `${prefix}grand${parentWord} and ${prefix}grand${childWord}`;
+    }
+
+    if (up === 1 && down === 1) {
+      return full ? 'full siblings' : 'half-siblings';
+    }
+
+    // Aunt/uncle and niece/nephew, and further down
+    if (up === 1 || down === 1) {
+      const [elder, younger] = up === 1 ? [a, b] : [b, a];
+      const generations = Math.max(up, down) - 1;
+      const elderWord = this.bySex(elder, 'uncle', 'aunt', 'aunt/uncle');
+      const youngerWord = this.bySex(younger, 'nephew', 'niece', 'niece/nephew');
+      const elderPrefix = this.greats(generations - 1);
+      const youngerPrefix = generations > 1 ? `${this.greats(generations - 2)}grand` : '';
+      return `${half}${elderPrefix}${elderWord} and ${youngerPrefix}${youngerWord}`;
+    }
+
+    const degree = Math.min(up, down) - 1;
+    const removed = Math.abs(up - down);
+    const ordinal = ORDINALS[degree - 1] ?? `${degree}th`;
+    const removal = removed === 0 ? '' : ` ${REMOVALS[removed - 1] ?? `${removed} times`} removed`;
+    return `${half}${ordinal} cousins${removal}`;
+  }
+
+  /**
+   * "", "great-", "great-great-", then "3× great-"
+   */
+  private greats(count: number): string {
+    if (count <= 0) return '';
+    if (count <= 2) return 'great-'.repeat(count);
+    return `${count}× great-`;
+  }
+
+  private bySex(person: Person, male: string, female: string, unknown: string): string {
+    if (person.sex === Sex.Male) return male;
+    if (person.sex === Sex.Female) return female;
+    return unknown;
+  }
+}
+
+export const kinshipCalculator = new KinshipCalculator();
+
+/**
+ * Coefficient as a fraction when it is one, e.g. "1/16", otherwise to 4 decimals
+ */
+export function formatCoefficient(value: number): string {
+  if (value === 0) return '0';
+  const denominator = 1 / value;
+  if (Math.abs(denominator - Math.round(denominator)) < 1e-9) {
+    return `1/${Math.round(denominator)}`;
+  }
+  return value.toFixed(4);
+}
@@ -0,0 +1,371 @@
+/**
+ * Risk Calculator
+ *
+ * Bayesian genotype probabilities for a single-gene model. The pedigree
+ * becomes a network with one genotype variable per person:
+ * - Founders (and missing parents) follow Hardy-Weinberg proportions
+ *   for the allele frequency
+ * - Children inherit one allele from each parent (a son's X only from
+ *   his mother)
+ * - Affected/unaffected/carrier statuses weigh each genotype by the
+ *   penetrance
+ *
+ * Posteriors are exact: every other person is summed out by variable
+ * elimination, which also handles consanguinity loops.
+ */
+
+import {
+  type Pedigree,
+  type Person,
+  type RiskModel,
+  type RiskResult,
+  Genotype,
+  InheritanceMode,
+  Phenotype,
+  Sex,
+} from '@/core/model/types';
+import { traitStatus } from '@/core/model/traitCatalogue';
+
+export const DEFAULT_RISK_MODEL: RiskModel = {
+  mode: InheritanceMode.AutosomalRecessive,
+  penetrance: 1,
+  alleleFrequency: 0.01,
+  traitIndex: 0,
+};
+
+/**
+ * A table over the genotypes (variant allele counts) of some persons
+ * The first variable varies slowest.
+ */
+interface Factor {
+  vars: string[];
+  values: number[];
+}
+
+/**
+ * The factors of a pedigree under a model, with an elimination order
+ */
+interface Network {
+  cards: Map<string, number>;    // Number of genotypes per person
+  factors: Factor[];
+  order: string[];
+}
+
+export class RiskCalculator {
+  /**
+   * Genotype probabilities of one person given everyone's status
+   * Throws when the statuses are impossible under the model.
+   */
+  calculate(pedigree: Pedigree, personId: string, model: RiskModel): RiskResult {
+    const person = pedigree.persons.get(personId);
+    if (!person) {
+      throw new Error(`Person ${personId} not found`);
+    }
+    this.checkModel(model);
+
+    return this.result(person, model, this.posterior(this.buildNetwork(pedigree, model), personId));
+  }
+
+  /**
+   * Risks for every person, keyed by id
+   * Throws when the statuses are impossible under the model.
+   */
+  calculateAll(pedigree: Pedigree, model: RiskModel): Map<string, RiskResult> {
+    this.checkModel(model);
+
+    const network = this.buildNetwork(pedigree, model);
+    const results = new Map<string, RiskResult>();
+    for (const person of pedigree.persons.values()) {
+      results.set(person.id, this.result(person, model, this.posterior(network, person.id)));
+    }
+    return results;
+  }
+
+  private checkModel(model: RiskModel): void {
+    if (!(model.penetrance > 0 && model.penetrance <= 1)) {
+      throw new Error('Penetrance must be greater than 0 and at most 1');
+    }
+    if (!(model.alleleFrequency > 0 && model.alleleFrequency < 1)) {
+      throw new Error('Allele frequency must be between 0 and 1');
+    }
+  }
+
+  private result(person: Person, model: RiskModel, posterior: number[]): RiskResult {
+    const genotypes = this.genotypeLabels(person, model)
+      .map((genotype, count) => ({ genotype, probability: posterior[count] }));
+
+    return {
+      personId: person.id,
+      genotypes,
+      carrierRisk: genotypes.find(g => g.genotype === Genotype.Heterozygous)?.probability ?? 0,
+      variantRisk: 1 - posterior[0],
+      affectedRisk: posterior.reduce(
+        (sum, probability, count) => sum + probability * this.penetrance(person, count, model),
+        0
+      ),
+    };
+  }
+
+  /**
+   * Normalised distribution of the target's variant allele count
+   */
+  private posterior(network: Network, targetId: string): number[] {
+    const { cards } = network;
+    let factors = network.factors;
+
+    for (const id of network.order) {
+      if (id === targetId) continue;
+
+      const involved = factors.filter(f => f.vars.includes(id));
+      factors = factors.filter(f => !f.vars.includes(id));
+      factors.push(this.sumOut(cards, involved, id));
+    }
+
+    const result = this.multiply(cards, factors);
+    const total = result.values.reduce((sum, value) => sum + value, 0);
+    if (total === 0) {
+      throw new Error('The statuses in this pedigree are impossible under this model');
+    }
+
+    return result.values.map(value => value / total);
+  }
+
+  /**
+   * One factor per person: inheritance (or founder prior) times status
+   */
+  private buildNetwork(pedigree: Pedigree, model: RiskModel): Network {
+    const cards = new Map<string, number>();
+    for (const person of pedigree.persons.values()) {
+      cards.set(person.id, this.isHemizygous(person, model) ? 2 : 3);
+    }
+
+    const factors: Factor[] = [];
+    for (const person of pedigree.persons.values()) {
+      const father = person.fatherId ? pedigree.persons.get(person.fatherId) ?? null : null;
+      const mother = person.motherId ? pedigree.persons.get(person.motherId) ?? null : null;
+      const parents = [father, mother].filter((p): p is Person => p !== null);
+      const vars = [person.id, ...parents.map(p => p.id)];
+
+      const values: number[] = [];
+      this.forEachAssignment(cards, vars, (counts) => {
+        const [count, ...parentCounts] = counts;
+        const fromFather = father
+          ? this.transmission(father, parentCounts[parents.indexOf(father)], model)
+          : model.alleleFrequency;
+        const fromMother = mother
+          ? this.transmission(mother, parentCounts[parents.indexOf(mother)], model)
+          : model.alleleFrequency;
+        values.push(this.inheritance(person, count, fromFather, fromMother, model) *
+          this.statusLikelihood(person, count, model, pedigree.metadata.affectedThreshold));
+      });
+
+      factors.push({ vars, values });
+    }
+
+    return { cards, factors, order: this.eliminationOrder(cards, factors) };
+  }
+
+  /**
+   * Greedy order that keeps intermediate tables small: repeatedly take the
+   * person whose elimination creates the smallest table
+   */
+  private eliminationOrder(cards: Map<string, number>, factors: Factor[]): string[] {
+    const neighbours = new Map<string, Set<string>>();
+    for (const id of cards.keys()) {
+      neighbours.set(id, new Set());
+    }
+    for (const { vars } of factors) {
+      for (const a of vars) {
+        for (const b of vars) {
+          if (a !== b) neighbours.get(a)!.add(b);
+        }
+      }
+    }
+
+    const order: string[] = [];
+    while (neighbours.size > 0) {
+      let best = '';
+      let bestSize = Infinity;
+      for (const [id, adjacent] of neighbours) {
+        let size = cards.get(id)!;
+        for (const other of adjacent) {
+          size *= cards.get(other)!;
+        }
+        if (size < bestSize) {
+          best = id;
+          bestSize = size;
+        }
+      }
+
+      // Eliminating a person links all of their neighbours
+      const adjacent = neighbours.get(best)!;
+      for (const a of adjacent) {
+        const set = neighbours.get(a)!;
+        set.delete(best);
+        for (const b of adjacent) {
+          if (a !== b) set.add(b);
+        }
+      }
+      neighbours.delete(best);
+      order.push(best);
+    }
+
+    return order;
+  }
+
+  /**
+   * P(child has `count` variant alleles) given each parent's chance to pass one on
+   */
+  private inheritance(
+    person: Person,
+    count: number,
+    fromFather: number,
+    fromMother: number,
+    model: RiskModel
+  ): number {
+    if (this.isHemizygous(person, model)) {
+      // A son's X comes from his mother
+      return count === 1 ? fromMother : 1 - fromMother;
+    }
+
+    if (count === 0) return (1 - fromFather) * (1 - fromMother);
+    if (count === 1) return fromFather * (1 - fromMother) + (1 - fromFather) * fromMother;
+    return fromFather * fromMother;
+  }
+
+  /**
+   * Chance that a parent passes the variant on to a child
+   */
+  private transmission(parent: Person, count: number, model: RiskModel): number {
+    return this.isHemizygous(parent, model) ? count : count / 2;
+  }
+
+  /**
+   * P(observed status | genotype)
+   * Carrier means heterozygous and unaffected.
+   */
+  private statusLikelihood(
+    person: Person,
+    count: number,
+    model: RiskModel,
+    affectedThreshold: number | undefined
+  ): number {
+    const affected = this.penetrance(person, count, model);
+
+    switch (traitStatus(person, model.traitIndex, affectedThreshold)) {
+      case Phenotype.Affected:
+        return affected;
+      case Phenotype.Unaffected:
+        return 1 - affected;
+      case Phenotype.Carrier:
+        return !this.isHemizygous(person, model) && count === 1 ? 1 - affected : 0;
+      default:
+        return 1;
+    }
+  }
+
+  /**
+   * P(affected | genotype)
+   */
+  private penetrance(person: Person, count: number, model: RiskModel): number {
+    const hemizygous = this.isHemizygous(person, model);
+    const dominant = model.mode === InheritanceMode.AutosomalDominant ||
+      model.mode === InheritanceMode.XLinkedDominant;
+
+    const canShow = hemizygous || dominant ? count >= 1 : count === 2;
+    return canShow ? model.penetrance : 0;
+  }
+
+  private isHemizygous(person: Person, model: RiskModel): boolean {
+    const xLinked = model.mode === InheritanceMode.XLinkedDominant ||
+      model.mode === InheritanceMode.XLinkedRecessive;
+    return xLinked && person.sex === Sex.Male;
+  }
+
+  private genotypeLabels(person: Person, model: RiskModel): Genotype[] {
+    return this.isHemizygous(person, model)
+      ? [Genotype.Noncarrier, Genotype.Hemizygous]
+      : [Genotype.Noncarrier, Genotype.Heterozygous, Genotype.Homozygous];
+  }
+
+  /**
+   * Call `visit` with every combination of allele counts, first variable slowest
+   */
+  private forEachAssignment(
+    cards: Map<string, number>,
+    vars: string[],
+    visit: (counts: number[]) => void
+  ): void {
+    const sizes = vars.map(id => cards.get(id)!);
+    const counts = vars.map(() => 0);
+
+    for (;;) {
+      visit(counts);
+
+      let i = vars.length - 1;
+      while (i >= 0 && ++counts[i] === sizes[i]) {
+        counts[i] = 0;
+        i--;
+      }
+      if (i < 0) return;
+    }
+  }
+
+  private multiply(cards: Map<string, number>, factors: Factor[]): Factor {
+    const vars = [...new Set(factors.flatMap(f => f.vars))];
+    const lookups = factors.map(factor => ({
+      factor,
+      positions: factor.vars.map(id => vars.indexOf(id)),
+      strides: this.strides(cards, factor.vars),
+    }));
+
+    const values: number[] = [];
+    this.forEachAssignment(cards, vars, (counts) => {
+      let product = 1;
+      for (const { factor, positions, strides } of lookups) {
+        let index = 0;
+        positions.forEach((position, i) => {
+          index += counts[position] * strides[i];
+        });
+        product *= factor.values[index];
+        if (product === 0) break;
+      }
+      values.push(product);
+    });
+
+    return { vars, values };
+  }
+
+  private sumOut(cards: Map<string, number>, factors: Factor[], id: string): Factor {
+    const product = this.multiply(cards, factors);
+    const vars = product.vars.filter(v => v !== id);
+    const position = product.vars.indexOf(id);
+    const strides = this.strides(cards, vars);
+
+    const values = new Array<number>(vars.reduce((size, v) => size * cards.get(v)!, 1)).fill(0);
+
+    let flat = 0;
+    this.forEachAssignment(cards, product.vars, (counts) => {
+      let index = 0;
+      counts.forEach((count, i) => {
+        if (i < position) index += count * strides[i];
+        else if (i > position) index += count * strides[i - 1];
+      });
+      values[index] += product.values[flat++];
+    });
+
+    return { vars, values };
+  }
+
+  private strides(cards: Map<string, number>, vars: string[]): number[] {
+    const strides = new Array<number>(vars.length);
+    let stride = 1;
+    for (let i = vars.length - 1; i >= 0; i--) {
+      strides[i] = stride;
+      stride *= cards.get(vars[i])!;
+    }
+    return strides;
+  }
+}
+
+export const riskCalculator = new RiskCalculator();
@@ -0,0 +1,158 @@
+/**
+ * Ancestor Chart Layout
+ *
+ * Bracket chart of the proband's ancestors:
+ * 1. Walk up from the proband through both parents
+ * 2. Measure every branch (the father's and mother's branches side by side)
+ * 3. Place the father's branch left of the mother's and each person
+ *    centred between their parents, the proband at the bottom
+ *
+ * Only direct ancestors are part of the chart; siblings, partners and
+ * descendants are left out. An ancestor reached twice (pedigree collapse)
+ * is drawn once, on the father's side where possible.
+ */
+
+import type { Pedigree, Person, LayoutOptions, LayoutNode } from '@/core/model/types';
+import { LayoutEngineId } from '@/core/model/types';
+import type { LayoutEngine } from './LayoutEngine';
+import { DEFAULT_LAYOUT_OPTIONS } from './PedigreeLayout';
+import { LayoutCache } from './LayoutCache';
+import { applyPins } from './pins';
+import { findProband } from '@/core/model/branchView';
+
+interface BracketNode {
+  person: Person;
+  father?: BracketNode;
+  mother?: BracketNode;
+  width: number;
+  depth: number;  // Generations of ancestors above, including this one
+}
+
+export class AncestorChartLayout implements LayoutEngine {
+  readonly id = LayoutEngineId.Ancestors;
+  readonly orientation = 'vertical';
+  private options: LayoutOptions;
+  private cache = new LayoutCache();
+
+  constructor(options: Partial<LayoutOptions> = {}) {
+    this.options = { ...DEFAULT_LAYOUT_OPTIONS, ...options };
+  }
+
+  layout(pedigree: Pedigree): Map<string, LayoutNode> {
+    const result = this.cache.layout(pedigree, this.options, () => this.arrange(pedigree));
+    if (this.options.respectPins) {
+      applyPins(result, this.options);
+    }
+    return result;
+  }
+
+  private arrange(pedigree: Pedigree): Map<string, LayoutNode> {
+    const result = new Map<string, LayoutNode>();
+    const root = findChartProband(pedigree, pedigree.layoutSelection?.rootId);
+    if (!root) {
+      return result;
+    }
+
+    const tree = this.buildTree(root, pedigree, new Set([root.id]));
+    this.place(tree, -tree.width / 2, tree.depth - 1, result);
+
+    return result;
+  }
+
+  private buildTree(person: Person, pedigree: Pedigree, seen: Set<string>): BracketNode {
+    const parentNode = (id: string | null) => {
+      const parent = id ? pedigree.persons.get(id) : undefined;
+      if (!parent || seen.has(parent.id)) return undefined;
+      seen.add(parent.id);
+      return this.buildTree(parent, pedigree, seen);
+    };
+    const father = parentNode(person.fatherId);
+    const mother = parentNode(person.motherId);
+
+    const { nodeWidth, spouseSpacing } = this.options;
+    let width = nodeWidth;
+    if (father && mother) {
+      width = father.width + spouseSpacing + mother.width;
+    } else if (father ?? mother) {
+      width = Math.max(nodeWidth, (father ?? mother)!.width);
+    }
+    const depth = 1 + Math.max(father?.depth ?? 0, mother?.depth ?? 0);
+
+    return { person, father, mother, width, depth };
+  }
+
+  /**
+   * Place a branch with its left edge at `left`; generation 0 is the top row
+   */
+  private place(node: BracketNode, left: number, generation: number, result: Map<string, LayoutNode>): void {
+    const { nodeWidth, nodeHeight, verticalSpacing, spouseSpacing } = this.options;
+    const { father, mother } = node;
+
+    let x: number;
+    if (father && mother) {
+      this.place(father, left, generation - 1, result);
+      this.place(mother, left + father.width + spouseSpacing, generation - 1, result);
+      x = (result.get(father.person.id)!.x + result.get(mother.person.id)!.x) / 2;
+    } else if (father ?? mother) {
+      const parent = (father ?? mother)!;
+      this.place(parent, left + (node.width - parent.width) / 2, generation - 1, result);
+      x = result.get(parent.person.id)!.x;
+    } else {
+      x = left + nodeWidth / 2;
+    }
+
+    const y = generation * (nodeHeight + verticalSpacing) + 50;
+    const order = Array.from(result.values()).filter(other => other.generation === generation).length;
+    node.person.x = x;
+    node.person.y = y;
+    result.set(node.person.id, { person: node.person, x, y, generation, order });
+  }
+
+  setOptions(options: Partial<LayoutOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  getOptions(): LayoutOptions {
+    return { ...this.options };
+  }
+
+  clearCache(): void {
+    this.cache.clear();
+  }
+}
+
+/**
+ * Person the ancestor chart starts from
+ * The chosen person when they exist, else the proband, else whoever has
+ * the most ancestors recorded.
+ */
+export function findChartProband(pedigree: Pedigree, rootId?: string): Person | undefined {
+  const chosen = (rootId ? pedigree.persons.get(rootId) : undefined) ?? findProband(pedigree);
+  if (chosen) {
+    return chosen;
+  }
+
+  let best: Person | undefined;
+  let bestCount = -1;
+  for (const person of pedigree.persons.values()) {
+    const count = countAncestors(person, pedigree);
+    if (count > bestCount) {
+      best = person;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+function countAncestors(person: Person, pedigree: Pedigree): number {
+  const seen = new Set<string>();
+  const queue = [person.fatherId, person.motherId];
+  while (queue.length > 0) {
+    const id = queue.pop();
+    const parent = id ? pedigree.persons.get(id) : undefined;
+    if (!parent || seen.has(parent.id)) continue;
+    seen.add(parent.id);
+    queue.push(parent.fatherId, parent.motherId);
+  }
+  return seen.size;
+}
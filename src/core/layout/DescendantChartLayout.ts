@@ -0,0 +1,191 @@
+/**
+ * Descendant Chart Layout
+ *
+ * Compact chart of one founder and everyone descended from them:
+ * 1. Walk down from the founder; each person's partners sit beside them
+ * 2. Measure every subtree (its own width, or its children's side by side)
+ * 3. Place subtrees left to right and centre each couple over their children
+ *
+ * Persons outside the founder's line are not part of the chart. A descendant
+ * reached twice (e.g. married to a cousin) is drawn once, beside the partner
+ * reached first.
+ */
+
+import type { Pedigree, Person, LayoutOptions, LayoutNode } from '@/core/model/types';
+import { LayoutEngineId } from '@/core/model/types';
+import type { LayoutEngine } from './LayoutEngine';
+import { DEFAULT_LAYOUT_OPTIONS } from './PedigreeLayout';
+import { LayoutCache } from './LayoutCache';
+import { applyPins } from './pins';
+
+interface ChartNode {
+  person: Person;
+  partners: Person[];
+  children: ChartNode[];
+  width: number;
+}
+
+export class DescendantChartLayout implements LayoutEngine {
+  readonly id = LayoutEngineId.Descendants;
+  readonly orientation = 'vertical';
+  private options: LayoutOptions;
+  private cache = new LayoutCache();
+
+  constructor(options: Partial<LayoutOptions> = {}) {
+    this.options = { ...DEFAULT_LAYOUT_OPTIONS, ...options };
+  }
+
+  layout(pedigree: Pedigree): Map<string, LayoutNode> {
+    const result = this.cache.layout(pedigree, this.options, () => this.arrange(pedigree));
+    if (this.options.respectPins) {
+      applyPins(result, this.options);
+    }
+    return result;
+  }
+
+  private arrange(pedigree: Pedigree): Map<string, LayoutNode> {
+    const result = new Map<string, LayoutNode>();
+    const root = findFounder(pedigree, pedigree.layoutSelection?.rootId);
+    if (!root) {
+      return result;
+    }
+
+    const tree = this.buildTree(root, pedigree, new Set([root.id]));
+    this.place(tree, -tree.width / 2, 0, result);
+
+    // Order within each generation, left to right
+    const rows = new Map<number, LayoutNode[]>();
+    for (const node of result.values()) {
+      rows.set(node.generation, [...(rows.get(node.generation) ?? []), node]);
+    }
+    for (const row of rows.values()) {
+      row.sort((a, b) => a.x - b.x).forEach((node, index) => {
+        node.order = index;
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Person, their partners not yet in the chart, and their children's subtrees
+   * Children are grouped by their other parent, in the order of the partners.
+   */
+  private buildTree(person: Person, pedigree: Pedigree, seen: Set<string>): ChartNode {
+    const partners = person.spouseIds
+      .map(id => pedigree.persons.get(id))
+      .filter((partner): partner is Person => !!partner && !seen.has(partner.id));
+    partners.forEach(partner => seen.add(partner.id));
+
+    const partnerIndex = (child: Person) => {
+      const otherId = child.fatherId === person.id ? child.motherId : child.fatherId;
+      const index = partners.findIndex(partner => partner.id === otherId);
+      return index === -1 ? partners.length : index;
+    };
+    const children = person.childrenIds
+      .map(id => pedigree.persons.get(id))
+      .filter((child): child is Person => !!child && !seen.has(child.id))
+      .sort((a, b) => partnerIndex(a) - partnerIndex(b));
+    children.forEach(child => seen.add(child.id));
+
+    const childNodes = children.map(child => this.buildTree(child, pedigree, seen));
+    const { horizontalSpacing } = this.options;
+    const childrenWidth = childNodes.reduce((sum, child) => sum + child.width, 0) +
+      Math.max(0, childNodes.length - 1) * horizontalSpacing;
+
+    return {
+      person,
+      partners,
+      children: childNodes,
+      width: Math.max(this.blockWidth(partners.length), childrenWidth),
+    };
+  }
+
+  private blockWidth(partnerCount: number): number {
+    const { nodeWidth, spouseSpacing } = this.options;
+    return nodeWidth + partnerCount * (nodeWidth + spouseSpacing);
+  }
+
+  /**
+   * Place a subtree with its left edge at `left`
+   */
+  private place(node: ChartNode, left: number, generation: number, result: Map<string, LayoutNode>): void {
+    const { nodeWidth, nodeHeight, horizontalSpacing, verticalSpacing, spouseSpacing } = this.options;
+    const blockWidth = this.blockWidth(node.partners.length);
+
+    let blockLeft = left + (node.width - blockWidth) / 2;
+    if (node.children.length > 0) {
+      const childrenWidth = node.children.reduce((sum, child) => sum + child.width, 0) +
+        (node.children.length - 1) * horizontalSpacing;
+      let childLeft = left + (node.width - childrenWidth) / 2;
+      for (const child of node.children) {
+        this.place(child, childLeft, generation + 1, result);
+        childLeft += child.width + horizontalSpacing;
+      }
+
+      // Centre the couple over their children, within the subtree's span
+      const first = result.get(node.children[0].person.id)!;
+      const last = result.get(node.children[node.children.length - 1].person.id)!;
+      const centre = (first.x + last.x) / 2;
+      blockLeft = Math.min(Math.max(centre - blockWidth / 2, left), left + node.width - blockWidth);
+    }
+
+    const y = generation * (nodeHeight + verticalSpacing) + 50;
+    [node.person, ...node.partners].forEach((person, index) => {
+      const x = blockLeft + nodeWidth / 2 + index * (nodeWidth + spouseSpacing);
+      person.x = x;
+      person.y = y;
+      result.set(person.id, { person, x, y, generation, order: 0 });
+    });
+  }
+
+  setOptions(options: Partial<LayoutOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  getOptions(): LayoutOptions {
+    return { ...this.options };
+  }
+
+  clearCache(): void {
+    this.cache.clear();
+  }
+}
+
+/**
+ * Person the descendant chart starts from
+ * The chosen person when they exist, else the founder with the most descendants.
+ */
+export function findFounder(pedigree: Pedigree, rootId?: string): Person | undefined {
+  const chosen = rootId ? pedigree.persons.get(rootId) : undefined;
+  if (chosen) {
+    return chosen;
+  }
+
+  let best: Person | undefined;
+  let bestCount = -1;
+  for (const person of pedigree.persons.values()) {
+    const hasParents = (person.fatherId && pedigree.persons.has(person.fatherId)) ||
+      (person.motherId && pedigree.persons.has(person.motherId));
+    if (hasParents) continue;
+    const count = countDescendants(person, pedigree);
+    if (count > bestCount) {
+      best = person;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+function countDescendants(person: Person, pedigree: Pedigree): number {
+  const seen = new Set<string>();
+  const queue = [...person.childrenIds];
+  while (queue.length > 0) {
+    const id = queue.pop()!;
+    const child = pedigree.persons.get(id);
+    if (!child || seen.has(id)) continue;
+    seen.add(id);
+    queue.push(...child.childrenIds);
+  }
+  return seen.size;
+}
@@ -0,0 +1,69 @@
+/**
+ * Horizontal Layout
+ *
+ * The generation layout turned on its side: generations become columns
+ * read left to right and each generation runs top to bottom. Rows get
+ * extra room because the labels under each symbol now sit between
+ * siblings instead of between generations.
+ */
+
+import type { Pedigree, LayoutOptions, LayoutNode } from '@/core/model/types';
+import { LayoutEngineId } from '@/core/model/types';
+import type { LayoutEngine } from './LayoutEngine';
+import { DEFAULT_LAYOUT_OPTIONS, PedigreeLayout } from './PedigreeLayout';
+import { applyPins } from './pins';
+
+// Extra space between symbols of one generation, for their labels
+const LABEL_ROOM = 40;
+
+export class HorizontalLayout implements LayoutEngine {
+  readonly id = LayoutEngineId.Horizontal;
+  readonly orientation = 'horizontal';
+  private options: LayoutOptions;
+  // Kept between calls so its cache is too
+  private rows: PedigreeLayout;
+
+  constructor(options: Partial<LayoutOptions> = {}) {
+    this.options = { ...DEFAULT_LAYOUT_OPTIONS, ...options };
+    this.rows = new PedigreeLayout({ ...this.rowOptions(), respectPins: false });
+  }
+
+  layout(pedigree: Pedigree): Map<string, LayoutNode> {
+    const options = this.rowOptions();
+    const result = this.rows.layout(pedigree);
+
+    for (const node of result.values()) {
+      [node.x, node.y] = [node.y, node.x];
+      node.person.x = node.x;
+      node.person.y = node.y;
+    }
+
+    if (this.options.respectPins) {
+      applyPins(result, options, this.orientation);
+    }
+    return result;
+  }
+
+  private rowOptions(): LayoutOptions {
+    const { horizontalSpacing, siblingSpacing, spouseSpacing } = this.options;
+    return {
+      ...this.options,
+      horizontalSpacing: horizontalSpacing + LABEL_ROOM,
+      siblingSpacing: siblingSpacing + LABEL_ROOM,
+      spouseSpacing: spouseSpacing + LABEL_ROOM,
+    };
+  }
+
+  setOptions(options: Partial<LayoutOptions>): void {
+    this.options = { ...this.options, ...options };
+    this.rows.setOptions({ ...this.rowOptions(), respectPins: false });
+  }
+
+  getOptions(): LayoutOptions {
+    return { ...this.options };
+  }
+
+  clearCache(): void {
+    this.rows.clearCache();
+  }
+}
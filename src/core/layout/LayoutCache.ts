@@ -0,0 +1,294 @@
+/**
+ * Layout Cache
+ *
+ * Arranging a chart only depends on who is related to whom, the chosen
+ * root and the spacing options. Edits that leave those alone (names,
+ * affection status, notes, dragging a pin) reuse the last arrangement
+ * instead of running the layout again; the store lays out the restored
+ * pedigree after undo and redo, which usually lands on one of the few
+ * arrangements kept. Pins are applied after the cache, so a
+ * moved pin is always honoured.
+ *
+ * Adding a child, sibling or partner only touches one family. Engines
+ * that can place such a newcomer themselves are handed the last
+ * arrangement and the edit; when they cannot, the chart is arranged again.
+ */
+
+import type { Pedigree, Person, Relationship, LayoutOptions, LayoutNode } from '@/core/model/types';
+
+// Arrangements kept per engine
+const CACHE_SIZE = 4;
+
+/**
+ * Persons added beside relatives already in the last arrangement
+ */
+export type LocalEdit =
+  // New persons without partners or children, each with a parent in the chart
+  | { kind: 'children'; personIds: string[] }
+  // A new person with no relatives yet
+  | { kind: 'person'; personId: string }
+  // A person who had no relatives, now the partner of someone in the chart
+  | { kind: 'partner'; personId: string; partnerId: string };
+
+/**
+ * Places a local edit into a copy of the last arrangement
+ * Returns false when it cannot; the chart is then arranged again.
+ */
+export type LocalPlacement = (positions: Map<string, LayoutNode>, edit: LocalEdit) => boolean;
+
+interface Placement {
+  x: number;
+  y: number;
+  generation: number;
+  order: number;
+}
+
+/**
+ * Everything an arrangement depends on, with each person and relationship
+ * kept apart so two structures can be compared
+ */
+interface Structure {
+  key: string;
+  settings: string;
+  persons: Map<string, string>;
+  relationships: Map<string, string>;
+}
+
+interface CacheEntry {
+  structure: Structure;
+  placements: Map<string, Placement>;
+  generations: Map<string, number | undefined>;
+}
+
+export class LayoutCache {
+  private entries: CacheEntry[] = [];
+
+  /**
+   * Positions for the pedigree, from the cache, a local placement or
+   * arrange(). Persons get their x, y and generation written back either way.
+   */
+  layout(
+    pedigree: Pedigree,
+    options: LayoutOptions,
+    arrange: () => Map<string, LayoutNode>,
+    placeLocally?: LocalPlacement
+  ): Map<string, LayoutNode> {
+    const structure = describe(pedigree, options);
+    const index = this.entries.findIndex(entry => entry.structure.key === structure.key);
+
+    if (index >= 0) {
+      const [entry] = this.entries.splice(index, 1);
+      this.entries.unshift(entry);
+      return restore(entry, pedigree);
+    }
+
+    const result = (placeLocally && this.placeLocally(pedigree, structure, placeLocally)) || arrange();
+    this.entries.unshift(snapshot(structure, result, pedigree));
+    this.entries.length = Math.min(this.entries.length, CACHE_SIZE);
+    return result;
+  }
+
+  clear(): void {
+    this.entries = [];
+  }
+
+  /**
+   * The last arrangement with the edit placed into it, if the pedigree is
+   * that arrangement plus a local edit
+   */
+  private placeLocally(
+    pedigree: Pedigree,
+    structure: Structure,
+    placeLocally: LocalPlacement
+  ): Map<string, LayoutNode> | null {
+    const previous = this.entries[0];
+    const edit = previous && findLocalEdit(previous.structure, structure, pedigree);
+    if (!edit) return null;
+
+    const result = restore(previous, pedigree);
+    return placeLocally(result, edit) ? result : null;
+  }
+}
+
+function describe(pedigree: Pedigree, options: LayoutOptions): Structure {
+  const settings = JSON.stringify([{ ...options, respectPins: undefined }, pedigree.layoutSelection ?? null]);
+  const persons = new Map<string, string>();
+  for (const person of pedigree.persons.values()) {
+    persons.set(person.id, personLinks(person));
+  }
+  const relationships = new Map<string, string>();
+  for (const relationship of pedigree.relationships.values()) {
+    relationships.set(relationship.id, relationshipLinks(relationship));
+  }
+  const key = [settings, ...persons.values(), ...relationships.values()].join('\n');
+  return { key, settings, persons, relationships };
+}
+
+/**
+ * A person's links, leaving out links to the given persons
+ */
+function personLinks(person: Person, without?: Set<string>): string {
+  const keep = (ids: string[]) => (without ? ids.filter(id => !without.has(id)) : ids);
+  return JSON.stringify([
+    person.id,
+    person.fatherId ?? null,
+    person.motherId ?? null,
+    keep(person.spouseIds),
+    keep(person.childrenIds),
+    person.status.isProband,
+  ]);
+}
+
+function relationshipLinks(relationship: Relationship, without?: Set<string>): string {
+  const childrenIds = without
+    ? relationship.childrenIds.filter(id => !without.has(id))
+    : relationship.childrenIds;
+  return JSON.stringify([
+    relationship.id,
+    relationship.person1Id,
+    relationship.person2Id,
+    relationship.type,
+    childrenIds,
+  ]);
+}
+
+function isUnlinked(person: Person): boolean {
+  return !person.fatherId && !person.motherId && person.spouseIds.length === 0 && person.childrenIds.length === 0;
+}
+
+/**
+ * A new person whose only link is a partner already in the chart
+ */
+function isNewPartner(person: Person, previous: Structure): boolean {
+  return person.spouseIds.length === 1 && previous.persons.has(person.spouseIds[0]) &&
+    isUnlinked({ ...person, spouseIds: [] });
+}
+
+/**
+ * How the next structure differs from the previous one, if only by a local edit
+ */
+function findLocalEdit(previous: Structure, next: Structure, pedigree: Pedigree): LocalEdit | null {
+  if (previous.settings !== next.settings) return null;
+
+  const added = Array.from(next.persons.keys()).filter(id => !previous.persons.has(id));
+  if (previous.persons.size + added.length !== next.persons.size) return null;
+
+  return added.length > 0
+    ? findAddedPersons(previous, next, pedigree, added)
+    : findNewPartner(previous, next, pedigree);
+}
+
+function findAddedPersons(
+  previous: Structure,
+  next: Structure,
+  pedigree: Pedigree,
+  added: string[]
+): LocalEdit | null {
+  const persons = added.map(id => pedigree.persons.get(id)!);
+  if (persons.some(person => person.status.isProband)) return null;
+
+  let edit: LocalEdit;
+  if (persons.length === 1 && isUnlinked(persons[0])) {
+    edit = { kind: 'person', personId: persons[0].id };
+  } else if (persons.length === 1 && isNewPartner(persons[0], previous)) {
+    edit = { kind: 'partner', personId: persons[0].id, partnerId: persons[0].spouseIds[0] };
+  } else if (persons.every(person =>
+    person.spouseIds.length === 0 &&
+    person.childrenIds.length === 0 &&
+    (person.fatherId || person.motherId) &&
+    [person.fatherId, person.motherId].every(id => !id || previous.persons.has(id))
+  )) {
+    edit = { kind: 'children', personIds: added };
+  } else {
+    return null;
+  }
+
+  // Their relatives may only have gained them
+  const addedIds = new Set(added);
+  for (const [id, links] of next.persons) {
+    const before = previous.persons.get(id);
+    if (before === undefined || before === links) continue;
+    if (before !== personLinks(pedigree.persons.get(id)!, addedIds)) return null;
+  }
+
+  // Only a new partner brings a relationship along: theirs, still childless
+  const newRelationships = Array.from(next.relationships.keys()).filter(id => !previous.relationships.has(id));
+  if (previous.relationships.size + newRelationships.length !== next.relationships.size) return null;
+  if (edit.kind === 'partner') {
+    const relationship = newRelationships.length === 1 && pedigree.relationships.get(newRelationships[0])!;
+    if (!relationship || relationship.childrenIds.length > 0 ||
+      ![relationship.person1Id, relationship.person2Id].every(id => id === edit.personId || id === edit.partnerId)) {
+      return null;
+    }
+  } else if (newRelationships.length > 0) {
+    return null;
+  }
+  for (const [id, links] of next.relationships) {
+    const before = previous.relationships.get(id);
+    if (before === links || before === undefined) continue;
+    if (before !== relationshipLinks(pedigree.relationships.get(id)!, addedIds)) return null;
+  }
+
+  return edit;
+}
+
+function findNewPartner(previous: Structure, next: Structure, pedigree: Pedigree): LocalEdit | null {
+  const added = Array.from(next.relationships.keys()).filter(id => !previous.relationships.has(id));
+  if (added.length !== 1 || previous.relationships.size + 1 !== next.relationships.size) return null;
+
+  const relationship = pedigree.relationships.get(added[0])!;
+  if (relationship.childrenIds.length > 0) return null;
+
+  // The partner who had no relatives before moves; the other stays
+  const wasUnlinked = (id: string) => {
+    const person = pedigree.persons.get(id);
+    return !!person && previous.persons.get(id) ===
+      personLinks({ ...person, fatherId: null, motherId: null, spouseIds: [], childrenIds: [] });
+  };
+  const [personId, partnerId] = wasUnlinked(relationship.person2Id)
+    ? [relationship.person2Id, relationship.person1Id]
+    : [relationship.person1Id, relationship.person2Id];
+  const person = pedigree.persons.get(personId);
+  if (!person || !wasUnlinked(personId) || !previous.persons.has(partnerId)) return null;
+  if (!isUnlinked({ ...person, spouseIds: person.spouseIds.filter(id => id !== partnerId) })) return null;
+
+  const without = new Set([personId]);
+  for (const [id, links] of next.persons) {
+    if (id === personId || previous.persons.get(id) === links) continue;
+    if (id !== partnerId || previous.persons.get(id) !== personLinks(pedigree.persons.get(id)!, without)) return null;
+  }
+  for (const [id, links] of next.relationships) {
+    if (id !== relationship.id && previous.relationships.get(id) !== links) return null;
+  }
+
+  return { kind: 'partner', personId, partnerId };
+}
+
+function snapshot(structure: Structure, result: Map<string, LayoutNode>, pedigree: Pedigree): CacheEntry {
+  const placements = new Map<string, Placement>();
+  for (const [id, { x, y, generation, order }] of result) {
+    placements.set(id, { x, y, generation, order });
+  }
+  const generations = new Map<string, number | undefined>();
+  for (const [id, person] of pedigree.persons) {
+    generations.set(id, person.generation);
+  }
+  return { structure, placements, generations };
+}
+
+/**
+ * Fresh layout nodes for the current person objects
+ */
+function restore(entry: CacheEntry, pedigree: Pedigree): Map<string, LayoutNode> {
+  for (const [id, generation] of entry.generations) {
+    pedigree.persons.get(id)!.generation = generation;
+  }
+  const result = new Map<string, LayoutNode>();
+  for (const [id, placement] of entry.placements) {
+    const person = pedigree.persons.get(id)!;
+    person.x = placement.x;
+    person.y = placement.y;
+    result.set(id, { person, ...placement });
+  }
+  return result;
+}
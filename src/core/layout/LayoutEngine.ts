@@ -0,0 +1,27 @@
+/**
+ * Layout Engine Interface
+ *
+ * Every chart style positions persons through the same interface, so the
+ * store and canvas can switch engines without knowing how each one works.
+ * An engine may leave persons out of its result; they are simply not drawn.
+ */
+
+import type { Pedigree, LayoutOptions, LayoutNode, LayoutEngineId, LayoutOrientation } from '@/core/model/types';
+
+export interface LayoutEngine {
+  readonly id: LayoutEngineId;
+  readonly orientation: LayoutOrientation;
+
+  /**
+   * Positions for the persons in the chart; also written to each person's x/y
+   */
+  layout(pedigree: Pedigree): Map<string, LayoutNode>;
+
+  setOptions(options: Partial<LayoutOptions>): void;
+  getOptions(): LayoutOptions;
+
+  /**
+   * Forget cached arrangements, so the next layout starts from scratch
+   */
+  clearCache(): void;
+}
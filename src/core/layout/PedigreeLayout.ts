@@ -5,11 +5,23 @@
  * Uses a generation-based approach:
  * 1. Assign generations (founders = 0, children = parent generation + 1)
  * 2. Sort within each generation (spouses adjacent, siblings grouped)
- * 3. Calculate x positions avoiding overlaps
- * 4. Handle special cases (consanguinity, twins)
+ * 3. Reorder to reduce line crossings between generations
+ * 4. Calculate x positions avoiding overlaps
+ * 5. Handle special cases (marriages between two sibships, including
+ *    consanguineous loops, keep the partners side by side)
+ * 6. Keep pinned persons where they were placed by hand; everyone else
+ *    keeps their place unless a pin lands on them
+ *
+ * A new child, sibling or partner is placed into the last layout instead
+ * (see localEdits.ts), so the chart does not reshuffle on every addition.
  */
 
 import type { Pedigree, Person, Relationship, LayoutOptions, LayoutNode, FamilyUnit } from '@/core/model/types';
+import { LayoutEngineId } from '@/core/model/types';
+import type { LayoutEngine } from './LayoutEngine';
+import { LayoutCache } from './LayoutCache';
+import { applyPins } from './pins';
+import { placeLocalEdit } from './localEdits';
 
 export const DEFAULT_LAYOUT_OPTIONS: LayoutOptions = {
   nodeWidth: 50,
@@ -18,15 +30,22 @@ export const DEFAULT_LAYOUT_OPTIONS: LayoutOptions = {
   verticalSpacing: 100,
   siblingSpacing: 40,
   spouseSpacing: 60,
+  respectPins: true,
 };
 
+// Down/up sweeps of the crossing reduction
+const CROSSING_SWEEPS = 4;
+
 interface GenerationInfo {
   persons: Person[];
   width: number;
 }
 
-export class PedigreeLayout {
+export class PedigreeLayout implements LayoutEngine {
+  readonly id = LayoutEngineId.Generations;
+  readonly orientation = 'vertical';
   private options: LayoutOptions;
+  private cache = new LayoutCache();
 
   constructor(options: Partial<LayoutOptions> = {}) {
     this.options = { ...DEFAULT_LAYOUT_OPTIONS, ...options };
@@ -36,6 +55,25 @@ export class PedigreeLayout {
    * Main layout function - calculates positions for all persons
    */
   layout(pedigree: Pedigree): Map<string, LayoutNode> {
+    const result = this.cache.layout(
+      pedigree,
+      this.options,
+      () => this.arrange(pedigree),
+      (positions, edit) => placeLocalEdit(positions, pedigree, edit, this.options)
+    );
+
+    // Put pinned persons back; the rest only step aside for them
+    if (this.options.respectPins) {
+      applyPins(result, this.options);
+    }
+
+    return result;
+  }
+
+  /**
+   * Steps 1-5 of the header; the arrangement before pins
+   */
+  private arrange(pedigree: Pedigree): Map<string, LayoutNode> {
     const result = new Map<string, LayoutNode>();
     const persons = Array.from(pedigree.persons.values());
 
@@ -63,17 +101,20 @@ export class PedigreeLayout {
       sharedPersons
     );
 
-    // Step 4: Calculate initial positions
+    // Step 4: Reorder to reduce crossings (marriage loops pull their families together)
+    this.reduceCrossings(sortedGenerations);
+
+    // Step 5: Calculate initial positions
     this.calculatePositions(sortedGenerations, pedigree, result);
 
-    // Step 5: Adjust parent positions to be centered above children
+    // Step 6: Adjust parent positions to be centered above children
     // This is important for newly added parents
     this.adjustParentPositions(sortedGenerations, result, pedigree);
 
-    // Step 6: Adjust children positions to be centered under parents
+    // Step 7: Adjust children positions to be centered under parents
     this.adjustChildrenPositions(sortedGenerations, result, pedigree);
 
-    // Step 7: Resolve collisions for all generations
+    // Step 8: Resolve collisions for all generations
     const genKeys = Array.from(generations.keys()).sort((a, b) => a - b);
     for (const gen of genKeys) {
       // Multiple passes to ensure all collisions are resolved
@@ -84,7 +125,7 @@ export class PedigreeLayout {
       }
     }
 
-    // Step 8: Center the layout
+    // Step 9: Center the layout
     this.centerLayout(result);
 
     return result;
@@ -306,7 +347,9 @@ export class PedigreeLayout {
     const genKeys = Array.from(generations.keys()).sort((a, b) => a - b);
 
     for (const gen of genKeys) {
-      const persons = generations.get(gen) ?? [];
+      // Children follow the left-to-right order of their parents' unions
+      const persons = this.orderByParents(generations.get(gen) ?? [], result);
+      generations.set(gen, persons);
       const y = gen * (this.options.nodeHeight + verticalSpacing);
 
       let currentX = 0;
@@ -316,21 +359,17 @@ export class PedigreeLayout {
         const prevPerson = i > 0 ? persons[i - 1] : null;
 
         // Determine spacing
-        let spacing = horizontalSpacing;
-        if (prevPerson) {
-          if (prevPerson.spouseIds.includes(person.id) ||
-              person.spouseIds.includes(prevPerson.id)) {
-            spacing = spouseSpacing;
-          }
-        }
+        const besideSpouse = prevPerson !== null && this.areSpouses(prevPerson, person);
+        const spacing = besideSpouse ? spouseSpacing : horizontalSpacing;
 
         if (i > 0) {
           currentX += spacing + nodeWidth;
         }
 
-        // Try to center under parents if they exist
+        // Try to center under parents if they exist (a partner from another
+        // sibship stays beside their spouse)
         const parentX = this.getParentCenterX(person, result);
-        if (parentX !== null && gen > 0) {
+        if (parentX !== null && gen > 0 && !besideSpouse) {
           // Check if this position doesn't overlap
           const desiredX = parentX;
           if (desiredX >= currentX) {
@@ -356,6 +395,250 @@ export class PedigreeLayout {
     // Note: adjustChildrenPositions is now called separately in layout()
   }
 
+  /**
+   * Reorder a generation so each sibship sits under its parents' union
+   * Couples stay together; married-in spouses (no parents) keep their partner's place.
+   */
+  private orderByParents(persons: Person[], positions: Map<string, LayoutNode>): Person[] {
+    return this.orderBlocksByParents(
+      this.splitIntoCouples(persons),
+      person => this.getParentCenterX(person, positions)
+    );
+  }
+
+  /**
+   * Order blocks of spouses by where their parents are
+   * A block whose partners come from two sibships is keyed between them,
+   * with each partner on the side of their own family.
+   * Blocks without parents inherit the previous key.
+   */
+  private orderBlocksByParents(blocks: Person[][], parentCenter: (person: Person) => number | null): Person[] {
+    let previousKey = -Infinity;
+    const keyed = blocks.map((block, index) => {
+      const centers = block.map(parentCenter);
+      const known = centers.filter((x): x is number => x !== null);
+      const key = known.length > 0 ? known.reduce((sum, x) => sum + x, 0) / known.length : previousKey;
+      previousKey = key;
+
+      if (block.length === 2 && known.length === 2 && centers[1]! < centers[0]!) {
+        block = [block[1], block[0]];
+      }
+      return { block, key, index };
+    });
+
+    keyed.sort((a, b) => a.key - b.key || a.index - b.index);
+    return keyed.flatMap(k => k.block);
+  }
+
+  /**
+   * Split a generation into blocks of adjacent spouses
+   */
+  private splitIntoCouples(persons: Person[]): Person[][] {
+    const blocks: Person[][] = [];
+    for (const person of persons) {
+      const last = blocks[blocks.length - 1];
+      const previous = last?.[last.length - 1];
+      if (previous && this.areSpouses(previous, person)) {
+        last.push(person);
+      } else {
+        blocks.push([person]);
+      }
+    }
+    return blocks;
+  }
+
+  private areSpouses(a: Person, b: Person): boolean {
+    return a.spouseIds.includes(b.id) || b.spouseIds.includes(a.id);
+  }
+
+  /**
+   * Reorder generations to reduce crossing parent-child lines
+   * Barycenter sweeps: down, each generation follows its parents; up, siblings
+   * are reordered towards their children. Adjacent siblings are then swapped
+   * wherever that removes crossings, which is what brings the two related
+   * lines of a marriage loop next to each other. The ordering with the
+   * fewest crossings is kept.
+   */
+  private reduceCrossings(generations: Map<number, Person[]>): void {
+    const genKeys = Array.from(generations.keys()).sort((a, b) => a - b);
+    const indexOf = (gen: number) => new Map((generations.get(gen) ?? []).map((p, i) => [p.id, i]));
+
+    const sweepDown = () => {
+      for (let i = 1; i < genKeys.length; i++) {
+        generations.set(genKeys[i], this.followParents(generations.get(genKeys[i]) ?? [], generations.get(genKeys[i - 1]) ?? []));
+      }
+    };
+
+    sweepDown();
+    let best = new Map(generations);
+    let bestCrossings = this.countCrossings(generations, genKeys);
+
+    for (let sweep = 0; sweep < CROSSING_SWEEPS && bestCrossings > 0; sweep++) {
+      for (let i = genKeys.length - 2; i >= 0; i--) {
+        generations.set(genKeys[i], this.orderTowardsChildren(generations.get(genKeys[i]) ?? [], indexOf(genKeys[i + 1])));
+      }
+      this.exchangeAdjacent(generations, genKeys);
+      sweepDown();
+
+      const crossings = this.countCrossings(generations, genKeys);
+      if (crossings < bestCrossings) {
+        best = new Map(generations);
+        bestCrossings = crossings;
+      }
+    }
+
+    for (const [gen, persons] of best) {
+      generations.set(gen, persons);
+    }
+  }
+
+  /**
+   * Order a generation by the positions of their parents in the one above
+   */
+  private followParents(persons: Person[], parents: Person[]): Person[] {
+    const parentIndex = new Map(parents.map((p, index) => [p.id, index]));
+    return this.orderBlocksByParents(this.splitIntoCouples(persons), person => {
+      const indices = [person.fatherId, person.motherId]
+        .map(id => (id ? parentIndex.get(id) : undefined))
+        .filter((x): x is number => x !== undefined);
+      return indices.length > 0 ? indices.reduce((sum, x) => sum + x, 0) / indices.length : null;
+    });
+  }
+
+  /**
+   * Swap neighbouring blocks of the same sibship, or the two partners of a
+   * couple, while that removes crossings with the generation above and the
+   * one below (which follows the swap)
+   */
+  private exchangeAdjacent(generations: Map<number, Person[]>, genKeys: number[]): void {
+    genKeys.forEach((gen, i) => {
+      const above = i > 0 ? generations.get(genKeys[i - 1]) : undefined;
+      const belowGen = i < genKeys.length - 1 ? genKeys[i + 1] : undefined;
+      const below = belowGen !== undefined ? generations.get(belowGen) : undefined;
+      const evaluate = (persons: Person[]) => {
+        const children = below ? this.followParents(below, persons) : undefined;
+        const crossings = (above ? this.crossingsBetween(above, persons) : 0) +
+          (children ? this.crossingsBetween(persons, children) : 0);
+        return { crossings, children };
+      };
+
+      const blocks = this.splitIntoCouples(generations.get(gen) ?? []);
+      let current = evaluate(blocks.flat());
+      let improved = current.crossings > 0;
+      while (improved) {
+        improved = false;
+        for (let j = 1; j < blocks.length; j++) {
+          if (this.sibshipKey(blocks[j - 1]) !== this.sibshipKey(blocks[j])) continue;
+
+          [blocks[j - 1], blocks[j]] = [blocks[j], blocks[j - 1]];
+          const swapped = evaluate(blocks.flat());
+          if (swapped.crossings < current.crossings) {
+            current = swapped;
+            improved = true;
+          } else {
+            [blocks[j - 1], blocks[j]] = [blocks[j], blocks[j - 1]];
+          }
+        }
+
+        for (const block of blocks) {
+          if (block.length !== 2) continue;
+
+          block.reverse();
+          const flipped = evaluate(blocks.flat());
+          if (flipped.crossings < current.crossings) {
+            current = flipped;
+            improved = true;
+          } else {
+            block.reverse();
+          }
+        }
+      }
+
+      generations.set(gen, blocks.flat());
+      if (belowGen !== undefined && current.children) {
+        generations.set(belowGen, current.children);
+      }
+    });
+  }
+
+  /**
+   * The parents of a block's members, as one key
+   */
+  private sibshipKey(block: Person[]): string {
+    return Array.from(new Set(
+      block.flatMap(p => [p.fatherId, p.motherId]).filter((id): id is string => id !== null)
+    )).sort().join(':');
+  }
+
+  /**
+   * Reorder the blocks of each sibship by the mean position of their children
+   * Blocks without children keep their place; sibships stay together.
+   */
+  private orderTowardsChildren(persons: Person[], childIndex: Map<string, number>): Person[] {
+    const blocks = this.splitIntoCouples(persons);
+
+    const result: Person[][] = [];
+    let start = 0;
+    while (start < blocks.length) {
+      const key = this.sibshipKey(blocks[start]);
+      let end = start + 1;
+      while (end < blocks.length && this.sibshipKey(blocks[end]) === key) end++;
+
+      const run = blocks.slice(start, end);
+      const barycenters = run.map(block => {
+        const indices = block
+          .flatMap(p => p.childrenIds)
+          .map(id => childIndex.get(id))
+          .filter((x): x is number => x !== undefined);
+        return indices.length > 0 ? indices.reduce((sum, x) => sum + x, 0) / indices.length : null;
+      });
+      const slots = run.map((_, i) => i).filter(i => barycenters[i] !== null);
+      const movable = [...slots].sort((a, b) => barycenters[a]! - barycenters[b]! || a - b);
+      const ordered = [...run];
+      slots.forEach((slot, i) => {
+        ordered[slot] = run[movable[i]];
+      });
+
+      result.push(...ordered);
+      start = end;
+    }
+
+    return result.flat();
+  }
+
+  /**
+   * Number of crossing parent-child lines between adjacent generations
+   */
+  private countCrossings(generations: Map<number, Person[]>, genKeys: number[]): number {
+    let crossings = 0;
+    for (let i = 1; i < genKeys.length; i++) {
+      crossings += this.crossingsBetween(generations.get(genKeys[i - 1]) ?? [], generations.get(genKeys[i]) ?? []);
+    }
+    return crossings;
+  }
+
+  private crossingsBetween(parents: Person[], children: Person[]): number {
+    const parentIndex = new Map(parents.map((p, index) => [p.id, index]));
+    const edges: [number, number][] = [];
+    // One line per child, from between their parents
+    children.forEach((child, childIndex) => {
+      const indices = [child.fatherId, child.motherId]
+        .map(id => (id ? parentIndex.get(id) : undefined))
+        .filter((x): x is number => x !== undefined);
+      if (indices.length > 0) {
+        edges.push([indices.reduce((sum, x) => sum + x, 0) / indices.length, childIndex]);
+      }
+    });
+
+    let crossings = 0;
+    for (let a = 0; a < edges.length; a++) {
+      for (let b = a + 1; b < edges.length; b++) {
+        if ((edges[a][0] - edges[b][0]) * (edges[a][1] - edges[b][1]) < 0) crossings++;
+      }
+    }
+    return crossings;
+  }
+
   /**
    * Get the center X position of a person's parents
    */
@@ -482,20 +765,24 @@ export class PedigreeLayout {
       const gen = genKeys[i];
       const persons = generations.get(gen) ?? [];
 
-      // Group siblings
-      const siblingGroups = this.groupSiblings(persons);
+      // Group siblings; sibships joined by a marriage move as one
+      const siblingGroups = this.joinMarriedSibships(this.groupSiblings(persons));
 
       for (const siblings of siblingGroups) {
         if (siblings.length === 0) continue;
 
-        // Find parent center
-        const firstSibling = siblings[0];
-        const parentCenter = this.getParentCenterX(firstSibling, positions);
-
-        if (parentCenter === null) continue;
+        // Find parent center (between both families for joined sibships)
+        const centers = Array.from(new Set(
+          siblings.map(s => this.getParentCenterX(s, positions)).filter((x): x is number => x !== null)
+        ));
+        if (centers.length === 0) continue;
+        const parentCenter = centers.reduce((sum, x) => sum + x, 0) / centers.length;
 
         // Calculate current sibling group center
-        const siblingPositions = siblings.map(s => positions.get(s.id)!).filter(p => p !== undefined);
+        const siblingPositions = siblings
+          .map(s => positions.get(s.id)!)
+          .filter(p => p !== undefined)
+          .sort((a, b) => a.x - b.x);
         if (siblingPositions.length === 0) continue;
 
         const currentCenter = (siblingPositions[0].x + siblingPositions[siblingPositions.length - 1].x) / 2;
@@ -546,40 +833,56 @@ export class PedigreeLayout {
     positions: Map<string, LayoutNode>,
     generation: number
   ): boolean {
+    return this.offsetCollision(siblings, positions, generation)(offset);
+  }
+
+  /**
+   * Collision test for moving siblings by any offset
+   * The rest of the generation is measured once, so the safe offset search
+   * below does not sort the whole generation again for every step.
+   */
+  private offsetCollision(
+    siblings: Person[],
+    positions: Map<string, LayoutNode>,
+    generation: number
+  ): (offset: number) => boolean {
     const { nodeWidth, horizontalSpacing } = this.options;
+    const minDistance = nodeWidth + horizontalSpacing;
     const siblingIds = new Set(siblings.map(s => s.id));
 
-    // Get all nodes in this generation
-    const genNodes = Array.from(positions.values())
-      .filter(node => node.generation === generation)
-      .sort((a, b) => a.x - b.x);
-
-    // Simulate the offset
-    const simulatedPositions = genNodes.map(node => ({
-      id: node.person.id,
-      x: siblingIds.has(node.person.id) ? node.x + offset : node.x,
-      isSpouse: (i: number) => {
-        if (i === 0) return false;
-        const prev = genNodes[i - 1];
-        return prev.person.spouseIds.includes(node.person.id) ||
-               node.person.spouseIds.includes(prev.person.id);
-      }
-    }));
-
-    simulatedPositions.sort((a, b) => a.x - b.x);
-
-    // Check for collisions
-    for (let i = 1; i < simulatedPositions.length; i++) {
-      const prev = simulatedPositions[i - 1];
-      const curr = simulatedPositions[i];
+    const moving: number[] = [];
+    const fixed: number[] = [];
+    for (const node of positions.values()) {
+      if (node.generation !== generation) continue;
+      (siblingIds.has(node.person.id) ? moving : fixed).push(node.x);
+    }
+    moving.sort((a, b) => a - b);
+    fixed.sort((a, b) => a - b);
 
-      const minDistance = nodeWidth + horizontalSpacing;
-      if (curr.x - prev.x < minDistance) {
-        return true;
+    // Nodes that stay put may already be too close to each other
+    for (let i = 1; i < fixed.length; i++) {
+      if (fixed[i] - fixed[i - 1] < minDistance) {
+        return () => true;
       }
     }
 
-    return false;
+    return (offset: number) => {
+      const moved = moving.map(x => x + offset);
+      for (let i = 1; i < moved.length; i++) {
+        if (moved[i] - moved[i - 1] < minDistance) return true;
+      }
+      // Nearest fixed node on either side of each moved one
+      return moved.some(x => {
+        let low = 0;
+        let high = fixed.length;
+        while (low < high) {
+          const mid = (low + high) >> 1;
+          if (fixed[mid] < x) low = mid + 1; else high = mid;
+        }
+        return (low < fixed.length && fixed[low] - x < minDistance) ||
+          (low > 0 && x - fixed[low - 1] < minDistance);
+      });
+    };
   }
 
   /**
@@ -593,10 +896,11 @@ export class PedigreeLayout {
   ): number {
     // Binary search for the maximum safe offset
     const step = desiredOffset > 0 ? 5 : -5;
+    const collides = this.offsetCollision(siblings, positions, generation);
     let safeOffset = 0;
 
     for (let testOffset = 0; Math.abs(testOffset) < Math.abs(desiredOffset); testOffset += step) {
-      if (!this.checkOffsetCollision(siblings, testOffset, positions, generation)) {
+      if (!collides(testOffset)) {
         safeOffset = testOffset;
       } else {
         break;
@@ -628,10 +932,41 @@ export class PedigreeLayout {
     return groups;
   }
 
+  /**
+   * Merge sibships whose members are married to each other (e.g. cousins
+   * in a consanguineous loop), so centering does not pull the couple apart
+   */
+  private joinMarriedSibships(groups: Person[][]): Person[][] {
+    const groupOf = new Map<string, number>();
+    groups.forEach((group, index) => {
+      if (group.some(p => p.fatherId || p.motherId)) {
+        group.forEach(p => groupOf.set(p.id, index));
+      }
+    });
+
+    const root = groups.map((_, index) => index);
+    const find = (index: number): number => (root[index] === index ? index : (root[index] = find(root[index])));
+    for (const [personId, index] of groupOf) {
+      const person = groups[index].find(p => p.id === personId)!;
+      for (const spouseId of person.spouseIds) {
+        const other = groupOf.get(spouseId);
+        if (other !== undefined) root[find(other)] = find(index);
+      }
+    }
+
+    const joined = new Map<number, Person[]>();
+    groups.forEach((group, index) => {
+      const key = find(index);
+      joined.set(key, [...(joined.get(key) ?? []), ...group]);
+    });
+    return Array.from(joined.values());
+  }
+
   /**
    * Build family units from relationships
+   * Public so analyses can walk the same couple/children structure the layout uses.
    */
-  private buildFamilyUnits(pedigree: Pedigree): FamilyUnit[] {
+  buildFamilyUnits(pedigree: Pedigree): FamilyUnit[] {
     const familyUnits: FamilyUnit[] = [];
     const processedRelationships = new Set<string>();
 
@@ -917,6 +1252,10 @@ export class PedigreeLayout {
   getOptions(): LayoutOptions {
     return { ...this.options };
   }
+
+  clearCache(): void {
+    this.cache.clear();
+  }
 }
 
 export const pedigreeLayout = new PedigreeLayout();
@@ -0,0 +1,81 @@
+/**
+ * Layout Engine Registry
+ *
+ * One shared instance per engine, all kept on the same options. The
+ * pedigree's saved layout selection picks which one draws it. Copies
+ * drawn instead of the document get engines of their own, so they do not
+ * push the document's arrangements out of the layout cache.
+ */
+
+import type { Pedigree, LayoutOptions } from '@/core/model/types';
+import { LayoutEngineId } from '@/core/model/types';
+import type { LayoutEngine } from './LayoutEngine';
+import { PedigreeLayout, pedigreeLayout } from './PedigreeLayout';
+import { DescendantChartLayout } from './DescendantChartLayout';
+import { AncestorChartLayout } from './AncestorChartLayout';
+import { HorizontalLayout } from './HorizontalLayout';
+
+/**
+ * New engine of the given kind
+ */
+export function createLayoutEngine(id: LayoutEngineId, options: Partial<LayoutOptions> = {}): LayoutEngine {
+  switch (id) {
+    case LayoutEngineId.Descendants:
+      return new DescendantChartLayout(options);
+    case LayoutEngineId.Ancestors:
+      return new AncestorChartLayout(options);
+    case LayoutEngineId.Horizontal:
+      return new HorizontalLayout(options);
+    case LayoutEngineId.Generations:
+      return new PedigreeLayout(options);
+  }
+}
+
+const engines = new Map<LayoutEngineId, LayoutEngine>([[LayoutEngineId.Generations, pedigreeLayout]]);
+
+/**
+ * Shared engine of the given kind
+ */
+export function getLayoutEngine(id: LayoutEngineId): LayoutEngine {
+  let engine = engines.get(id);
+  if (!engine) {
+    engine = createLayoutEngine(id, pedigreeLayout.getOptions());
+    engines.set(id, engine);
+  }
+  return engine;
+}
+
+const viewEngines = new Map<LayoutEngineId, LayoutEngine>();
+
+/**
+ * Engine for a copy drawn in place of the document (privacy preview,
+ * collapsed branches): same options as the shared one, its own cache
+ */
+export function viewLayoutEngineFor(pedigree: Pedigree): LayoutEngine {
+  const id = pedigree.layoutSelection?.engine ?? LayoutEngineId.Generations;
+  let engine = viewEngines.get(id);
+  if (!engine) {
+    engine = createLayoutEngine(id, pedigreeLayout.getOptions());
+    viewEngines.set(id, engine);
+  }
+  return engine;
+}
+
+/**
+ * Engine the pedigree is drawn with
+ */
+export function layoutEngineFor(pedigree: Pedigree): LayoutEngine {
+  return getLayoutEngine(pedigree.layoutSelection?.engine ?? LayoutEngineId.Generations);
+}
+
+/**
+ * Update the options of every engine
+ */
+export function setLayoutOptions(options: Partial<LayoutOptions>): void {
+  for (const id of Object.values(LayoutEngineId)) {
+    getLayoutEngine(id).setOptions(options);
+  }
+  for (const engine of viewEngines.values()) {
+    engine.setOptions(options);
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * Local Edits
+ *
+ * Places a new child, sibling or partner into the last generation layout
+ * instead of arranging the whole chart again:
+ * - A child goes right of their siblings (and the siblings' partners), or
+ *   under their parents when they are the first
+ * - A partner goes right of the person and their partners
+ * - A person without relatives goes at the end of the first generation
+ *
+ * Everything right of the newcomer in their generation, and below it,
+ * moves over as one block to make room; the rest of the chart stays put.
+ */
+
+import type { Pedigree, Person, LayoutOptions, LayoutNode } from '@/core/model/types';
+import type { LocalEdit } from './LayoutCache';
+
+export function placeLocalEdit(
+  positions: Map<string, LayoutNode>,
+  pedigree: Pedigree,
+  edit: LocalEdit,
+  options: LayoutOptions
+): boolean {
+  if (positions.size === 0) return false;
+
+  switch (edit.kind) {
+    case 'children':
+      return edit.personIds.every(id => placeChild(positions, pedigree.persons.get(id)!, options));
+    case 'person':
+      return placeUnlinked(positions, pedigree.persons.get(edit.personId)!, options);
+    case 'partner':
+      return placePartner(positions, pedigree.persons.get(edit.personId)!, edit.partnerId, options);
+  }
+}
+
+function placeChild(positions: Map<string, LayoutNode>, child: Person, options: LayoutOptions): boolean {
+  const parents = [child.fatherId, child.motherId]
+    .map(id => (id ? positions.get(id) : undefined))
+    .filter((node): node is LayoutNode => node !== undefined);
+  if (parents.length === 0) return false;
+
+  const generation = Math.max(...parents.map(parent => parent.generation)) + 1;
+  const row = rowOf(positions, generation);
+  const minDistance = options.nodeWidth + options.horizontalSpacing;
+
+  const siblings = row.filter(node =>
+    node.person.id !== child.id &&
+    node.person.fatherId === child.fatherId &&
+    node.person.motherId === child.motherId
+  );
+
+  let split: number;
+  let x: number;
+  if (siblings.length > 0) {
+    // After the last sibling and whoever they are married to
+    split = withPartners(row, siblings[siblings.length - 1]).x;
+    x = split + minDistance;
+  } else {
+    // Under the parents, clear of anyone already there on the left
+    split = parents.reduce((sum, parent) => sum + parent.x, 0) / parents.length;
+    const left = row.filter(node => node.x <= split).pop();
+    x = left ? Math.max(split, left.x + minDistance) : split;
+  }
+
+  makeRoom(positions, generation, split, x + minDistance);
+  add(positions, child, x, rowY(positions, generation, options), generation);
+  return true;
+}
+
+function placePartner(
+  positions: Map<string, LayoutNode>,
+  person: Person,
+  partnerId: string,
+  options: LayoutOptions
+): boolean {
+  const partner = positions.get(partnerId);
+  if (!partner) return false;
+
+  const previous = positions.get(person.id);
+  positions.delete(person.id);
+  if (previous) renumber(positions, previous.generation);
+
+  const row = rowOf(positions, partner.generation);
+  const split = withPartners(row, partner).x;
+  const x = split + options.nodeWidth + options.spouseSpacing;
+
+  makeRoom(positions, partner.generation, split, x + options.nodeWidth + options.horizontalSpacing);
+  add(positions, person, x, partner.y, partner.generation);
+  return true;
+}
+
+function placeUnlinked(positions: Map<string, LayoutNode>, person: Person, options: LayoutOptions): boolean {
+  const row = rowOf(positions, 0);
+  const last = row[row.length - 1];
+  const x = last ? last.x + options.nodeWidth + options.horizontalSpacing : 0;
+  add(positions, person, x, rowY(positions, 0, options), 0);
+  return true;
+}
+
+/**
+ * Nodes of a generation, left to right
+ */
+function rowOf(positions: Map<string, LayoutNode>, generation: number): LayoutNode[] {
+  return Array.from(positions.values())
+    .filter(node => node.generation === generation)
+    .sort((a, b) => a.x - b.x);
+}
+
+function rowY(positions: Map<string, LayoutNode>, generation: number, options: LayoutOptions): number {
+  const node = positions.values().next().value!;
+  return node.y + (generation - node.generation) * (options.nodeHeight + options.verticalSpacing);
+}
+
+/**
+ * The node and the partners placed straight after it
+ * Returns the rightmost of them.
+ */
+function withPartners(row: LayoutNode[], node: LayoutNode): LayoutNode {
+  let last = node;
+  for (let i = row.indexOf(node) + 1; i < row.length && node.person.spouseIds.includes(row[i].person.id); i++) {
+    last = row[i];
+  }
+  return last;
+}
+
+/**
+ * Move everything right of the split, in the generation and below, so the
+ * generation's first node right of it is at least at the given x
+ */
+function makeRoom(positions: Map<string, LayoutNode>, generation: number, split: number, clearFrom: number): void {
+  const next = rowOf(positions, generation).find(node => node.x > split);
+  const shift = next ? clearFrom - next.x : 0;
+  if (shift <= 0) return;
+
+  for (const node of positions.values()) {
+    if (node.generation >= generation && node.x > split) {
+      node.x += shift;
+      node.person.x = node.x;
+    }
+  }
+}
+
+function add(positions: Map<string, LayoutNode>, person: Person, x: number, y: number, generation: number): void {
+  person.x = x;
+  person.y = y;
+  person.generation = generation;
+  positions.set(person.id, { person, x, y, generation, order: 0 });
+  renumber(positions, generation);
+}
+
+function renumber(positions: Map<string, LayoutNode>, generation: number): void {
+  rowOf(positions, generation).forEach((node, index) => {
+    node.order = index;
+  });
+}
@@ -0,0 +1,80 @@
+/**
+ * Pinned Positions
+ *
+ * Shared by every layout engine: persons dragged by hand keep their pin and
+ * the rest of the chart is placed around them.
+ */
+
+import type { LayoutOptions, LayoutNode, LayoutOrientation } from '@/core/model/types';
+
+/**
+ * Move pinned persons to their pins
+ * Everyone else keeps their laid-out position. Unpinned persons a pin
+ * lands on step aside along their row, away from the pin, and push their
+ * row neighbours along only as far as needed to keep them clear.
+ */
+export function applyPins(
+  positions: Map<string, LayoutNode>,
+  options: LayoutOptions,
+  orientation: LayoutOrientation = 'vertical'
+): void {
+  const pinned: LayoutNode[] = [];
+  for (const node of positions.values()) {
+    const pin = node.person.pin;
+    if (!pin) continue;
+    node.x = pin.x;
+    node.y = pin.y;
+    pinned.push(node);
+  }
+  if (pinned.length === 0) return;
+
+  // Rows run along the generation: x in vertical charts, y in horizontal ones
+  const along = orientation === 'vertical' ? 'x' : 'y';
+  const across = orientation === 'vertical' ? 'y' : 'x';
+  const { nodeWidth, nodeHeight, horizontalSpacing } = options;
+  const minDistance = nodeWidth + horizontalSpacing;
+
+  const rows = new Map<number, LayoutNode[]>();
+  for (const node of positions.values()) {
+    if (node.person.pin) continue;
+    if (!rows.has(node[across])) rows.set(node[across], []);
+    rows.get(node[across])!.push(node);
+  }
+
+  for (const [level, row] of rows) {
+    const pins = pinned.filter(pin => Math.abs(pin[across] - level) < nodeHeight);
+    if (pins.length === 0) continue;
+
+    // A pin on the node; with a side, only one the node sits on that side of
+    const pinOn = (node: LayoutNode, side?: 1 | -1) => pins.find(pin => {
+      const offset = node[along] - pin[along];
+      return Math.abs(offset) < minDistance &&
+        (side === undefined || (side === 1 ? offset >= 0 : offset < 0));
+    });
+
+    // Rightwards (downwards) first, then leftwards (upwards)
+    for (const side of [1, -1] as const) {
+      const ordered = [...row].sort((a, b) => side * (a[along] - b[along]));
+      let pushedBy: LayoutNode | undefined;
+      for (const node of ordered) {
+        let moved = false;
+        if (pushedBy && side * (node[along] - pushedBy[along]) < minDistance) {
+          node[along] = pushedBy[along] + side * minDistance;
+          moved = true;
+        }
+        let pin = pinOn(node, moved ? undefined : side);
+        while (pin) {
+          node[along] = pin[along] + side * minDistance;
+          moved = true;
+          pin = pinOn(node);
+        }
+        pushedBy = moved ? node : undefined;
+      }
+    }
+  }
+
+  for (const node of positions.values()) {
+    node.person.x = node.x;
+    node.person.y = node.y;
+  }
+}
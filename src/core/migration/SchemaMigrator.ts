@@ -0,0 +1,110 @@
+/**
+ * Schema Migrator
+ *
+ * Upgrades older native documents step by step to the current model,
+ * keyed on Pedigree.metadata.version.
+ */
+
+import { type MigrationStep, CURRENT_SCHEMA_VERSION } from '@/core/model/types';
+import { type Migration, type JsonObject, MIGRATIONS } from './migrations';
+
+export interface MigrationResult {
+  document: JsonObject;
+  steps: MigrationStep[];
+}
+
+/**
+ * Compare two MAJOR.MINOR.PATCH versions
+ * Returns negative if a < b, positive if a > b, 0 if equal
+ */
+export function compareVersions(a: string, b: string): number {
+  const partsA = a.split('.').map(Number);
+  const partsB = b.split('.').map(Number);
+
+  for (let i = 0; i < 3; i++) {
+    const diff = (partsA[i] ?? 0) - (partsB[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+
+  return 0;
+}
+
+export class SchemaMigrator {
+  private migrations = new Map<string, Migration>();
+  private targetVersion: string;
+
+  constructor(migrations: Migration[] = MIGRATIONS, targetVersion: string = CURRENT_SCHEMA_VERSION) {
+    this.targetVersion = targetVersion;
+    for (const migration of migrations) {
+      this.register(migration);
+    }
+  }
+
+  /**
+   * Register a migration (one per source version)
+   */
+  register(migration: Migration): void {
+    if (this.migrations.has(migration.from)) {
+      throw new Error(`A migration from version ${migration.from} is already registered`);
+    }
+    this.migrations.set(migration.from, migration);
+  }
+
+  /**
+   * Check whether a document at the given version needs upgrading
+   */
+  needsMigration(version: string): boolean {
+    return compareVersions(version, this.targetVersion) < 0;
+  }
+
+  /**
+   * Upgrade a raw document to the target version.
+   * The input is not modified; a migrated copy is returned.
+   * Throws if the version is newer than supported or has no migration path.
+   */
+  migrate(document: JsonObject): MigrationResult {
+    const migrated = structuredClone(document);
+    const steps: MigrationStep[] = [];
+
+    const pedigree = migrated.pedigree as JsonObject | undefined;
+    const metadata = pedigree?.metadata as JsonObject | undefined;
+    if (!pedigree || !metadata || typeof metadata.version !== 'string') {
+      // Nothing to key on; let validation report the missing fields
+      return { document: migrated, steps };
+    }
+
+    let version = metadata.version;
+
+    if (!/^\d+\.\d+\.\d+$/.test(version)) {
+      throw new Error(`Invalid schema version "${version}" (expected MAJOR.MINOR.PATCH)`);
+    }
+
+    if (compareVersions(version, this.targetVersion) > 0) {
+      throw new Error(
+        `Schema version ${version} is newer than the supported version ${this.targetVersion}`
+      );
+    }
+
+    while (this.needsMigration(version)) {
+      const migration = this.migrations.get(version);
+      if (!migration) {
+        throw new Error(`No migration path from schema version ${version} to ${this.targetVersion}`);
+      }
+
+      const changes = migration.migrate(pedigree);
+      steps.push({
+        from: migration.from,
+        to: migration.to,
+        description: migration.description,
+        changes,
+      });
+
+      version = migration.to;
+      metadata.version = version;
+    }
+
+    return { document: migrated, steps };
+  }
+}
+
+export const schemaMigrator = new SchemaMigrator();
@@ -0,0 +1,106 @@
+/**
+ * Schema Migrations
+ *
+ * Each migration upgrades a serialized pedigree (the "pedigree" object of a
+ * native document, still raw JSON) from one schema version to the next.
+ * Migrations mutate the object in place and return a list of the changes made.
+ *
+ * When the model in types.ts changes shape, bump CURRENT_SCHEMA_VERSION and
+ * append a migration here from the previous version.
+ */
+
+import { PartnershipStatus } from '@/core/model/types';
+
+export type JsonObject = Record<string, unknown>;
+
+export interface Migration {
+  from: string;
+  to: string;
+  description: string;
+  migrate: (pedigree: JsonObject) => string[];
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * 1.0.0 -> 1.1.0: replace the legacy Relationship.isSeparated flag
+ */
+const migrateIsSeparated: Migration = {
+  from: '1.0.0',
+  to: '1.1.0',
+  description: 'Replace legacy isSeparated flag with partnershipStatus',
+  migrate: (pedigree) => {
+    const changes: string[] = [];
+    const relationships = Array.isArray(pedigree.relationships) ? pedigree.relationships : [];
+
+    for (const relationship of relationships) {
+      if (!isObject(relationship) || !('isSeparated' in relationship)) continue;
+
+      const isSeparated = relationship.isSeparated === true;
+      delete relationship.isSeparated;
+
+      if (isSeparated && relationship.partnershipStatus === undefined) {
+        relationship.partnershipStatus = PartnershipStatus.Separated;
+        changes.push(`Relationship ${String(relationship.id)}: isSeparated -> partnershipStatus "${PartnershipStatus.Separated}"`);
+      } else {
+        changes.push(`Relationship ${String(relationship.id)}: removed isSeparated`);
+      }
+    }
+
+    return changes;
+  },
+};
+
+/**
+ * 1.1.0 -> 1.2.0: birth and death years become partial dates
+ */
+const migrateYearsToDates: Migration = {
+  from: '1.1.0',
+  to: '1.2.0',
+  description: 'Replace birthYear/deathYear with birthDate/deathDate',
+  migrate: (pedigree) => {
+    const changes: string[] = [];
+    const persons = Array.isArray(pedigree.persons) ? pedigree.persons : [];
+
+    for (const person of persons) {
+      if (!isObject(person) || !isObject(person.metadata)) continue;
+      const metadata = person.metadata;
+
+      for (const [yearKey, dateKey] of [['birthYear', 'birthDate'], ['deathYear', 'deathDate']] as const) {
+        if (!(yearKey in metadata)) continue;
+
+        const year = metadata[yearKey];
+        delete metadata[yearKey];
+
+        if (typeof year === 'number' && metadata[dateKey] === undefined) {
+          metadata[dateKey] = { year };
+          changes.push(`Person ${String(person.id)}: ${yearKey} ${year} -> ${dateKey}`);
+        } else {
+          changes.push(`Person ${String(person.id)}: removed ${yearKey}`);
+        }
+      }
+    }
+
+    return changes;
+  },
+};
+
+/**
+ * 1.2.0 -> 1.3.0: optional fields only (trait catalogue, pins, branch view,
+ * layout selection, chart settings, as-of date, affected threshold)
+ * Older documents already read correctly; nothing to convert.
+ */
+const addOptionalFields: Migration = {
+  from: '1.2.0',
+  to: '1.3.0',
+  description: 'Add traits, pins, view, layout selection, chart settings, as-of date and affected threshold',
+  migrate: () => [],
+};
+
+export const MIGRATIONS: Migration[] = [
+  migrateIsSeparated,
+  migrateYearsToDates,
+  addOptionalFields,
+];
@@ -0,0 +1,373 @@
+/**
+ * Branch View
+ *
+ * The part of a pedigree the chart shows (see PedigreeView):
+ * - Collapsed branches are hidden and stand behind a placeholder node
+ *   drawn with the number of hidden persons ("+5")
+ * - Partners left without any shown relative are hidden with them
+ * - Focus mode keeps only the proband's ancestors, descendants and
+ *   first-degree relatives (with the other parents of their children)
+ *
+ * The layout runs over the visible copy; the pedigree itself is unchanged.
+ */
+
+import {
+  type Pedigree,
+  type Person,
+  type Relationship,
+  type CollapsedBranch,
+  type PedigreeView,
+  BranchDirection,
+  Sex,
+  createPerson,
+} from './types';
+
+export interface BranchPlaceholder {
+  branch: CollapsedBranch;  // Expanded when the placeholder is clicked
+  hiddenCount: number;
+}
+
+export interface VisiblePedigree {
+  pedigree: Pedigree;
+  placeholders: Map<string, BranchPlaceholder>;  // By placeholder person ID
+}
+
+const PLACEHOLDER_PREFIX = 'placeholder:';
+
+/**
+ * The visible copy of a pedigree, or the pedigree itself when nothing is hidden
+ */
+export function visiblePedigree(pedigree: Pedigree): VisiblePedigree {
+  const view = pedigree.view;
+  if (!view || (view.collapsed.length === 0 && !view.focus)) {
+    return { pedigree, placeholders: new Map() };
+  }
+
+  // Each hidden person remembers the branch that hid them
+  const hiddenBy = new Map<string, CollapsedBranch>();
+  const anchors = new Set<string>();
+  for (const branch of view.collapsed) {
+    if (!pedigree.persons.has(branch.personId) || hiddenBy.has(branch.personId)) continue;
+    anchors.add(branch.personId);
+    for (const id of branchMembers(pedigree, branch)) {
+      if (!hiddenBy.has(id)) hiddenBy.set(id, branch);
+    }
+  }
+  hideStranded(pedigree, hiddenBy, anchors);
+
+  let shown = new Set(Array.from(pedigree.persons.keys()).filter(id => !hiddenBy.has(id)));
+  const focus = view.focus ? focusSet(pedigree) : null;
+  if (focus) {
+    shown = new Set(Array.from(shown).filter(id => focus.has(id)));
+  }
+
+  const copy = restrict(pedigree, shown);
+  const placeholders = addPlaceholders(pedigree, copy, hiddenBy);
+  return { pedigree: copy, placeholders };
+}
+
+export function isPlaceholderId(id: string): boolean {
+  return id.startsWith(PLACEHOLDER_PREFIX);
+}
+
+export function isBranchCollapsed(pedigree: Pedigree, personId: string, direction: BranchDirection): boolean {
+  return pedigree.view?.collapsed.some(b => b.personId === personId && b.direction === direction) ?? false;
+}
+
+/**
+ * The person focus mode centres on: the first proband
+ */
+export function findProband(pedigree: Pedigree): Person | undefined {
+  return Array.from(pedigree.persons.values()).find(person => person.status.isProband);
+}
+
+/**
+ * Collapse a branch, or expand it when it is collapsed
+ */
+export function toggleBranch(draft: Pedigree, personId: string, direction: BranchDirection): void {
+  if (!draft.persons.has(personId)) {
+    throw new Error(`Person ${personId} not found`);
+  }
+
+  // Drop branches of persons that no longer exist
+  const collapsed = (draft.view?.collapsed ?? []).filter(b => draft.persons.has(b.personId));
+  const index = collapsed.findIndex(b => b.personId === personId && b.direction === direction);
+  if (index >= 0) {
+    collapsed.splice(index, 1);
+  } else {
+    collapsed.push({ personId, direction });
+  }
+
+  setView(draft, { ...draft.view, collapsed });
+}
+
+export function setFocus(draft: Pedigree, focus: boolean): void {
+  if (focus && !findProband(draft)) {
+    throw new Error('Mark a proband to focus on');
+  }
+  setView(draft, { collapsed: draft.view?.collapsed ?? [], focus });
+}
+
+/**
+ * Show everyone again
+ */
+export function expandAll(draft: Pedigree): void {
+  delete draft.view;
+}
+
+/**
+ * Drop what the view says about persons no longer in the pedigree
+ * Branches of removed persons go, and focus ends with the last proband.
+ */
+export function pruneView(draft: Pedigree): void {
+  if (!draft.view) return;
+  setView(draft, {
+    collapsed: draft.view.collapsed.filter(b => draft.persons.has(b.personId)),
+    focus: draft.view.focus && findProband(draft) !== undefined,
+  });
+}
+
+function setView(draft: Pedigree, view: PedigreeView): void {
+  if (view.collapsed.length === 0 && !view.focus) {
+    delete draft.view;
+    return;
+  }
+  draft.view = view.focus ? view : { collapsed: view.collapsed };
+}
+
+function branchMembers(pedigree: Pedigree, branch: CollapsedBranch): Set<string> {
+  const { personId, direction } = branch;
+  if (direction === BranchDirection.Descendants) {
+    return descendants(pedigree, personId);
+  }
+
+  const ancestorIds = ancestors(pedigree, personId);
+  const directLine = new Set([personId, ...descendants(pedigree, personId)]);
+  const members = new Set<string>();
+
+  for (const ancestorId of ancestorIds) {
+    if (direction === BranchDirection.Ancestors) members.add(ancestorId);
+    for (const id of descendants(pedigree, ancestorId)) {
+      if (!directLine.has(id) && !ancestorIds.has(id)) members.add(id);
+    }
+  }
+  return members;
+}
+
+/**
+ * Hide persons whose relatives are all hidden (partners of hidden persons),
+ * except the persons a branch was collapsed on
+ */
+function hideStranded(pedigree: Pedigree, hiddenBy: Map<string, CollapsedBranch>, anchors: Set<string>): void {
+  let changed = hiddenBy.size > 0;
+  while (changed) {
+    changed = false;
+    for (const person of pedigree.persons.values()) {
+      if (hiddenBy.has(person.id) || anchors.has(person.id)) continue;
+
+      const linked = relatives(pedigree, person);
+      if (linked.length > 0 && linked.every(id => hiddenBy.has(id))) {
+        hiddenBy.set(person.id, hiddenBy.get(linked[0])!);
+        changed = true;
+      }
+    }
+  }
+}
+
+/**
+ * Proband, their ancestors and descendants, their siblings, and the other
+ * parent of each descendant and sibling; null without a proband
+ */
+function focusSet(pedigree: Pedigree): Set<string> | null {
+  const proband = findProband(pedigree);
+  if (!proband) return null;
+
+  const lineage = new Set([proband.id, ...descendants(pedigree, proband.id)]);
+  for (const parentId of [proband.fatherId, proband.motherId]) {
+    const parent = parentId ? pedigree.persons.get(parentId) : undefined;
+    parent?.childrenIds.forEach(id => lineage.add(id));
+  }
+
+  const result = new Set([...lineage, ...ancestors(pedigree, proband.id)]);
+  for (const id of lineage) {
+    const person = pedigree.persons.get(id);
+    if (person?.fatherId) result.add(person.fatherId);
+    if (person?.motherId) result.add(person.motherId);
+  }
+  return result;
+}
+
+/**
+ * Copy of the shown persons with links to hidden persons removed
+ */
+function restrict(pedigree: Pedigree, shown: Set<string>): Pedigree {
+  const persons = new Map<string, Person>();
+  for (const id of shown) {
+    const person = pedigree.persons.get(id)!;
+    persons.set(id, {
+      ...person,
+      fatherId: person.fatherId && shown.has(person.fatherId) ? person.fatherId : null,
+      motherId: person.motherId && shown.has(person.motherId) ? person.motherId : null,
+      spouseIds: person.spouseIds.filter(spouseId => shown.has(spouseId)),
+      childrenIds: person.childrenIds.filter(childId => shown.has(childId)),
+    });
+  }
+
+  const relationships = new Map<string, Relationship>();
+  for (const [id, relationship] of pedigree.relationships) {
+    if (!shown.has(relationship.person1Id) || !shown.has(relationship.person2Id)) continue;
+    relationships.set(id, {
+      ...relationship,
+      childrenIds: relationship.childrenIds.filter(childId => shown.has(childId)),
+    });
+  }
+
+  return { ...pedigree, persons, relationships };
+}
+
+/**
+ * One placeholder for each shown couple or parent whose children are hidden,
+ * and one above each shown person whose parents are hidden
+ */
+function addPlaceholders(
+  pedigree: Pedigree,
+  copy: Pedigree,
+  hiddenBy: Map<string, CollapsedBranch>
+): Map<string, BranchPlaceholder> {
+  const placeholders = new Map<string, BranchPlaceholder>();
+  if (hiddenBy.size === 0) return placeholders;
+
+  const componentOf = hiddenComponents(pedigree, hiddenBy);
+  const create = (hiddenIds: string[]): Person => {
+    const components = new Map<string, number>();
+    for (const id of hiddenIds) {
+      const { root, size } = componentOf.get(id)!;
+      components.set(root, size);
+    }
+    const hiddenCount = Array.from(components.values()).reduce((sum, size) => sum + size, 0);
+
+    const placeholder = createPerson(`${PLACEHOLDER_PREFIX}${placeholders.size}`, pedigree.familyId, Sex.Unknown);
+    placeholder.metadata.label = `${hiddenCount} hidden`;
+    placeholders.set(placeholder.id, { branch: hiddenBy.get(hiddenIds[0])!, hiddenCount });
+    copy.persons.set(placeholder.id, placeholder);
+    return placeholder;
+  };
+
+  // Hidden children of shown couples
+  const placed = new Set<string>();
+  for (const [id, relationship] of copy.relationships) {
+    const hiddenChildren = pedigree.relationships.get(id)!.childrenIds.filter(childId => hiddenBy.has(childId));
+    if (hiddenChildren.length === 0) continue;
+
+    const placeholder = create(hiddenChildren);
+    const partners = [relationship.person1Id, relationship.person2Id].map(pid => copy.persons.get(pid)!);
+    const father = partners.find(p => p.sex === Sex.Male) ?? partners[0];
+    placeholder.fatherId = father.id;
+    placeholder.motherId = partners.find(p => p !== father)!.id;
+    relationship.childrenIds.push(placeholder.id);
+    partners.forEach(partner => partner.childrenIds.push(placeholder.id));
+    hiddenChildren.forEach(childId => placed.add(childId));
+  }
+
+  for (const person of Array.from(copy.persons.values())) {
+    if (isPlaceholderId(person.id)) continue;
+    const original = pedigree.persons.get(person.id)!;
+
+    // Hidden children of a parent shown without their partner
+    const hiddenChildren = original.childrenIds.filter(childId => hiddenBy.has(childId) && !placed.has(childId));
+    if (hiddenChildren.length > 0) {
+      const placeholder = create(hiddenChildren);
+      if (person.sex === Sex.Male) {
+        placeholder.fatherId = person.id;
+      } else {
+        placeholder.motherId = person.id;
+      }
+      person.childrenIds.push(placeholder.id);
+      hiddenChildren.forEach(childId => placed.add(childId));
+    }
+
+    // Hidden parents
+    const parentIds = [original.fatherId, original.motherId].filter(
+      (id): id is string => id !== null && pedigree.persons.has(id)
+    );
+    if (parentIds.length > 0 && parentIds.every(id => hiddenBy.has(id))) {
+      const placeholder = create(parentIds);
+      placeholder.childrenIds.push(person.id);
+      person.fatherId = placeholder.id;
+      person.motherId = null;
+    }
+  }
+
+  return placeholders;
+}
+
+/**
+ * Connected groups of hidden persons, so a placeholder counts everyone
+ * reachable behind it
+ */
+function hiddenComponents(
+  pedigree: Pedigree,
+  hiddenBy: Map<string, CollapsedBranch>
+): Map<string, { root: string; size: number }> {
+  const result = new Map<string, { root: string; size: number }>();
+
+  for (const start of hiddenBy.keys()) {
+    if (result.has(start)) continue;
+
+    const members: string[] = [];
+    const queue = [start];
+    const seen = new Set(queue);
+    while (queue.length > 0) {
+      const id = queue.pop()!;
+      members.push(id);
+      for (const next of relatives(pedigree, pedigree.persons.get(id)!)) {
+        if (hiddenBy.has(next) && !seen.has(next)) {
+          seen.add(next);
+          queue.push(next);
+        }
+      }
+    }
+
+    for (const id of members) {
+      result.set(id, { root: start, size: members.length });
+    }
+  }
+  return result;
+}
+
+function relatives(pedigree: Pedigree, person: Person): string[] {
+  return [person.fatherId, person.motherId, ...person.spouseIds, ...person.childrenIds]
+    .filter((id): id is string => id !== null && pedigree.persons.has(id));
+}
+
+function ancestors(pedigree: Pedigree, id: string): Set<string> {
+  const result = new Set<string>();
+  const queue = [id];
+  while (queue.length > 0) {
+    const person = pedigree.persons.get(queue.pop()!);
+    for (const parentId of [person?.fatherId, person?.motherId]) {
+      if (parentId && pedigree.persons.has(parentId) && !result.has(parentId)) {
+        result.add(parentId);
+        queue.push(parentId);
+      }
+    }
+  }
+  result.delete(id);
+  return result;
+}
+
+function descendants(pedigree: Pedigree, id: string): Set<string> {
+  const result = new Set<string>();
+  const queue = [id];
+  while (queue.length > 0) {
+    const person = pedigree.persons.get(queue.pop()!);
+    for (const childId of person?.childrenIds ?? []) {
+      if (pedigree.persons.has(childId) && !result.has(childId)) {
+        result.add(childId);
+        queue.push(childId);
+      }
+    }
+  }
+  result.delete(id);
+  return result;
+}
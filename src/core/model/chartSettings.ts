@@ -0,0 +1,126 @@
+/**
+ * Chart Settings
+ *
+ * Sizes, spacing and labels of the chart. Each document may set its own;
+ * whatever it leaves unset comes from the user's saved defaults, then from
+ * the built-in layout and render defaults.
+ *
+ * Like pedigreeEdits, setChartSettings mutates a draft and throws an Error
+ * when a value is out of range.
+ */
+
+import type { Pedigree, ChartSettings, LayoutOptions, RenderOptions } from './types';
+import { DEFAULT_LAYOUT_OPTIONS } from '@/core/layout/PedigreeLayout';
+
+type NumericSetting = {
+  [K in keyof ChartSettings]: ChartSettings[K] extends number ? K : never;
+}[keyof ChartSettings];
+
+export const DEFAULT_CHART_SETTINGS: ChartSettings = {
+  nodeWidth: DEFAULT_LAYOUT_OPTIONS.nodeWidth,
+  nodeHeight: DEFAULT_LAYOUT_OPTIONS.nodeHeight,
+  horizontalSpacing: DEFAULT_LAYOUT_OPTIONS.horizontalSpacing,
+  verticalSpacing: DEFAULT_LAYOUT_OPTIONS.verticalSpacing,
+  siblingSpacing: DEFAULT_LAYOUT_OPTIONS.siblingSpacing,
+  spouseSpacing: DEFAULT_LAYOUT_OPTIONS.spouseSpacing,
+  symbolSize: 40,
+  lineWidth: 2,
+  showLabels: true,
+  showGenerationNumbers: true,
+};
+
+/**
+ * Allowed range of every numeric setting, in pixels
+ */
+export const CHART_SETTING_LIMITS: Record<NumericSetting, { min: number; max: number }> = {
+  nodeWidth: { min: 20, max: 200 },
+  nodeHeight: { min: 20, max: 200 },
+  horizontalSpacing: { min: 0, max: 300 },
+  verticalSpacing: { min: 20, max: 400 },
+  siblingSpacing: { min: 0, max: 300 },
+  spouseSpacing: { min: 0, max: 300 },
+  symbolSize: { min: 10, max: 150 },
+  lineWidth: { min: 0.5, max: 10 },
+};
+
+/**
+ * Settings the chart is drawn with
+ * Nodes are never smaller than the symbols drawn in them.
+ */
+export function resolveChartSettings(
+  pedigree: Pedigree | null,
+  userDefaults: Partial<ChartSettings> = {}
+): ChartSettings {
+  const settings = { ...DEFAULT_CHART_SETTINGS, ...userDefaults, ...pedigree?.chartSettings };
+  settings.nodeWidth = Math.max(settings.nodeWidth, settings.symbolSize);
+  settings.nodeHeight = Math.max(settings.nodeHeight, settings.symbolSize);
+  return settings;
+}
+
+export function layoutOptionsOf(settings: ChartSettings): Omit<LayoutOptions, 'respectPins'> {
+  const { nodeWidth, nodeHeight, horizontalSpacing, verticalSpacing, siblingSpacing, spouseSpacing } = settings;
+  return { nodeWidth, nodeHeight, horizontalSpacing, verticalSpacing, siblingSpacing, spouseSpacing };
+}
+
+export function renderOptionsOf(
+  settings: ChartSettings
+): Pick<RenderOptions, 'symbolSize' | 'lineWidth' | 'showLabels' | 'showGenerationNumbers'> {
+  const { symbolSize, lineWidth, showLabels, showGenerationNumbers } = settings;
+  return { symbolSize, lineWidth, showLabels, showGenerationNumbers };
+}
+
+/**
+ * Change some of the document's settings
+ */
+export function setChartSettings(draft: Pedigree, updates: Partial<ChartSettings>): void {
+  for (const [key, value] of Object.entries(updates)) {
+    const error = settingError(key, value);
+    if (error) {
+      throw new Error(error);
+    }
+  }
+  draft.chartSettings = { ...draft.chartSettings, ...updates };
+}
+
+/**
+ * Drop the document's own settings so the user's defaults apply
+ */
+export function clearChartSettings(draft: Pedigree): void {
+  delete draft.chartSettings;
+}
+
+/**
+ * The valid settings in an untrusted object (e.g. read from storage)
+ */
+export function pickChartSettings(raw: unknown): Partial<ChartSettings> {
+  const picked: Record<string, unknown> = {};
+  if (typeof raw !== 'object' || raw === null) {
+    return picked;
+  }
+  for (const [key, value] of Object.entries(raw)) {
+    if (!settingError(key, value)) {
+      picked[key] = value;
+    }
+  }
+  return picked as Partial<ChartSettings>;
+}
+
+/**
+ * Why a value cannot be used for a setting, or null when it can
+ */
+export function settingError(key: string, value: unknown): string | null {
+  if (!(key in DEFAULT_CHART_SETTINGS)) {
+    return `Unknown chart setting ${key}`;
+  }
+  const expected = typeof DEFAULT_CHART_SETTINGS[key as keyof ChartSettings];
+  if (typeof value !== expected) {
+    return `Expected a ${expected} for ${key}`;
+  }
+  if (expected === 'number') {
+    const { min, max } = CHART_SETTING_LIMITS[key as NumericSetting];
+    if (!Number.isFinite(value) || (value as number) < min || (value as number) > max) {
+      return `${key} must be between ${min} and ${max}`;
+    }
+  }
+  return null;
+}
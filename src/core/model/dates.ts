@@ -0,0 +1,145 @@
+/**
+ * Dates and Ages
+ *
+ * Partial dates (year, year-month or full date, optionally approximate)
+ * and the NSGC age labels built from them:
+ * - "b. 1950" / "b. ~Mar 1950" for a birth date
+ * - "d. 67y" for the age at death
+ * - "42y", "8mo" or "10d" for a current age
+ */
+
+import type { PartialDate, Person } from './types';
+
+export interface Age {
+  value: number;
+  unit: 'y' | 'mo' | 'd';
+  approximate: boolean;
+}
+
+const DATE_PATTERN = /^(~)?\s*(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/;
+
+/**
+ * Parse "1950", "1950-03", "1950-03-14", each optionally prefixed with "~"
+ * Returns null when the text is not a valid date.
+ */
+export function parsePartialDate(text: string): PartialDate | null {
+  const match = DATE_PATTERN.exec(text.trim());
+  if (!match) return null;
+
+  const [, approximate, yearText, monthText, dayText] = match;
+  const date: PartialDate = { year: Number(yearText) };
+
+  if (monthText !== undefined) {
+    const month = Number(monthText);
+    if (month < 1 || month > 12) return null;
+    date.month = month;
+  }
+  if (dayText !== undefined) {
+    const day = Number(dayText);
+    if (day < 1 || day > daysInMonth(date.year, date.month!)) return null;
+    date.day = day;
+  }
+  if (approximate) {
+    date.approximate = true;
+  }
+
+  return date;
+}
+
+/**
+ * The editable form read by parsePartialDate, e.g. "~1950-03"
+ */
+export function partialDateToString(date: PartialDate): string {
+  const parts = [String(date.year).padStart(4, '0')];
+  if (date.month !== undefined) parts.push(String(date.month).padStart(2, '0'));
+  if (date.day !== undefined) parts.push(String(date.day).padStart(2, '0'));
+  return `${date.approximate ? '~' : ''}${parts.join('-')}`;
+}
+
+/**
+ * Locale-aware display form: "1950", "Mar 1950", "Mar 14, 1950"
+ */
+export function formatPartialDate(date: PartialDate, locale?: string): string {
+  const value = new Date(Date.UTC(date.year, (date.month ?? 1) - 1, date.day ?? 1));
+  // Years below 100 would otherwise be read as 19xx
+  value.setUTCFullYear(date.year);
+
+  const text = new Intl.DateTimeFormat(locale, {
+    timeZone: 'UTC',
+    year: 'numeric',
+    month: date.month !== undefined ? 'short' : undefined,
+    day: date.day !== undefined ? 'numeric' : undefined,
+  }).format(value);
+
+  return `${date.approximate ? '~' : ''}${text}`;
+}
+
+export function todayAsPartialDate(): PartialDate {
+  const now = new Date();
+  return { year: now.getFullYear(), month: now.getMonth() + 1, day: now.getDate() };
+}
+
+/**
+ * Age between two dates in the largest fitting unit
+ * Without months only whole years are counted; returns null when `to`
+ * is before `from`.
+ */
+export function ageBetween(from: PartialDate, to: PartialDate): Age | null {
+  const approximate = !!from.approximate || !!to.approximate;
+
+  if (from.month === undefined || to.month === undefined) {
+    const years = to.year - from.year;
+    return years < 0 ? null : { value: years, unit: 'y', approximate };
+  }
+
+  const fromDay = from.day ?? 1;
+  const toDay = to.day ?? 1;
+
+  let months = (to.year - from.year) * 12 + (to.month - from.month);
+  if (toDay < fromDay) months--;
+  if (months < 0) return null;
+
+  if (months >= 12) {
+    return { value: Math.floor(months / 12), unit: 'y', approximate };
+  }
+  if (months >= 1) {
+    return { value: months, unit: 'mo', approximate };
+  }
+
+  const days = Math.round(
+    (Date.UTC(to.year, to.month - 1, toDay) - Date.UTC(from.year, from.month - 1, fromDay)) / 86400000
+  );
+  return { value: days, unit: 'd', approximate };
+}
+
+/**
+ * NSGC age text, e.g. "42y", "8mo", "~67y"
+ */
+export function formatAge(age: Age): string {
+  return `${age.approximate ? '~' : ''}${age.value}${age.unit}`;
+}
+
+/**
+ * Age at death when a death date is known, otherwise age on the as-of date
+ * Falls back to the age entered by hand when the dates are not enough.
+ */
+export function personAge(person: Person, asOf: PartialDate): Age | null {
+  const { age } = person.metadata;
+  return datedAge(person, asOf) ?? (age !== undefined ? { value: age, unit: 'y', approximate: false } : null);
+}
+
+/**
+ * Age computed from the birth date alone, null when the dates are not enough
+ * (no birth date, or deceased without a death date)
+ */
+export function datedAge(person: Person, asOf: PartialDate): Age | null {
+  const { birthDate, deathDate } = person.metadata;
+  if (!birthDate) return null;
+
+  const end = deathDate ?? (person.status.isDeceased ? undefined : asOf);
+  return end ? ageBetween(birthDate, end) : null;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
@@ -0,0 +1,146 @@
+/**
+ * De-identification
+ *
+ * Builds a copy of a pedigree that is safe to publish:
+ * - Names and IDs replaced with generation numbers ("II-3")
+ * - Exact dates dropped and ages rounded down to the decade
+ * - Notes and second-line text removed
+ * - Optionally every sex disguised, so all symbols are drawn as diamonds
+ * - Always: family and document IDs replaced (they often hold a surname
+ *   or record number) and cause of death removed
+ *
+ * The working document is never changed.
+ */
+
+import { type Pedigree, type Person, type LayoutNode, Sex, generateUUID } from './types';
+import { clonePedigree } from './pedigreeEdits';
+import { personAge, todayAsPartialDate } from './dates';
+import { individualNumbers } from './numbering';
+import { pedigreeLayout } from '@/core/layout/PedigreeLayout';
+
+export interface DeidentifyOptions {
+  relabel: boolean;      // Generation-numbered IDs instead of names
+  roundAges: boolean;    // Ages to the decade, without dates
+  stripNotes: boolean;
+  diamonds: boolean;     // Every sex shown as unknown
+}
+
+export const DEFAULT_DEIDENTIFY_OPTIONS: DeidentifyOptions = {
+  relabel: true,
+  roundAges: true,
+  stripNotes: true,
+  diamonds: false,
+};
+
+export interface DeidentifiedPedigree {
+  pedigree: Pedigree;
+  ids: Map<string, string>;  // Original person ID -> ID in the copy
+}
+
+/**
+ * De-identified copy of a pedigree
+ * The copy is family "F1", or F2, F3... when several families are written
+ * together. Persons keep their stored generation numbers; anyone without
+ * one is numbered from the generation layout unless nodes are given.
+ */
+export function deidentify(
+  pedigree: Pedigree,
+  options: DeidentifyOptions,
+  familyNumber = 1,
+  layoutNodes: Map<string, LayoutNode> = pedigreeLayout.layout(clonePedigree(pedigree))
+): DeidentifiedPedigree {
+  const copy = clonePedigree(pedigree);
+  const asOf = pedigree.metadata.asOfDate ?? todayAsPartialDate();
+
+  copy.id = generateUUID();
+  copy.familyId = `F${familyNumber}`;
+
+  for (const person of copy.persons.values()) {
+    const meta = person.metadata;
+    person.familyId = copy.familyId;
+    delete meta.causeOfDeath;
+
+    if (options.roundAges) {
+      const age = personAge(person, asOf);
+      delete meta.birthDate;
+      delete meta.deathDate;
+      delete meta.age;
+      if (age) {
+        meta.age = age.unit === 'y' ? roundToDecade(age.value) : 0;
+      }
+      if (person.diagnosisAges) {
+        person.diagnosisAges = person.diagnosisAges.map(value => (value === null ? null : roundToDecade(value)));
+      }
+      person.geneticTests?.forEach(test => {
+        delete test.date;
+      });
+    }
+
+    if (options.stripNotes) {
+      delete meta.notes;
+      delete meta.label2;
+    }
+
+    if (options.diamonds) {
+      person.sex = Sex.Unknown;
+    }
+  }
+
+  if (options.roundAges) {
+    delete copy.metadata.asOfDate;
+  }
+
+  const ids = new Map<string, string>();
+  for (const id of copy.persons.keys()) {
+    ids.set(id, id);
+  }
+
+  if (options.relabel) {
+    const numbers = individualNumbers(pedigree, layoutNodes);
+    for (const [id, person] of copy.persons) {
+      const number = numbers.get(id) ?? id;
+      ids.set(id, number);
+      person.metadata.label = number;
+      person.generationNumber = number;
+    }
+    delete copy.name;
+    renamePersons(copy, ids);
+  }
+
+  return { pedigree: copy, ids };
+}
+
+function roundToDecade(years: number): number {
+  return Math.floor(years / 10) * 10;
+}
+
+/**
+ * Replace every person ID, including the references to it
+ */
+function renamePersons(draft: Pedigree, ids: Map<string, string>): void {
+  const rename = (id: string) => ids.get(id) ?? id;
+
+  const persons = new Map<string, Person>();
+  for (const person of draft.persons.values()) {
+    person.id = rename(person.id);
+    person.fatherId = person.fatherId && rename(person.fatherId);
+    person.motherId = person.motherId && rename(person.motherId);
+    person.spouseIds = person.spouseIds.map(rename);
+    person.childrenIds = person.childrenIds.map(rename);
+    persons.set(person.id, person);
+  }
+  draft.persons = persons;
+
+  for (const relationship of draft.relationships.values()) {
+    relationship.person1Id = rename(relationship.person1Id);
+    relationship.person2Id = rename(relationship.person2Id);
+    relationship.childrenIds = relationship.childrenIds.map(rename);
+  }
+
+  draft.view?.collapsed.forEach(branch => {
+    branch.personId = rename(branch.personId);
+  });
+  if (draft.layoutSelection?.rootId) {
+    draft.layoutSelection.rootId = rename(draft.layoutSelection.rootId);
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * Generation Numbering
+ *
+ * NSGC individual numbers: the generation as a Roman numeral and the
+ * person's position from the left within it, e.g. "II-3".
+ *
+ * Numbers are stored on each person so they stay put when the layout
+ * changes; a person new to a generation gets the next number after the
+ * highest one in it. Renumbering starts again from the current layout.
+ */
+
+import type { LayoutNode, Pedigree } from './types';
+
+const NUMBER_PATTERN = /^([IVXLC]+)-(\d+)$/;
+
+/**
+ * Number every laid-out person by generation, then left to right
+ */
+export function generationIds(layoutNodes: Map<string, LayoutNode>): Map<string, string> {
+  const byGeneration = new Map<number, LayoutNode[]>();
+  for (const node of layoutNodes.values()) {
+    const nodes = byGeneration.get(node.generation) ?? [];
+    nodes.push(node);
+    byGeneration.set(node.generation, nodes);
+  }
+
+  const ids = new Map<string, string>();
+  for (const [generation, nodes] of byGeneration) {
+    nodes
+      .sort((a, b) => a.x - b.x || a.order - b.order)
+      .forEach((node, index) => {
+        ids.set(node.person.id, `${toRomanNumeral(generation + 1)}-${index + 1}`);
+      });
+  }
+  return ids;
+}
+
+/**
+ * Each laid-out person's number: the stored one while it still names their
+ * generation, otherwise the next free number in it
+ */
+export function individualNumbers(
+  pedigree: Pedigree,
+  layoutNodes: Map<string, LayoutNode>
+): Map<string, string> {
+  const positions = generationIds(layoutNodes);
+  const byGeneration = new Map<string, string[]>();
+  for (const [id, position] of positions) {
+    const numeral = position.split('-')[0];
+    const ids = byGeneration.get(numeral) ?? [];
+    ids.push(id);
+    byGeneration.set(numeral, ids);
+  }
+
+  const numbers = new Map<string, string>();
+  for (const [numeral, ids] of byGeneration) {
+    // Left to right, so new persons are numbered in reading order
+    ids.sort((a, b) => Number(positions.get(a)!.split('-')[1]) - Number(positions.get(b)!.split('-')[1]));
+
+    const taken = new Set<number>();
+    const unnumbered: string[] = [];
+    for (const id of ids) {
+      const match = NUMBER_PATTERN.exec(pedigree.persons.get(id)?.generationNumber ?? '');
+      const index = match && match[1] === numeral ? Number(match[2]) : null;
+      if (index !== null && !taken.has(index)) {
+        taken.add(index);
+        numbers.set(id, `${numeral}-${index}`);
+      } else {
+        unnumbered.push(id);
+      }
+    }
+
+    let next = Math.max(0, ...taken) + 1;
+    for (const id of unnumbered) {
+      numbers.set(id, `${numeral}-${next++}`);
+    }
+  }
+  return numbers;
+}
+
+/**
+ * Store a number on every laid-out person that lacks a valid one
+ */
+export function assignGenerationNumbers(pedigree: Pedigree, layoutNodes: Map<string, LayoutNode>): void {
+  for (const [id, number] of individualNumbers(pedigree, layoutNodes)) {
+    const person = pedigree.persons.get(id);
+    if (person) person.generationNumber = number;
+  }
+}
+
+/**
+ * Number everyone afresh from the layout
+ */
+export function renumber(pedigree: Pedigree, layoutNodes: Map<string, LayoutNode>): void {
+  for (const [id, number] of generationIds(layoutNodes)) {
+    const person = pedigree.persons.get(id);
+    if (person) person.generationNumber = number;
+  }
+}
+
+export function toRomanNumeral(num: number): string {
+  const romanNumerals: [number, string][] = [
+    [10, 'X'],
+    [9, 'IX'],
+    [5, 'V'],
+    [4, 'IV'],
+    [1, 'I'],
+  ];
+
+  let result = '';
+  let remaining = num;
+
+  for (const [value, numeral] of romanNumerals) {
+    while (remaining >= value) {
+      result += numeral;
+      remaining -= value;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,575 @@
+/**
+ * Pedigree Edits
+ *
+ * Structural edits that keep every back-reference consistent:
+ * - Person.fatherId / motherId
+ * - Parent Person.childrenIds
+ * - Relationship.childrenIds (a child belongs to the union of its parents)
+ * - Person.spouseIds
+ *
+ * Edits mutate a draft made with clonePedigree, so the store can commit
+ * the result as a single undoable change. Invalid edits throw an Error
+ * and leave the original pedigree untouched.
+ */
+
+import {
+  type Pedigree,
+  type Person,
+  type Relationship,
+  Sex,
+  Phenotype,
+  RelationshipType,
+  createRelationship,
+} from './types';
+
+export type ParentRole = 'father' | 'mother';
+
+/**
+ * Copy a pedigree deeply enough that edits do not touch the original
+ */
+export function clonePedigree(pedigree: Pedigree): Pedigree {
+  const persons = new Map<string, Person>();
+  for (const [id, person] of pedigree.persons) {
+    const copy: Person = {
+      ...person,
+      phenotypes: [...person.phenotypes],
+      status: { ...person.status },
+      metadata: { ...person.metadata },
+      spouseIds: [...person.spouseIds],
+      childrenIds: [...person.childrenIds],
+    };
+    if (person.geneticTests) {
+      copy.geneticTests = person.geneticTests.map(test => ({ ...test }));
+    }
+    if (person.diagnosisAges) {
+      copy.diagnosisAges = [...person.diagnosisAges];
+    }
+    if (person.pin) {
+      copy.pin = { ...person.pin };
+    }
+    persons.set(id, copy);
+  }
+
+  const relationships = new Map<string, Relationship>();
+  for (const [id, relationship] of pedigree.relationships) {
+    relationships.set(id, { ...relationship, childrenIds: [...relationship.childrenIds] });
+  }
+
+  const draft: Pedigree = { ...pedigree, persons, relationships, metadata: { ...pedigree.metadata } };
+  if (pedigree.traits) {
+    draft.traits = pedigree.traits.map(trait => ({ ...trait }));
+  }
+  if (pedigree.view) {
+    draft.view = { ...pedigree.view, collapsed: pedigree.view.collapsed.map(branch => ({ ...branch })) };
+  }
+  if (pedigree.layoutSelection) {
+    draft.layoutSelection = { ...pedigree.layoutSelection };
+  }
+  if (pedigree.chartSettings) {
+    draft.chartSettings = { ...pedigree.chartSettings };
+  }
+  return draft;
+}
+
+/**
+ * Make parentId a parent of childId
+ * The role defaults to the parent's sex; unknown sex takes the free slot.
+ * An existing parent in that slot is unlinked first.
+ */
+export function linkParent(
+  draft: Pedigree,
+  childId: string,
+  parentId: string,
+  role?: ParentRole
+): void {
+  const child = getPerson(draft, childId);
+  const parent = getPerson(draft, parentId);
+
+  if (childId === parentId) {
+    throw new Error('A person cannot be their own parent');
+  }
+  if (isAncestor(draft, childId, parentId)) {
+    throw new Error(`${parentId} is a descendant of ${childId}`);
+  }
+
+  const slot = role ?? resolveParentRole(child, parent);
+  const currentId = slot === 'father' ? child.fatherId : child.motherId;
+  if (currentId === parentId) return;
+  if (currentId) {
+    detachParent(draft, child, currentId);
+  }
+
+  // The other slot may already hold this parent
+  if ((slot === 'father' ? child.motherId : child.fatherId) === parentId) {
+    throw new Error(`${parentId} is already the ${otherRole(slot)} of ${childId}`);
+  }
+
+  if (slot === 'father') {
+    child.fatherId = parentId;
+  } else {
+    child.motherId = parentId;
+  }
+  addUnique(parent.childrenIds, childId);
+
+  syncChildUnion(draft, child);
+}
+
+/**
+ * Remove parentId as a parent of childId
+ */
+export function unlinkParent(draft: Pedigree, childId: string, parentId: string): void {
+  const child = getPerson(draft, childId);
+  detachParent(draft, child, parentId);
+  syncChildUnion(draft, child);
+}
+
+/**
+ * Replace both parents of a child
+ * When both are given, the couple gets a spouse relationship if they have none.
+ */
+export function setParents(
+  draft: Pedigree,
+  childId: string,
+  fatherId: string | null,
+  motherId: string | null
+): void {
+  const child = getPerson(draft, childId);
+
+  if (child.fatherId && child.fatherId !== fatherId) {
+    detachParent(draft, child, child.fatherId);
+  }
+  if (child.motherId && child.motherId !== motherId) {
+    detachParent(draft, child, child.motherId);
+  }
+
+  if (fatherId && motherId && !findUnion(draft, fatherId, motherId)) {
+    addUnion(draft, createRelationship(fatherId, motherId, RelationshipType.Spouse));
+  }
+
+  if (fatherId) linkParent(draft, childId, fatherId, 'father');
+  if (motherId) linkParent(draft, childId, motherId, 'mother');
+
+  syncChildUnion(draft, child);
+}
+
+/**
+ * Add a new person as a child of a union
+ */
+export function addChildToUnion(draft: Pedigree, relationshipId: string, child: Person): void {
+  if (draft.persons.has(child.id)) {
+    throw new Error(`Person ${child.id} already exists`);
+  }
+
+  draft.persons.set(child.id, {
+    ...child,
+    fatherId: null,
+    motherId: null,
+    childrenIds: [...child.childrenIds],
+    spouseIds: [...child.spouseIds],
+  });
+  moveChildToUnion(draft, child.id, relationshipId);
+}
+
+/**
+ * Move an existing child under a union, replacing its current parents
+ */
+export function moveChildToUnion(draft: Pedigree, childId: string, relationshipId: string): void {
+  const relationship = draft.relationships.get(relationshipId);
+  if (!relationship) {
+    throw new Error(`Relationship ${relationshipId} not found`);
+  }
+
+  const child = getPerson(draft, childId);
+  const partners = [relationship.person1Id, relationship.person2Id].map(id => getPerson(draft, id));
+
+  if (child.fatherId) detachParent(draft, child, child.fatherId);
+  if (child.motherId) detachParent(draft, child, child.motherId);
+
+  // Male/female partners take their slot first, unknown sex (or a
+  // same-sex partner) fills what is left
+  const ordered = [...partners].sort((a, b) => sexRank(a) - sexRank(b));
+  for (const partner of ordered) {
+    const preferred = partner.sex === Sex.Female ? 'mother' : 'father';
+    const taken = preferred === 'father' ? child.fatherId : child.motherId;
+    linkParent(draft, childId, partner.id, taken ? otherRole(preferred) : preferred);
+  }
+
+  addUnique(relationship.childrenIds, childId);
+}
+
+/**
+ * Merge a duplicate person into another
+ * Links of the removed person are moved onto the kept one; fields already
+ * set on the kept person win, empty ones are filled from the duplicate.
+ */
+export function mergePersons(draft: Pedigree, keepId: string, removeId: string): void {
+  if (keepId === removeId) {
+    throw new Error('Cannot merge a person with themselves');
+  }
+
+  const keep = getPerson(draft, keepId);
+  const remove = getPerson(draft, removeId);
+
+  if (isAncestor(draft, keepId, removeId) || isAncestor(draft, removeId, keepId)) {
+    throw new Error(`Cannot merge ${removeId} into ${keepId}: one is an ancestor of the other`);
+  }
+  // Their children would end up with the same person as both parents
+  if (findUnion(draft, keepId, removeId) || keep.spouseIds.includes(removeId) ||
+    keep.childrenIds.some(childId => remove.childrenIds.includes(childId))) {
+    throw new Error(`Cannot merge ${removeId} into ${keepId}: they are partners or parents of the same child`);
+  }
+
+  // Parents: take the duplicate's parents for empty slots
+  const removeParents: Array<[ParentRole, string | null]> = [
+    ['father', remove.fatherId],
+    ['mother', remove.motherId],
+  ];
+  for (const [role, parentId] of removeParents) {
+    if (!parentId) continue;
+    detachParent(draft, remove, parentId);
+    const keepParentId = role === 'father' ? keep.fatherId : keep.motherId;
+    if (!keepParentId) {
+      linkParent(draft, keepId, parentId, role);
+    }
+  }
+
+  // Children: re-point their parent slot
+  for (const childId of [...remove.childrenIds]) {
+    const child = draft.persons.get(childId);
+    if (!child) continue;
+    if (child.fatherId === removeId) child.fatherId = keepId;
+    if (child.motherId === removeId) child.motherId = keepId;
+    addUnique(keep.childrenIds, childId);
+  }
+  remove.childrenIds = [];
+
+  // Relationships: re-point to the kept person, folding duplicates together
+  for (const relationship of Array.from(draft.relationships.values())) {
+    if (relationship.person1Id !== removeId && relationship.person2Id !== removeId) continue;
+
+    const partnerId = relationship.person1Id === removeId ? relationship.person2Id : relationship.person1Id;
+    removeSpouse(draft, removeId, partnerId);
+
+    const existing = findUnion(draft, keepId, partnerId);
+    if (existing) {
+      for (const childId of relationship.childrenIds) {
+        addUnique(existing.childrenIds, childId);
+      }
+      draft.relationships.delete(relationship.id);
+    } else {
+      if (relationship.person1Id === removeId) relationship.person1Id = keepId;
+      if (relationship.person2Id === removeId) relationship.person2Id = keepId;
+      addSpouse(draft, keepId, partnerId);
+    }
+  }
+
+  // Remaining references to the duplicate
+  for (const person of draft.persons.values()) {
+    person.spouseIds = person.spouseIds.filter(id => id !== removeId);
+  }
+  for (const relationship of draft.relationships.values()) {
+    relationship.childrenIds = relationship.childrenIds.filter(id => id !== removeId);
+  }
+
+  // Attributes: keep wins, fill the gaps
+  if (keep.sex === Sex.Unknown) keep.sex = remove.sex;
+  if (keep.phenotypes.every(p => p === Phenotype.Unknown)) keep.phenotypes = [...remove.phenotypes];
+  keep.metadata = { ...remove.metadata, ...definedFields(keep.metadata) };
+  for (const key of Object.keys(keep.status) as Array<keyof Person['status']>) {
+    keep.status[key] = keep.status[key] || remove.status[key];
+  }
+  if (remove.geneticTests?.length) {
+    keep.geneticTests = [...(keep.geneticTests ?? []), ...remove.geneticTests];
+  }
+  if (!keep.twinGroupId && remove.twinGroupId) {
+    keep.twinGroupId = remove.twinGroupId;
+    keep.twinType = remove.twinType;
+  }
+
+  draft.persons.delete(removeId);
+
+  for (const childId of keep.childrenIds) {
+    const child = draft.persons.get(childId);
+    if (child) syncChildUnion(draft, child);
+  }
+  syncChildUnion(draft, keep);
+}
+
+/**
+ * Add new persons as siblings of an existing person (same parents)
+ */
+export function addSiblings(draft: Pedigree, personId: string, siblings: Person[]): void {
+  const person = getPerson(draft, personId);
+  if (!person.fatherId && !person.motherId) {
+    throw new Error(`${personId} has no parents to share with siblings`);
+  }
+
+  for (const sibling of siblings) {
+    if (draft.persons.has(sibling.id)) {
+      throw new Error(`Person ${sibling.id} already exists`);
+    }
+    draft.persons.set(sibling.id, {
+      ...sibling,
+      fatherId: null,
+      motherId: null,
+      childrenIds: [...sibling.childrenIds],
+      spouseIds: [...sibling.spouseIds],
+    });
+    setParents(draft, sibling.id, person.fatherId, person.motherId);
+  }
+}
+
+/**
+ * Fold siblings into one aggregate symbol kept on keepId
+ * Only childless persons without partners can be folded; the count adds
+ * up the individuals each symbol stood for, and stays "n" if any was "n".
+ */
+export function collapseSiblings(draft: Pedigree, keepId: string, siblingIds: string[]): void {
+  const keep = getPerson(draft, keepId);
+  const removeIds = siblingIds.filter(id => id !== keepId);
+  const members = [keep, ...removeIds.map(id => getPerson(draft, id))];
+
+  for (const member of members) {
+    if (member.fatherId !== keep.fatherId || member.motherId !== keep.motherId) {
+      throw new Error(`${member.id} is not a sibling of ${keepId}`);
+    }
+    if (member.childrenIds.length > 0 || member.spouseIds.length > 0) {
+      throw new Error(`${member.id} has a partner or children and cannot be collapsed`);
+    }
+  }
+
+  const counts = members.map(member => member.aggregateCount ?? 1);
+  keep.aggregateCount = counts.includes('n')
+    ? 'n'
+    : counts.reduce<number>((sum, count) => sum + (count as number), 0);
+
+  for (const removeId of removeIds) {
+    const remove = getPerson(draft, removeId);
+    if (remove.fatherId) detachParent(draft, remove, remove.fatherId);
+    if (remove.motherId) detachParent(draft, remove, remove.motherId);
+    for (const relationship of draft.relationships.values()) {
+      relationship.childrenIds = relationship.childrenIds.filter(id => id !== removeId);
+    }
+    draft.persons.delete(removeId);
+  }
+}
+
+/**
+ * Add new persons as the father and mother of a child, in place of any
+ * parents the child had
+ */
+export function addParents(draft: Pedigree, childId: string, father: Person, mother: Person): void {
+  getPerson(draft, childId);
+  insertPerson(draft, father);
+  insertPerson(draft, mother);
+  setParents(draft, childId, father.id, mother.id);
+}
+
+/**
+ * Add a new person as the partner of an existing one
+ */
+export function addPartner(draft: Pedigree, personId: string, partner: Person, relationship: Relationship): void {
+  getPerson(draft, personId);
+  insertPerson(draft, partner);
+  addRelationship(draft, relationship);
+}
+
+/**
+ * Add a union between two persons
+ * Children the two already share are moved into it.
+ */
+export function addRelationship(draft: Pedigree, relationship: Relationship): void {
+  const person1 = getPerson(draft, relationship.person1Id);
+  getPerson(draft, relationship.person2Id);
+
+  if (relationship.person1Id === relationship.person2Id) {
+    throw new Error('A person cannot be their own partner');
+  }
+  if (findUnion(draft, relationship.person1Id, relationship.person2Id)) {
+    throw new Error(`${relationship.person1Id} and ${relationship.person2Id} are already partners`);
+  }
+
+  addUnion(draft, { ...relationship, childrenIds: [] });
+  for (const childId of person1.childrenIds) {
+    const child = draft.persons.get(childId);
+    if (child) syncChildUnion(draft, child);
+  }
+}
+
+/**
+ * Remove a union; its children keep both parents
+ */
+export function deleteRelationship(draft: Pedigree, relationshipId: string): void {
+  const relationship = draft.relationships.get(relationshipId);
+  if (!relationship) {
+    throw new Error(`Relationship ${relationshipId} not found`);
+  }
+  draft.relationships.delete(relationshipId);
+  removeSpouse(draft, relationship.person1Id, relationship.person2Id);
+}
+
+/**
+ * Remove a person with their unions
+ * Children keep their other parent; partners, parents and every union
+ * lose their references to the person.
+ */
+export function deletePerson(draft: Pedigree, personId: string): void {
+  const person = getPerson(draft, personId);
+
+  if (person.fatherId) detachParent(draft, person, person.fatherId);
+  if (person.motherId) detachParent(draft, person, person.motherId);
+
+  for (const childId of person.childrenIds) {
+    const child = draft.persons.get(childId);
+    if (child) detachParent(draft, child, personId);
+  }
+
+  for (const relationship of Array.from(draft.relationships.values())) {
+    if (relationship.person1Id === personId || relationship.person2Id === personId) {
+      removeSpouse(draft, relationship.person1Id, relationship.person2Id);
+      draft.relationships.delete(relationship.id);
+    } else {
+      relationship.childrenIds = relationship.childrenIds.filter(id => id !== personId);
+    }
+  }
+
+  // Partners listed without a union
+  for (const other of draft.persons.values()) {
+    other.spouseIds = other.spouseIds.filter(id => id !== personId);
+  }
+
+  draft.persons.delete(personId);
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Add a new person without any links; edits link them afterwards
+ */
+function insertPerson(draft: Pedigree, person: Person): void {
+  if (draft.persons.has(person.id)) {
+    throw new Error(`Person ${person.id} already exists`);
+  }
+  draft.persons.set(person.id, { ...person, fatherId: null, motherId: null, childrenIds: [], spouseIds: [] });
+}
+
+function getPerson(draft: Pedigree, id: string): Person {
+  const person = draft.persons.get(id);
+  if (!person) {
+    throw new Error(`Person ${id} not found`);
+  }
+  return person;
+}
+
+/**
+ * Whether ancestorId appears among the ancestors of personId
+ */
+function isAncestor(draft: Pedigree, ancestorId: string, personId: string): boolean {
+  const visited = new Set<string>();
+  const queue = [personId];
+
+  while (queue.length > 0) {
+    const person = draft.persons.get(queue.shift()!);
+    if (!person) continue;
+
+    for (const parentId of [person.fatherId, person.motherId]) {
+      if (!parentId || visited.has(parentId)) continue;
+      if (parentId === ancestorId) return true;
+      visited.add(parentId);
+      queue.push(parentId);
+    }
+  }
+
+  return false;
+}
+
+function resolveParentRole(child: Person, parent: Person): ParentRole {
+  if (parent.sex === Sex.Male) return 'father';
+  if (parent.sex === Sex.Female) return 'mother';
+  if (!child.fatherId) return 'father';
+  if (!child.motherId) return 'mother';
+  throw new Error(`${child.id} already has two parents`);
+}
+
+function otherRole(role: ParentRole): ParentRole {
+  return role === 'father' ? 'mother' : 'father';
+}
+
+function sexRank(person: Person): number {
+  return person.sex === Sex.Unknown ? 1 : 0;
+}
+
+/**
+ * Clear every slot of child that holds parentId, on both sides
+ */
+function detachParent(draft: Pedigree, child: Person, parentId: string): void {
+  if (child.fatherId === parentId) child.fatherId = null;
+  if (child.motherId === parentId) child.motherId = null;
+
+  const parent = draft.persons.get(parentId);
+  if (parent) {
+    parent.childrenIds = parent.childrenIds.filter(id => id !== child.id);
+  }
+}
+
+/**
+ * Put the child in the union of its parents, and out of every other union
+ * A child with a single known parent belongs to no union
+ */
+function syncChildUnion(draft: Pedigree, child: Person): void {
+  const parentIds = [child.fatherId, child.motherId].filter((id): id is string => id !== null);
+  const union = parentIds.length === 2 ? findUnion(draft, parentIds[0], parentIds[1]) : null;
+
+  for (const relationship of draft.relationships.values()) {
+    if (relationship.id === union?.id) {
+      addUnique(relationship.childrenIds, child.id);
+    } else {
+      relationship.childrenIds = relationship.childrenIds.filter(id => id !== child.id);
+    }
+  }
+}
+
+function findUnion(draft: Pedigree, personAId: string, personBId: string): Relationship | null {
+  for (const relationship of draft.relationships.values()) {
+    if (
+      (relationship.person1Id === personAId && relationship.person2Id === personBId) ||
+      (relationship.person1Id === personBId && relationship.person2Id === personAId)
+    ) {
+      return relationship;
+    }
+  }
+  return null;
+}
+
+function addUnion(draft: Pedigree, relationship: Relationship): void {
+  draft.relationships.set(relationship.id, relationship);
+  addSpouse(draft, relationship.person1Id, relationship.person2Id);
+}
+
+function addSpouse(draft: Pedigree, personAId: string, personBId: string): void {
+  const personA = draft.persons.get(personAId);
+  const personB = draft.persons.get(personBId);
+  if (personA) addUnique(personA.spouseIds, personBId);
+  if (personB) addUnique(personB.spouseIds, personAId);
+}
+
+function removeSpouse(draft: Pedigree, personAId: string, personBId: string): void {
+  const personA = draft.persons.get(personAId);
+  const personB = draft.persons.get(personBId);
+  if (personA) personA.spouseIds = personA.spouseIds.filter(id => id !== personBId);
+  if (personB) personB.spouseIds = personB.spouseIds.filter(id => id !== personAId);
+}
+
+function addUnique(list: string[], id: string): void {
+  if (!list.includes(id)) {
+    list.push(id);
+  }
+}
+
+function definedFields<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, field]) => field !== undefined && field !== '')
+  ) as Partial<T>;
+}
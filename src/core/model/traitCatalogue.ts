@@ -0,0 +1,111 @@
+/**
+ * Trait Catalogue
+ *
+ * Edits of Pedigree.traits that keep every person's phenotypes aligned
+ * with it: Person.phenotypes[i] is the status for traits[i], and slots
+ * stay a permutation of 0..traits.length-1.
+ *
+ * Like pedigreeEdits, these mutate a draft and throw an Error when the
+ * edit is invalid.
+ */
+
+import {
+  type Pedigree,
+  type Person,
+  type Trait,
+  Phenotype,
+  MAX_TRAITS,
+} from './types';
+
+/**
+ * Status of a person for the trait at a catalogue index
+ * The first trait of a person with a quantitative value follows the
+ * pedigree's affected threshold when one is set (see metadata.affectedThreshold).
+ */
+export function traitStatus(person: Person, index: number, affectedThreshold: number | undefined): Phenotype {
+  const value = person.metadata.quantitativeValue;
+  if (index === 0 && value !== undefined && affectedThreshold !== undefined) {
+    return value >= affectedThreshold ? Phenotype.Affected : Phenotype.Unaffected;
+  }
+  return person.phenotypes[index] ?? Phenotype.Unknown;
+}
+
+/**
+ * Append a trait; it takes the next free slot
+ * The first trait adopts the phenotypes persons already have.
+ */
+export function addTrait(draft: Pedigree, trait: Trait): void {
+  const traits = draft.traits ?? [];
+  if (traits.length >= MAX_TRAITS) {
+    throw new Error(`A pedigree can have at most ${MAX_TRAITS} traits`);
+  }
+
+  draft.traits = [...traits, { ...trait, slot: traits.length }];
+
+  const index = traits.length;
+  for (const person of draft.persons.values()) {
+    while (person.phenotypes.length <= index) {
+      person.phenotypes.push(Phenotype.Unknown);
+    }
+  }
+}
+
+/**
+ * Change a trait's name, colour or pattern
+ */
+export function updateTrait(
+  draft: Pedigree,
+  traitId: string,
+  updates: Partial<Pick<Trait, 'name' | 'color' | 'pattern'>>
+): void {
+  const index = traitIndex(draft, traitId);
+  const traits = [...draft.traits!];
+  traits[index] = { ...traits[index], ...updates };
+  draft.traits = traits;
+}
+
+/**
+ * Move a trait to another slot, swapping with the trait that held it
+ */
+export function setTraitSlot(draft: Pedigree, traitId: string, slot: number): void {
+  const index = traitIndex(draft, traitId);
+  const traits = draft.traits!.map(trait => ({ ...trait }));
+  if (slot < 0 || slot >= traits.length) {
+    throw new Error(`Slot ${slot} is out of range`);
+  }
+
+  const other = traits.find(trait => trait.slot === slot);
+  if (other) {
+    other.slot = traits[index].slot;
+  }
+  traits[index].slot = slot;
+  draft.traits = traits;
+}
+
+/**
+ * Remove a trait and each person's status for it
+ */
+export function removeTrait(draft: Pedigree, traitId: string): void {
+  const index = traitIndex(draft, traitId);
+
+  // Keep the remaining slots compact, in their current order
+  const remaining = draft.traits!.filter(trait => trait.id !== traitId);
+  const bySlot = [...remaining].sort((a, b) => a.slot - b.slot);
+  draft.traits = remaining.map(trait => ({ ...trait, slot: bySlot.indexOf(trait) }));
+
+  for (const person of draft.persons.values()) {
+    person.phenotypes.splice(index, 1);
+    if (person.phenotypes.length === 0) {
+      person.phenotypes.push(Phenotype.Unknown);
+    }
+    person.diagnosisAges?.splice(index, 1);
+  }
+}
+
+function traitIndex(draft: Pedigree, traitId: string): number {
+  const index = draft.traits?.findIndex(trait => trait.id === traitId) ?? -1;
+  if (index < 0) {
+    throw new Error(`Trait ${traitId} not found`);
+  }
+  return index;
+}
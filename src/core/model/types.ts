@@ -44,6 +44,41 @@ export enum TwinType {
   Dizygotic = 'dizygotic',     // Fraternal twins
 }
 
+export enum TestResult {
+  Positive = 'positive',
+  Negative = 'negative',
+  Vus = 'vus',  // Variant of uncertain significance
+}
+
+export enum Zygosity {
+  Heterozygous = 'heterozygous',
+  Homozygous = 'homozygous',
+  Hemizygous = 'hemizygous',
+  Unknown = 'unknown',
+}
+
+export enum TraitPattern {
+  Solid = 'solid',
+  Hatch = 'hatch',
+  CrossHatch = 'cross-hatch',
+  Dots = 'dots',
+}
+
+/**
+ * Number of individuals an aggregate symbol stands for, 'n' if unknown
+ */
+export type AggregateCount = number | 'n';
+
+/**
+ * A calendar date known to the year, month or day
+ */
+export interface PartialDate {
+  year: number;
+  month?: number;          // 1-12
+  day?: number;            // 1-31, only with a month
+  approximate?: boolean;   // Drawn with "~"
+}
+
 // ============================================
 // Status & Metadata
 // ============================================
@@ -58,18 +93,34 @@ export interface PersonStatus {
   isStillbirth: boolean;
   isPregnancy: boolean;
   isInfertile: boolean;
+  isEvaluated: boolean;  // Documented evaluation (NSGC asterisk)
 }
 
 export interface PersonMetadata {
   label?: string;
   label2?: string;         // Second line custom text
-  showBirthYear?: boolean; // Show birth year in label
-  showDeathYear?: boolean; // Show death year in label
-  showAge?: boolean;       // Show age in label
+  showBirthYear?: boolean; // Show birth date in label ("b. 1950")
+  showDeathYear?: boolean; // Show age at death, or death date, in label ("d. 67y")
+  showAge?: boolean;       // Show current age in label ("42y")
   notes?: string;
-  birthYear?: number;
-  deathYear?: number;
-  age?: number;
+  birthDate?: PartialDate;
+  deathDate?: PartialDate;
+  causeOfDeath?: string;
+  age?: number;            // Years, entered by hand when the birth date is unknown
+  quantitativeValue?: number;  // Quantitative trait value from a PED phenotype column
+  gestationalAge?: number;     // Weeks, for pregnancies, miscarriages and stillbirths
+}
+
+/**
+ * A genetic test result recorded on a person
+ */
+export interface GeneticTest {
+  id: string;
+  gene: string;          // Blank until entered
+  variant?: string;      // HGVS description, e.g. c.68_69delAG
+  zygosity: Zygosity;
+  result: TestResult;
+  date?: string;         // As entered, e.g. 2023-05
 }
 
 // ============================================
@@ -96,10 +147,26 @@ export interface Person {
   twinType: TwinType;
   twinGroupId: string | null;
 
+  // NSGC aggregate symbol: one shape standing for several siblings,
+  // drawn with the count (or "n" when the number is unknown) inside
+  aggregateCount?: AggregateCount;
+
+  // Genetic test results, drawn as E+/E-/E VUS under the symbol
+  geneticTests?: GeneticTest[];
+
+  // Age in years at diagnosis, aligned with phenotypes (null = not recorded)
+  diagnosisAges?: Array<number | null>;
+
+  // NSGC individual number ("II-3"), kept until the pedigree is renumbered
+  generationNumber?: string;
+
   // Layout position (calculated by layout algorithm)
   x?: number;
   y?: number;
   generation?: number;
+
+  // Position placed by hand; kept by the layout while pins are respected
+  pin?: { x: number; y: number };
 }
 
 export interface Relationship {
@@ -120,9 +187,67 @@ export interface Relationship {
 
   // Childlessness indicator
   childlessReason?: ChildlessReason;
+}
+
+/**
+ * A trait in the pedigree's catalogue
+ * Person.phenotypes[i] is each person's status for traits[i]
+ */
+export interface Trait {
+  id: string;
+  name: string;
+  color: string;          // CSS colour for the fill or hatch lines
+  pattern: TraitPattern;
+  slot: number;           // Section of the symbol (index into getQuadrantPaths)
+}
 
-  // Legacy (keep for backward compatibility)
-  isSeparated?: boolean;
+/**
+ * At most four traits fit in one symbol (quadrants)
+ */
+export const MAX_TRAITS = 4;
+
+/**
+ * Part of the pedigree hidden behind a placeholder
+ * - Descendants: everyone descended from the person
+ * - Ancestors: the person's ancestors and their other descendants
+ * - Collateral: descendants of the person's ancestors outside their direct line
+ */
+export enum BranchDirection {
+  Descendants = 'descendants',
+  Ancestors = 'ancestors',
+  Collateral = 'collateral',
+}
+
+export interface CollapsedBranch {
+  personId: string;
+  direction: BranchDirection;
+}
+
+/**
+ * What the chart shows; the persons themselves are never removed
+ */
+export interface PedigreeView {
+  collapsed: CollapsedBranch[];
+  focus?: boolean;  // Only the proband's ancestors, descendants and first-degree relatives
+}
+
+/**
+ * Layout engines the chart can be drawn with
+ * - Generations: one row per generation, everyone shown
+ * - Descendants: compact descendant chart from one founder
+ * - Ancestors: bracket chart of the proband's ancestors
+ * - Horizontal: generations as columns, read left to right
+ */
+export enum LayoutEngineId {
+  Generations = 'generations',
+  Descendants = 'descendants',
+  Ancestors = 'ancestors',
+  Horizontal = 'horizontal',
+}
+
+export interface LayoutSelection {
+  engine: LayoutEngineId;
+  rootId?: string;  // Founder or proband the chart starts from; picked automatically when unset
 }
 
 export interface Pedigree {
@@ -134,11 +259,25 @@ export interface Pedigree {
   persons: Map<string, Person>;
   relationships: Map<string, Relationship>;
 
+  // Trait catalogue; without one, phenotypes[0] is drawn black as before
+  traits?: Trait[];
+
+  // Collapsed branches and focus mode
+  view?: PedigreeView;
+
+  // Layout engine the chart is drawn with; generations when unset
+  layoutSelection?: LayoutSelection;
+
+  // Sizes and spacing chosen for this document; the rest follow the user's defaults
+  chartSettings?: Partial<ChartSettings>;
+
   // Metadata
   metadata: {
     createdAt: Date;
     modifiedAt: Date;
     version: string;
+    asOfDate?: PartialDate;  // Date ages are computed at; today when unset
+    affectedThreshold?: number;  // Quantitative values at or above it are affected
   };
 }
 
@@ -155,6 +294,26 @@ export interface PedRecord {
   phenotype: Phenotype;
   rawSex: string;      // Original value from file
   rawPhenotype: string; // Original value from file
+
+  // Extended PED columns (only set when the file has a #FID header line)
+  status?: Partial<PersonStatus>;
+  isCarrier?: boolean;
+  twinGroupId?: string;
+  twinType?: TwinType;
+
+  // Set when the phenotype column is parsed as a quantitative trait
+  quantitativeValue?: number;
+}
+
+/**
+ * How PedParser interprets the phenotype column
+ */
+export interface PedParseOptions {
+  missingCodes: string[];      // Values meaning "unknown", e.g. 0, -9, NA
+  unaffectedCodes: string[];
+  affectedCodes: string[];
+  quantitative: boolean;       // Phenotype column holds a quantitative trait
+  affectedThreshold?: number;  // Quantitative only: stored with the pedigree, values >= threshold are affected
 }
 
 export interface PedParseResult {
@@ -169,10 +328,183 @@ export interface PedParseError {
   rawLine: string;
 }
 
+// ============================================
+// Native Document Format Types
+// ============================================
+
+/**
+ * Identifier written into every native document
+ */
+export const DOCUMENT_FORMAT = 'pedigree-draw';
+
+/**
+ * Version of the Pedigree data model, stamped into Pedigree.metadata.version
+ */
+export const CURRENT_SCHEMA_VERSION = '1.3.0';
+
+/**
+ * JSON-safe representation of a Pedigree (Maps become arrays, Dates become ISO strings)
+ */
+export interface SerializedPedigree {
+  id: string;
+  familyId: string;
+  name?: string;
+  persons: Person[];
+  relationships: Relationship[];
+  traits?: Trait[];
+  view?: PedigreeView;
+  layoutSelection?: LayoutSelection;
+  chartSettings?: Partial<ChartSettings>;
+  metadata: {
+    createdAt: string;
+    modifiedAt: string;
+    version: string;
+    asOfDate?: PartialDate;
+    affectedThreshold?: number;
+  };
+}
+
+export interface PedigreeDocument {
+  format: typeof DOCUMENT_FORMAT;
+  pedigree: SerializedPedigree;
+}
+
+export interface DocumentParseError {
+  path: string;    // Location in the document, e.g. "pedigree.persons[2].sex"
+  message: string;
+}
+
+/**
+ * One applied schema upgrade, e.g. 1.0.0 -> 1.1.0
+ */
+export interface MigrationStep {
+  from: string;
+  to: string;
+  description: string;
+  changes: string[];  // Human-readable list of what was rewritten
+}
+
+export interface DocumentParseResult {
+  pedigree: Pedigree | null;
+  errors: DocumentParseError[];
+  warnings: string[];
+  migrations: MigrationStep[];
+}
+
+// ============================================
+// Validation Types
+// ============================================
+
+export enum IssueSeverity {
+  Error = 'error',
+  Warning = 'warning',
+}
+
+export enum ValidationIssueCode {
+  AncestryCycle = 'ancestry-cycle',
+  FatherNotMale = 'father-not-male',
+  MotherNotFemale = 'mother-not-female',
+  MissingParent = 'missing-parent',
+  ChildrenMismatch = 'children-mismatch',
+  RelationshipMissingPerson = 'relationship-missing-person',
+  RelationshipChildMismatch = 'relationship-child-mismatch',
+  TwinParentMismatch = 'twin-parent-mismatch',
+  MultipleProbands = 'multiple-probands',
+}
+
+export interface ValidationIssue {
+  code: ValidationIssueCode;
+  severity: IssueSeverity;
+  message: string;
+  personIds: string[];       // Persons involved, first one is selected on click
+  relationshipId?: string;   // Set for relationship issues
+}
+
+// ============================================
+// Analysis Types
+// ============================================
+
+export enum InheritanceMode {
+  AutosomalDominant = 'AD',
+  AutosomalRecessive = 'AR',
+  XLinkedDominant = 'XLD',
+  XLinkedRecessive = 'XLR',
+  Mitochondrial = 'MT',
+}
+
+/**
+ * A finding that contradicts a mode of inheritance
+ * Error: impossible under the mode without a new mutation or misattributed parentage
+ * Warning: possible, but atypical for the mode
+ */
+export interface InheritanceIssue {
+  severity: IssueSeverity;
+  message: string;
+  personIds: string[];       // Persons involved, the inconsistent one first
+}
+
+export interface InheritanceModeResult {
+  mode: InheritanceMode;
+  issues: InheritanceIssue[];
+  inconsistentIds: string[]; // Persons named first by an issue
+  errorCount: number;
+  warningCount: number;
+}
+
+// Modes with a single-gene genotype model
+export type MonogenicMode = Exclude<InheritanceMode, InheritanceMode.Mitochondrial>;
+
+export enum Genotype {
+  Noncarrier = 'noncarrier',
+  Heterozygous = 'heterozygous',
+  Homozygous = 'homozygous',     // Two variant alleles
+  Hemizygous = 'hemizygous',     // X-linked variant in a male
+}
+
+export interface RiskModel {
+  mode: MonogenicMode;
+  penetrance: number;            // P(affected | genotype that can show the trait), 0-1
+  alleleFrequency: number;       // Population frequency of the variant allele, 0-1
+  traitIndex: number;            // Trait whose statuses are the evidence
+}
+
+export interface GenotypeProbability {
+  genotype: Genotype;
+  probability: number;
+}
+
+export interface RiskResult {
+  personId: string;
+  genotypes: GenotypeProbability[];
+  carrierRisk: number;           // P(heterozygous)
+  variantRisk: number;           // P(at least one variant allele)
+  affectedRisk: number;          // P(affected); informative for persons of unknown status
+}
+
+/**
+ * A line of descent joining two persons through a common ancestor
+ */
+export interface KinshipPath {
+  ancestorId: string;
+  personIds: string[];           // From the first person up to the ancestor and down to the second
+}
+
+export interface KinshipResult {
+  coefficient: number;           // Chance that alleles drawn from each person are identical by descent
+  relationship: string | null;   // Plain words, e.g. "first cousins once removed"; null when unrelated
+  generations: [number, number] | null;  // Steps from each person up to the nearest common ancestor
+  paths: KinshipPath[];
+}
+
 // ============================================
 // Layout Types
 // ============================================
 
+/**
+ * Direction generations run in: top to bottom, or left to right
+ */
+export type LayoutOrientation = 'vertical' | 'horizontal';
+
 export interface LayoutOptions {
   nodeWidth: number;
   nodeHeight: number;
@@ -180,6 +512,7 @@ export interface LayoutOptions {
   verticalSpacing: number;
   siblingSpacing: number;
   spouseSpacing: number;
+  respectPins: boolean;  // Keep pinned persons where they are and place the rest around them
 }
 
 export interface LayoutNode {
@@ -215,8 +548,17 @@ export interface RenderOptions {
   lineWidth: number;
   showLabels: boolean;
   showGenerationNumbers: boolean;
+  showIndividualNumbers: boolean;  // "II-3" under each symbol
+  showPins: boolean;               // Marker on persons pinned by hand
+  orientation: LayoutOrientation;  // Set by the layout engine in use
 }
 
+/**
+ * Layout and render options editable in the settings panel
+ */
+export type ChartSettings = Omit<LayoutOptions, 'respectPins'> &
+  Pick<RenderOptions, 'symbolSize' | 'lineWidth' | 'showLabels' | 'showGenerationNumbers'>;
+
 export interface ConnectionPath {
   type: 'spouse' | 'parent-child' | 'sibling' | 'twin' | 'indicator';
   from: { x: number; y: number };
@@ -240,7 +582,7 @@ export interface ConnectionPath {
 /**
  * Generate a UUID that works in non-secure contexts (HTTP)
  */
-function generateUUID(): string {
+export function generateUUID(): string {
   // Use crypto.randomUUID if available (secure context)
   if (typeof crypto !== 'undefined' && crypto.randomUUID) {
     return crypto.randomUUID();
@@ -268,6 +610,7 @@ export function createDefaultPersonStatus(): PersonStatus {
     isStillbirth: false,
     isPregnancy: false,
     isInfertile: false,
+    isEvaluated: false,
   };
 }
 
@@ -305,11 +648,31 @@ export function createPedigree(familyId: string): Pedigree {
     metadata: {
       createdAt: new Date(),
       modifiedAt: new Date(),
-      version: '1.0.0',
+      version: CURRENT_SCHEMA_VERSION,
     },
   };
 }
 
+export function createGeneticTest(gene: string = ''): GeneticTest {
+  return {
+    id: generateUUID(),
+    gene,
+    zygosity: Zygosity.Heterozygous,
+    result: TestResult.Positive,
+  };
+}
+
+export function createTrait(name: string, slot: number): Trait {
+  const colors = ['#333333', '#1976D2', '#D32F2F', '#388E3C'];
+  return {
+    id: generateUUID(),
+    name,
+    color: colors[slot % colors.length],
+    pattern: TraitPattern.Solid,
+    slot,
+  };
+}
+
 export function createRelationship(
   person1Id: string,
   person2Id: string,
@@ -0,0 +1,796 @@
+/**
+ * Native Document Parser
+ *
+ * Reads the versioned pedigree-draw JSON format written by DocumentWriter.
+ * Older documents are first upgraded by the SchemaMigrator. The document is
+ * then validated field by field; every problem is reported with its location
+ * (e.g. "pedigree.persons[2].sex") so malformed files can be fixed.
+ */
+
+import {
+  type AggregateCount,
+  type PartialDate,
+  type DocumentParseError,
+  type DocumentParseResult,
+  type Pedigree,
+  type Person,
+  type PersonMetadata,
+  type PersonStatus,
+  type Relationship,
+  Sex,
+  Phenotype,
+  RelationshipType,
+  PartnershipStatus,
+  ChildlessReason,
+  TwinType,
+  TraitPattern,
+  TestResult,
+  Zygosity,
+  BranchDirection,
+  LayoutEngineId,
+  type LayoutSelection,
+  type ChartSettings,
+  type Trait,
+  type GeneticTest,
+  type CollapsedBranch,
+  type PedigreeView,
+  type MigrationStep,
+  DOCUMENT_FORMAT,
+  createDefaultPersonStatus,
+} from '@/core/model/types';
+import { schemaMigrator } from '@/core/migration/SchemaMigrator';
+import { DEFAULT_CHART_SETTINGS, settingError } from '@/core/model/chartSettings';
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEnumValue<T extends string>(values: Record<string, T>, value: unknown): value is T {
+  return typeof value === 'string' && (Object.values(values) as string[]).includes(value);
+}
+
+const STRING_METADATA_KEYS = ['label', 'label2', 'notes', 'causeOfDeath'] as const;
+const BOOLEAN_METADATA_KEYS = ['showBirthYear', 'showDeathYear', 'showAge'] as const;
+const NUMBER_METADATA_KEYS = ['age', 'quantitativeValue', 'gestationalAge'] as const;
+const DATE_METADATA_KEYS = ['birthDate', 'deathDate'] as const;
+
+export class DocumentParser {
+  /**
+   * Parse native document content into a Pedigree
+   */
+  parse(content: string): DocumentParseResult {
+    let raw: unknown;
+
+    try {
+      raw = JSON.parse(content);
+    } catch (error) {
+      return {
+        pedigree: null,
+        errors: [{
+          path: '',
+          message: `Invalid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        }],
+        warnings: [],
+        migrations: [],
+      };
+    }
+
+    return this.fromDocument(raw);
+  }
+
+  /**
+   * Validate an already-decoded document object and build the Pedigree
+   */
+  fromDocument(raw: unknown): DocumentParseResult {
+    const errors: DocumentParseError[] = [];
+    const warnings: string[] = [];
+    let migrations: MigrationStep[] = [];
+
+    if (!isObject(raw)) {
+      errors.push({ path: '', message: 'Document must be a JSON object' });
+      return { pedigree: null, errors, warnings, migrations };
+    }
+
+    if (raw.format !== DOCUMENT_FORMAT) {
+      errors.push({
+        path: 'format',
+        message: `Not a ${DOCUMENT_FORMAT} document (format is ${JSON.stringify(raw.format)})`,
+      });
+      return { pedigree: null, errors, warnings, migrations };
+    }
+
+    let document: JsonObject;
+    try {
+      const migrated = schemaMigrator.migrate(raw);
+      document = migrated.document;
+      migrations = migrated.steps;
+    } catch (error) {
+      errors.push({
+        path: 'pedigree.metadata.version',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return { pedigree: null, errors, warnings, migrations };
+    }
+
+    const pedigree = this.readPedigree(document.pedigree, 'pedigree', errors);
+
+    if (!pedigree || errors.length > 0) {
+      return { pedigree: null, errors, warnings, migrations };
+    }
+
+    warnings.push(...this.checkReferences(pedigree));
+
+    return { pedigree, errors, warnings, migrations };
+  }
+
+  private readPedigree(
+    raw: unknown,
+    path: string,
+    errors: DocumentParseError[]
+  ): Pedigree | null {
+    if (!isObject(raw)) {
+      errors.push({ path, message: 'Expected an object' });
+      return null;
+    }
+
+    const metadata = this.readPedigreeMetadata(raw.metadata, `${path}.metadata`, errors);
+    const id = this.readString(raw, 'id', path, errors);
+    const familyId = this.readString(raw, 'familyId', path, errors);
+    const name = this.readOptionalString(raw, 'name', path, errors);
+
+    const persons = new Map<string, Person>();
+    if (!Array.isArray(raw.persons)) {
+      errors.push({ path: `${path}.persons`, message: 'Expected an array' });
+    } else {
+      raw.persons.forEach((rawPerson, index) => {
+        const personPath = `${path}.persons[${index}]`;
+        const person = this.readPerson(rawPerson, personPath, errors);
+        if (!person) return;
+
+        if (persons.has(person.id)) {
+          errors.push({ path: `${personPath}.id`, message: `Duplicate person ID "${person.id}"` });
+          return;
+        }
+        persons.set(person.id, person);
+      });
+    }
+
+    const relationships = new Map<string, Relationship>();
+    if (!Array.isArray(raw.relationships)) {
+      errors.push({ path: `${path}.relationships`, message: 'Expected an array' });
+    } else {
+      raw.relationships.forEach((rawRelationship, index) => {
+        const relationshipPath = `${path}.relationships[${index}]`;
+        const relationship = this.readRelationship(rawRelationship, relationshipPath, errors);
+        if (!relationship) return;
+
+        if (relationships.has(relationship.id)) {
+          errors.push({
+            path: `${relationshipPath}.id`,
+            message: `Duplicate relationship ID "${relationship.id}"`,
+          });
+          return;
+        }
+        relationships.set(relationship.id, relationship);
+      });
+    }
+
+    let traits: Trait[] | undefined;
+    if (raw.traits !== undefined) {
+      if (!Array.isArray(raw.traits)) {
+        errors.push({ path: `${path}.traits`, message: 'Expected an array' });
+      } else {
+        traits = raw.traits
+          .map((rawTrait, index) => this.readTrait(rawTrait, `${path}.traits[${index}]`, errors))
+          .filter((trait): trait is Trait => trait !== null);
+      }
+    }
+
+    const view = raw.view !== undefined ? this.readView(raw.view, `${path}.view`, errors) : undefined;
+    const layoutSelection = raw.layoutSelection !== undefined
+      ? this.readLayoutSelection(raw.layoutSelection, `${path}.layoutSelection`, errors)
+      : undefined;
+    const chartSettings = raw.chartSettings !== undefined
+      ? this.readChartSettings(raw.chartSettings, `${path}.chartSettings`, errors)
+      : undefined;
+
+    if (id === null || familyId === null || !metadata) {
+      return null;
+    }
+
+    const pedigree: Pedigree = {
+      id,
+      familyId,
+      persons,
+      relationships,
+      metadata,
+    };
+
+    if (name !== undefined) {
+      pedigree.name = name;
+    }
+    if (traits !== undefined) {
+      pedigree.traits = traits;
+    }
+    if (view) {
+      pedigree.view = view;
+    }
+    if (layoutSelection) {
+      pedigree.layoutSelection = layoutSelection;
+    }
+    if (chartSettings) {
+      pedigree.chartSettings = chartSettings;
+    }
+
+    return pedigree;
+  }
+
+  private readView(
+    raw: unknown,
+    path: string,
+    errors: DocumentParseError[]
+  ): PedigreeView | null {
+    if (!isObject(raw)) {
+      errors.push({ path, message: 'Expected an object' });
+      return null;
+    }
+
+    const focus = this.readOptionalBoolean(raw, 'focus', path, errors);
+    const collapsed: CollapsedBranch[] = [];
+    if (!Array.isArray(raw.collapsed)) {
+      errors.push({ path: `${path}.collapsed`, message: 'Expected an array' });
+      return null;
+    }
+
+    raw.collapsed.forEach((rawBranch, index) => {
+      const branchPath = `${path}.collapsed[${index}]`;
+      if (!isObject(rawBranch)) {
+        errors.push({ path: branchPath, message: 'Expected an object' });
+        return;
+      }
+      const personId = this.readString(rawBranch, 'personId', branchPath, errors);
+      const direction = this.readEnum(rawBranch, 'direction', BranchDirection, branchPath, errors);
+      if (personId !== null && direction !== null) {
+        collapsed.push({ personId, direction });
+      }
+    });
+
+    const view: PedigreeView = { collapsed };
+    if (focus !== undefined) view.focus = focus;
+    return view;
+  }
+
+  private readLayoutSelection(
+    raw: unknown,
+    path: string,
+    errors: DocumentParseError[]
+  ): LayoutSelection | null {
+    if (!isObject(raw)) {
+      errors.push({ path, message: 'Expected an object' });
+      return null;
+    }
+
+    const engine = this.readEnum(raw, 'engine', LayoutEngineId, path, errors);
+    const rootId = this.readOptionalString(raw, 'rootId', path, errors);
+    if (engine === null) {
+      return null;
+    }
+
+    const selection: LayoutSelection = { engine };
+    if (rootId !== undefined) selection.rootId = rootId;
+    return selection;
+  }
+
+  private readChartSettings(
+    raw: unknown,
+    path: string,
+    errors: DocumentParseError[]
+  ): Partial<ChartSettings> | null {
+    if (!isObject(raw)) {
+      errors.push({ path, message: 'Expected an object' });
+      return null;
+    }
+
+    // Settings this version does not know are left out
+    const settings: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(raw)) {
+      if (!(key in DEFAULT_CHART_SETTINGS)) continue;
+      const message = settingError(key, value);
+      if (message) {
+        errors.push({ path: `${path}.${key}`, message });
+        continue;
+      }
+      settings[key] = value;
+    }
+    return settings as Partial<ChartSettings>;
+  }
+
+  private readPedigreeMetadata(
+    raw: unknown,
+    path: string,
+    errors: DocumentParseError[]
+  ): Pedigree['metadata'] | null {
+    if (!isObject(raw)) {
+      errors.push({ path, message: 'Expected an object' });
+      return null;
+    }
+
+    const createdAt = this.readDate(raw, 'createdAt', path, errors);
+    const modifiedAt = this.readDate(raw, 'modifiedAt', path, errors);
+    const version = this.readString(raw, 'version', path, errors);
+    const asOfDate = this.readPartialDate(raw, 'asOfDate', path, errors);
+    const affectedThreshold = this.readOptionalNumber(raw, 'affectedThreshold', path, errors);
+
+    if (!createdAt || !modifiedAt || version === null) {
+      return null;
+    }
+
+    const metadata: Pedigree['metadata'] = { createdAt, modifiedAt, version };
+    if (asOfDate !== undefined) metadata.asOfDate = asOfDate;
+    if (affectedThreshold !== undefined) metadata.affectedThreshold = affectedThreshold;
+    return metadata;
+  }
+
+  private readPerson(
+    raw: unknown,
+    path: string,
+    errors: DocumentParseError[]
+  ): Person | null {
+    if (!isObject(raw)) {
+      errors.push({ path, message: 'Expected an object' });
+      return null;
+    }
+
+    const errorCount = errors.length;
+
+    const id = this.readString(raw, 'id', path, errors);
+    const familyId = this.readString(raw, 'familyId', path, errors);
+    const sex = this.readEnum(raw, 'sex', Sex, path, errors);
+    const phenotypes = this.readEnumArray(raw, 'phenotypes', Phenotype, path, errors);
+    const status = this.readStatus(raw.status, `${path}.status`, errors);
+    const metadata = this.readPersonMetadata(raw.metadata, `${path}.metadata`, errors);
+    const fatherId = this.readNullableString(raw, 'fatherId', path, errors);
+    const motherId = this.readNullableString(raw, 'motherId', path, errors);
+    const spouseIds = this.readStringArray(raw, 'spouseIds', path, errors);
+    const childrenIds = this.readStringArray(raw, 'childrenIds', path, errors);
+    const twinType = this.readEnum(raw, 'twinType', TwinType, path, errors);
+    const twinGroupId = this.readNullableString(raw, 'twinGroupId', path, errors);
+    const aggregateCount = this.readAggregateCount(raw, 'aggregateCount', path, errors);
+    const geneticTests = this.readGeneticTests(raw.geneticTests, `${path}.geneticTests`, errors);
+    const diagnosisAges = this.readDiagnosisAges(raw, 'diagnosisAges', path, errors);
+    const generationNumber = this.readOptionalString(raw, 'generationNumber', path, errors);
+    const x = this.readOptionalNumber(raw, 'x', path, errors);
+    const y = this.readOptionalNumber(raw, 'y', path, errors);
+    const generation = this.readOptionalNumber(raw, 'generation', path, errors);
+    const pin = this.readPin(raw.pin, `${path}.pin`, errors);
+
+    if (errors.length > errorCount) {
+      return null;
+    }
+
+    const person: Person = {
+      id: id!,
+      familyId: familyId!,
+      sex: sex!,
+      phenotypes: phenotypes!,
+      status: status!,
+      metadata: metadata!,
+      fatherId: fatherId ?? null,
+      motherId: motherId ?? null,
+      spouseIds: spouseIds!,
+      childrenIds: childrenIds!,
+      twinType: twinType!,
+      twinGroupId: twinGroupId ?? null,
+    };
+
+    if (x !== undefined) person.x = x;
+    if (y !== undefined) person.y = y;
+    if (generation !== undefined) person.generation = generation;
+    if (pin !== undefined) person.pin = pin;
+    if (aggregateCount !== undefined) person.aggregateCount = aggregateCount;
+    if (geneticTests !== undefined) person.geneticTests = geneticTests;
+    if (diagnosisAges !== undefined) person.diagnosisAges = diagnosisAges;
+    if (generationNumber !== undefined) person.generationNumber = generationNumber;
+
+    return person;
+  }
+
+  private readPin(
+    raw: unknown,
+    path: string,
+    errors: DocumentParseError[]
+  ): { x: number; y: number } | undefined {
+    if (raw === undefined) return undefined;
+    if (!isObject(raw)) {
+      errors.push({ path, message: 'Expected an object' });
+      return undefined;
+    }
+
+    const x = this.readOptionalNumber(raw, 'x', path, errors);
+    const y = this.readOptionalNumber(raw, 'y', path, errors);
+    if (x === undefined || y === undefined) {
+      errors.push({ path, message: 'Expected x and y' });
+      return undefined;
+    }
+    return { x, y };
+  }
+
+  private readGeneticTests(
+    raw: unknown,
+    path: string,
+    errors: DocumentParseError[]
+  ): GeneticTest[] | undefined {
+    if (raw === undefined) return undefined;
+    if (!Array.isArray(raw)) {
+      errors.push({ path, message: 'Expected an array' });
+      return undefined;
+    }
+
+    const tests: GeneticTest[] = [];
+    raw.forEach((rawTest, index) => {
+      const testPath = `${path}[${index}]`;
+      if (!isObject(rawTest)) {
+        errors.push({ path: testPath, message: 'Expected an object' });
+        return;
+      }
+
+      const errorCount = errors.length;
+      const id = this.readString(rawTest, 'id', testPath, errors);
+      // Blank while the test is still being filled in
+      const gene = this.readOptionalString(rawTest, 'gene', testPath, errors) ?? '';
+      const variant = this.readOptionalString(rawTest, 'variant', testPath, errors);
+      const zygosity = this.readEnum(rawTest, 'zygosity', Zygosity, testPath, errors);
+      const result = this.readEnum(rawTest, 'result', TestResult, testPath, errors);
+      const date = this.readOptionalString(rawTest, 'date', testPath, errors);
+      if (errors.length > errorCount) return;
+
+      const test: GeneticTest = { id: id!, gene, zygosity: zygosity!, result: result! };
+      if (variant !== undefined) test.variant = variant;
+      if (date !== undefined) test.date = date;
+      tests.push(test);
+    });
+
+    return tests;
+  }
+
+  private readStatus(
+    raw: unknown,
+    path: string,
+    errors: DocumentParseError[]
+  ): PersonStatus | null {
+    if (!isObject(raw)) {
+      errors.push({ path, message: 'Expected an object' });
+      return null;
+    }
+
+    // Flags missing from the document default to false
+    const status = createDefaultPersonStatus();
+    for (const key of Object.keys(status) as (keyof PersonStatus)[]) {
+      const value = raw[key];
+      if (value === undefined) continue;
+      if (typeof value !== 'boolean') {
+        errors.push({ path: `${path}.${key}`, message: 'Expected a boolean' });
+        continue;
+      }
+      status[key] = value;
+    }
+
+    return status;
+  }
+
+  private readPersonMetadata(
+    raw: unknown,
+    path: string,
+    errors: DocumentParseError[]
+  ): PersonMetadata | null {
+    if (!isObject(raw)) {
+      errors.push({ path, message: 'Expected an object' });
+      return null;
+    }
+
+    const metadata: PersonMetadata = {};
+
+    for (const key of STRING_METADATA_KEYS) {
+      const value = this.readOptionalString(raw, key, path, errors);
+      if (value !== undefined) metadata[key] = value;
+    }
+    for (const key of BOOLEAN_METADATA_KEYS) {
+      const value = this.readOptionalBoolean(raw, key, path, errors);
+      if (value !== undefined) metadata[key] = value;
+    }
+    for (const key of NUMBER_METADATA_KEYS) {
+      const value = this.readOptionalNumber(raw, key, path, errors);
+      if (value !== undefined) metadata[key] = value;
+    }
+    for (const key of DATE_METADATA_KEYS) {
+      const value = this.readPartialDate(raw, key, path, errors);
+      if (value !== undefined) metadata[key] = value;
+    }
+
+    return metadata;
+  }
+
+  private readTrait(
+    raw: unknown,
+    path: string,
+    errors: DocumentParseError[]
+  ): Trait | null {
+    if (!isObject(raw)) {
+      errors.push({ path, message: 'Expected an object' });
+      return null;
+    }
+
+    const errorCount = errors.length;
+
+    const id = this.readString(raw, 'id', path, errors);
+    const name = this.readString(raw, 'name', path, errors);
+    const color = this.readString(raw, 'color', path, errors);
+    const pattern = this.readEnum(raw, 'pattern', TraitPattern, path, errors);
+    const slot = this.readOptionalNumber(raw, 'slot', path, errors);
+    if (slot === undefined && raw.slot === undefined) {
+      errors.push({ path: `${path}.slot`, message: 'Expected a finite number' });
+    }
+
+    if (errors.length > errorCount) {
+      return null;
+    }
+
+    return { id: id!, name: name!, color: color!, pattern: pattern!, slot: slot! };
+  }
+
+  private readRelationship(
+    raw: unknown,
+    path: string,
+    errors: DocumentParseError[]
+  ): Relationship | null {
+    if (!isObject(raw)) {
+      errors.push({ path, message: 'Expected an object' });
+      return null;
+    }
+
+    const errorCount = errors.length;
+
+    const id = this.readString(raw, 'id', path, errors);
+    const type = this.readEnum(raw, 'type', RelationshipType, path, errors);
+    const person1Id = this.readString(raw, 'person1Id', path, errors);
+    const person2Id = this.readString(raw, 'person2Id', path, errors);
+    const childrenIds = this.readStringArray(raw, 'childrenIds', path, errors);
+    const partnershipStatus = this.readOptionalEnum(raw, 'partnershipStatus', PartnershipStatus, path, errors);
+    const consanguinityDegree = this.readOptionalNumber(raw, 'consanguinityDegree', path, errors);
+    const isSameSex = this.readOptionalBoolean(raw, 'isSameSex', path, errors);
+    const childlessReason = this.readOptionalEnum(raw, 'childlessReason', ChildlessReason, path, errors);
+
+    if (errors.length > errorCount) {
+      return null;
+    }
+
+    const relationship: Relationship = {
+      id: id!,
+      type: type!,
+      person1Id: person1Id!,
+      person2Id: person2Id!,
+      childrenIds: childrenIds!,
+    };
+
+    if (partnershipStatus !== undefined) relationship.partnershipStatus = partnershipStatus;
+    if (consanguinityDegree !== undefined) relationship.consanguinityDegree = consanguinityDegree;
+    if (isSameSex !== undefined) relationship.isSameSex = isSameSex;
+    if (childlessReason !== undefined) relationship.childlessReason = childlessReason;
+
+    return relationship;
+  }
+
+  /**
+   * Report references to persons that are not in the document.
+   * These do not prevent loading; the renderer skips missing nodes.
+   */
+  private checkReferences(pedigree: Pedigree): string[] {
+    const warnings: string[] = [];
+    const has = (id: string) => pedigree.persons.has(id);
+
+    for (const person of pedigree.persons.values()) {
+      if (person.fatherId && !has(person.fatherId)) {
+        warnings.push(`Father ${person.fatherId} of ${person.id} not found in document`);
+      }
+      if (person.motherId && !has(person.motherId)) {
+        warnings.push(`Mother ${person.motherId} of ${person.id} not found in document`);
+      }
+      for (const id of [...person.spouseIds, ...person.childrenIds]) {
+        if (!has(id)) {
+          warnings.push(`Person ${id} referenced by ${person.id} not found in document`);
+        }
+      }
+    }
+
+    for (const relationship of pedigree.relationships.values()) {
+      for (const id of [relationship.person1Id, relationship.person2Id, ...relationship.childrenIds]) {
+        if (!has(id)) {
+          warnings.push(`Person ${id} referenced by relationship ${relationship.id} not found in document`);
+        }
+      }
+    }
+
+    return warnings;
+  }
+
+  // ============================================
+  // Field readers
+  // ============================================
+
+  private readString(obj: JsonObject, key: string, path: string, errors: DocumentParseError[]): string | null {
+    const value = obj[key];
+    if (typeof value !== 'string' || value === '') {
+      errors.push({ path: `${path}.${key}`, message: 'Expected a non-empty string' });
+      return null;
+    }
+    return value;
+  }
+
+  private readOptionalString(obj: JsonObject, key: string, path: string, errors: DocumentParseError[]): string | undefined {
+    const value = obj[key];
+    if (value === undefined) return undefined;
+    if (typeof value !== 'string') {
+      errors.push({ path: `${path}.${key}`, message: 'Expected a string' });
+      return undefined;
+    }
+    return value;
+  }
+
+  private readNullableString(obj: JsonObject, key: string, path: string, errors: DocumentParseError[]): string | null | undefined {
+    const value = obj[key];
+    if (value === null) return null;
+    if (typeof value !== 'string' || value === '') {
+      errors.push({ path: `${path}.${key}`, message: 'Expected a non-empty string or null' });
+      return undefined;
+    }
+    return value;
+  }
+
+  private readOptionalBoolean(obj: JsonObject, key: string, path: string, errors: DocumentParseError[]): boolean | undefined {
+    const value = obj[key];
+    if (value === undefined) return undefined;
+    if (typeof value !== 'boolean') {
+      errors.push({ path: `${path}.${key}`, message: 'Expected a boolean' });
+      return undefined;
+    }
+    return value;
+  }
+
+  private readOptionalNumber(obj: JsonObject, key: string, path: string, errors: DocumentParseError[]): number | undefined {
+    const value = obj[key];
+    if (value === undefined) return undefined;
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      errors.push({ path: `${path}.${key}`, message: 'Expected a finite number' });
+      return undefined;
+    }
+    return value;
+  }
+
+  private readAggregateCount(obj: JsonObject, key: string, path: string, errors: DocumentParseError[]): AggregateCount | undefined {
+    const value = obj[key];
+    if (value === undefined) return undefined;
+    if (value !== 'n' && (typeof value !== 'number' || !Number.isInteger(value) || value < 1)) {
+      errors.push({ path: `${path}.${key}`, message: 'Expected a positive integer or "n"' });
+      return undefined;
+    }
+    return value;
+  }
+
+  private readPartialDate(obj: JsonObject, key: string, path: string, errors: DocumentParseError[]): PartialDate | undefined {
+    const value = obj[key];
+    if (value === undefined) return undefined;
+
+    const isPart = (part: unknown, min: number, max: number) =>
+      part === undefined || (typeof part === 'number' && Number.isInteger(part) && part >= min && part <= max);
+
+    if (
+      !isObject(value) ||
+      typeof value.year !== 'number' || !Number.isInteger(value.year) ||
+      !isPart(value.month, 1, 12) ||
+      !isPart(value.day, 1, 31) ||
+      (value.day !== undefined && value.month === undefined) ||
+      (value.approximate !== undefined && typeof value.approximate !== 'boolean')
+    ) {
+      errors.push({
+        path: `${path}.${key}`,
+        message: 'Expected a date object with an integer year and optional month, day and approximate',
+      });
+      return undefined;
+    }
+
+    const date: PartialDate = { year: value.year };
+    if (value.month !== undefined) date.month = value.month as number;
+    if (value.day !== undefined) date.day = value.day as number;
+    if (value.approximate === true) date.approximate = true;
+    return date;
+  }
+
+  private readDiagnosisAges(obj: JsonObject, key: string, path: string, errors: DocumentParseError[]): Array<number | null> | undefined {
+    const value = obj[key];
+    if (value === undefined) return undefined;
+    if (!Array.isArray(value) || !value.every(item => item === null || (typeof item === 'number' && Number.isFinite(item) && item >= 0))) {
+      errors.push({ path: `${path}.${key}`, message: 'Expected an array of ages (non-negative numbers or null)' });
+      return undefined;
+    }
+    return [...value];
+  }
+
+  private readDate(obj: JsonObject, key: string, path: string, errors: DocumentParseError[]): Date | null {
+    const value = obj[key];
+    const date = typeof value === 'string' ? new Date(value) : null;
+    if (!date || isNaN(date.getTime())) {
+      errors.push({ path: `${path}.${key}`, message: 'Expected an ISO 8601 date string' });
+      return null;
+    }
+    return date;
+  }
+
+  private readStringArray(obj: JsonObject, key: string, path: string, errors: DocumentParseError[]): string[] | null {
+    const value = obj[key];
+    if (!Array.isArray(value) || !value.every(item => typeof item === 'string' && item !== '')) {
+      errors.push({ path: `${path}.${key}`, message: 'Expected an array of non-empty strings' });
+      return null;
+    }
+    return [...value];
+  }
+
+  private readEnum<T extends string>(
+    obj: JsonObject,
+    key: string,
+    values: Record<string, T>,
+    path: string,
+    errors: DocumentParseError[]
+  ): T | null {
+    const value = obj[key];
+    if (!isEnumValue(values, value)) {
+      errors.push({
+        path: `${path}.${key}`,
+        message: `Expected one of ${Object.values(values).join(', ')} (got ${JSON.stringify(value)})`,
+      });
+      return null;
+    }
+    return value;
+  }
+
+  private readOptionalEnum<T extends string>(
+    obj: JsonObject,
+    key: string,
+    values: Record<string, T>,
+    path: string,
+    errors: DocumentParseError[]
+  ): T | undefined {
+    if (obj[key] === undefined) return undefined;
+    return this.readEnum(obj, key, values, path, errors) ?? undefined;
+  }
+
+  private readEnumArray<T extends string>(
+    obj: JsonObject,
+    key: string,
+    values: Record<string, T>,
+    path: string,
+    errors: DocumentParseError[]
+  ): T[] | null {
+    const value = obj[key];
+    if (!Array.isArray(value)) {
+      errors.push({ path: `${path}.${key}`, message: 'Expected an array' });
+      return null;
+    }
+
+    const result: T[] = [];
+    value.forEach((item, index) => {
+      if (!isEnumValue(values, item)) {
+        errors.push({
+          path: `${path}.${key}[${index}]`,
+          message: `Expected one of ${Object.values(values).join(', ')} (got ${JSON.stringify(item)})`,
+        });
+        return;
+      }
+      result.push(item);
+    });
+    return result;
+  }
+}
+
+export const documentParser = new DocumentParser();
@@ -0,0 +1,73 @@
+/**
+ * Native Document Writer
+ *
+ * Serializes a Pedigree to the versioned pedigree-draw JSON format.
+ * Unlike PED, every field of the model is kept (statuses, twins,
+ * partnership details, notes, labels, all phenotypes and manual positions).
+ */
+
+import {
+  type Pedigree,
+  type PedigreeDocument,
+  type SerializedPedigree,
+  DOCUMENT_FORMAT,
+} from '@/core/model/types';
+
+export class DocumentWriter {
+  /**
+   * Convert Pedigree to native document content
+   */
+  write(pedigree: Pedigree): string {
+    return JSON.stringify(this.toDocument(pedigree), null, 2);
+  }
+
+  /**
+   * Build the JSON-safe document object
+   */
+  toDocument(pedigree: Pedigree): PedigreeDocument {
+    return {
+      format: DOCUMENT_FORMAT,
+      pedigree: this.serializePedigree(pedigree),
+    };
+  }
+
+  private serializePedigree(pedigree: Pedigree): SerializedPedigree {
+    const serialized: SerializedPedigree = {
+      id: pedigree.id,
+      familyId: pedigree.familyId,
+      persons: Array.from(pedigree.persons.values()),
+      relationships: Array.from(pedigree.relationships.values()),
+      metadata: {
+        createdAt: pedigree.metadata.createdAt.toISOString(),
+        modifiedAt: pedigree.metadata.modifiedAt.toISOString(),
+        version: pedigree.metadata.version,
+      },
+    };
+
+    if (pedigree.name !== undefined) {
+      serialized.name = pedigree.name;
+    }
+    if (pedigree.traits !== undefined) {
+      serialized.traits = pedigree.traits;
+    }
+    if (pedigree.view !== undefined) {
+      serialized.view = pedigree.view;
+    }
+    if (pedigree.layoutSelection !== undefined) {
+      serialized.layoutSelection = pedigree.layoutSelection;
+    }
+    if (pedigree.chartSettings !== undefined) {
+      serialized.chartSettings = pedigree.chartSettings;
+    }
+    if (pedigree.metadata.asOfDate !== undefined) {
+      serialized.metadata.asOfDate = pedigree.metadata.asOfDate;
+    }
+    if (pedigree.metadata.affectedThreshold !== undefined) {
+      serialized.metadata.affectedThreshold = pedigree.metadata.affectedThreshold;
+    }
+
+    return serialized;
+  }
+}
+
+export const documentWriter = new DocumentWriter();
@@ -9,6 +9,15 @@
  * Column 5: Sex (1 = male, 2 = female, other = unknown)
  * Column 6: Phenotype (0/-9 = unknown, 1 = unaffected, 2 = affected)
  *
+ * The phenotype encoding is configurable (PedParseOptions): PLINK-style
+ * case/control 0/1 files, custom missing codes such as NA, and quantitative
+ * traits, which are kept in person metadata. Their affected status follows
+ * the threshold stored with the pedigree (see traitStatus), so it can be changed later.
+ *
+ * Also reads the extended PED dialect: a "#FID IID PID MID SEX PHENO ..." header
+ * line names additional columns (deceased, proband, twins, carrier, ...).
+ * See pedColumns.ts for the supported column names.
+ *
  * @see https://gatk.broadinstitute.org/hc/en-us/articles/360035531972-PED-Pedigree-format
  */
 
@@ -16,18 +25,62 @@ import {
   type PedRecord,
   type PedParseResult,
   type PedParseError,
+  type PedParseOptions,
   type Person,
+  type PersonStatus,
   type Pedigree,
   type Relationship,
   Sex,
   Phenotype,
   RelationshipType,
+  TwinType,
   createPerson,
   createPedigree,
   createRelationship,
 } from '@/core/model/types';
+import {
+  PED_BASE_COLUMNS,
+  PED_STATUS_COLUMNS,
+  PED_CARRIER_COLUMN,
+  PED_TWIN_COLUMN,
+  PED_TWIN_TYPE_COLUMN,
+  EXTENDED_PED_COLUMNS,
+} from './pedColumns';
+
+export const DEFAULT_PED_PARSE_OPTIONS: PedParseOptions = {
+  missingCodes: ['0', '-9'],
+  unaffectedCodes: ['1'],
+  affectedCodes: ['2'],
+  quantitative: false,
+};
+
+/**
+ * PLINK --1 encoding: 0 = unaffected, 1 = affected
+ */
+export const CASE_CONTROL_PED_PARSE_OPTIONS: PedParseOptions = {
+  missingCodes: ['-9', 'NA'],
+  unaffectedCodes: ['0'],
+  affectedCodes: ['1'],
+  quantitative: false,
+};
+
+/**
+ * Quantitative trait; 0 is a valid measurement, so only -9/NA are missing
+ */
+export const QUANTITATIVE_PED_PARSE_OPTIONS: PedParseOptions = {
+  missingCodes: ['-9', 'NA'],
+  unaffectedCodes: [],
+  affectedCodes: [],
+  quantitative: true,
+};
 
 export class PedParser {
+  private options: PedParseOptions;
+
+  constructor(options: Partial<PedParseOptions> = {}) {
+    this.options = { ...DEFAULT_PED_PARSE_OPTIONS, ...options };
+  }
+
   /**
    * Parse PED file content into records
    */
@@ -36,19 +89,36 @@ export class PedParser {
     const records: PedRecord[] = [];
     const errors: PedParseError[] = [];
     const warnings: string[] = [];
+    let header: string[] | null = null;
+    // Unrecognized phenotype value -> line numbers that fell back to Unknown
+    const unrecognizedPhenotypes = new Map<string, number[]>();
 
     lines.forEach((line, index) => {
       const lineNumber = index + 1;
       const trimmedLine = line.trim();
 
+      // Extended PED header must come before the first record
+      if (trimmedLine.startsWith('#') && records.length === 0 && !header) {
+        header = this.parseHeader(trimmedLine);
+        if (header) {
+          warnings.push(...this.checkHeader(header, lineNumber));
+        }
+      }
+
       // Skip empty lines and comments
       if (!trimmedLine || trimmedLine.startsWith('#')) {
         return;
       }
 
       try {
-        const record = this.parseLine(trimmedLine, lineNumber);
+        const record = this.parseLine(trimmedLine, lineNumber, header, warnings);
         records.push(record);
+
+        if (!this.isRecognizedPhenotype(record.rawPhenotype)) {
+          const lineNumbers = unrecognizedPhenotypes.get(record.rawPhenotype) ?? [];
+          lineNumbers.push(lineNumber);
+          unrecognizedPhenotypes.set(record.rawPhenotype, lineNumbers);
+        }
       } catch (error) {
         errors.push({
           line: lineNumber,
@@ -58,6 +128,13 @@ export class PedParser {
       }
     });
 
+    for (const [value, lineNumbers] of unrecognizedPhenotypes) {
+      warnings.push(
+        `Unrecognized phenotype "${value}" on ${lineNumbers.length === 1 ? 'line' : 'lines'} ` +
+        `${lineNumbers.join(', ')}, treated as unknown`
+      );
+    }
+
     // Validate relationships
     const validationWarnings = this.validateRecords(records);
     warnings.push(...validationWarnings);
@@ -65,10 +142,45 @@ export class PedParser {
     return { records, errors, warnings };
   }
 
+  /**
+   * Change the phenotype encoding used by subsequent parse calls
+   */
+  setOptions(options: Partial<PedParseOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  /**
+   * Recognize an extended PED header ("#FID IID ...")
+   * Returns the upper-cased column names, or null for an ordinary comment
+   */
+  private parseHeader(line: string): string[] | null {
+    const columns = line.slice(1).trim().split(/\s+/).map(c => c.toUpperCase());
+    if (columns[0] !== 'FID' || columns[1] !== 'IID' || columns.length < PED_BASE_COLUMNS.length) {
+      return null;
+    }
+    return columns;
+  }
+
+  /**
+   * Warn about header columns this parser does not understand
+   */
+  private checkHeader(header: string[], lineNumber: number): string[] {
+    const known = new Set(EXTENDED_PED_COLUMNS);
+    return header
+      .slice(PED_BASE_COLUMNS.length)
+      .filter(column => !known.has(column))
+      .map(column => `Line ${lineNumber}: unknown column ${column} will be ignored`);
+  }
+
   /**
    * Parse a single line of PED file
    */
-  private parseLine(line: string, lineNumber: number): PedRecord {
+  private parseLine(
+    line: string,
+    lineNumber: number,
+    header: string[] | null,
+    warnings: string[]
+  ): PedRecord {
     const fields = line.split(/\s+/);
 
     if (fields.length < 6) {
@@ -84,7 +196,7 @@ export class PedParser {
       throw new Error('IDs cannot start with #');
     }
 
-    return {
+    const record: PedRecord = {
       familyId,
       individualId,
       paternalId,
@@ -94,6 +206,108 @@ export class PedParser {
       rawSex,
       rawPhenotype,
     };
+
+    if (this.options.quantitative) {
+      const value = this.parseQuantitativeValue(rawPhenotype);
+      if (value !== undefined) {
+        record.quantitativeValue = value;
+      }
+    }
+
+    if (header) {
+      this.parseExtendedColumns(record, header, fields, lineNumber, warnings);
+    }
+
+    return record;
+  }
+
+  /**
+   * Read the named columns of an extended PED line into the record
+   */
+  private parseExtendedColumns(
+    record: PedRecord,
+    header: string[],
+    fields: string[],
+    lineNumber: number,
+    warnings: string[]
+  ): void {
+    const valueOf = (column: string): string | undefined => {
+      const index = header.indexOf(column);
+      return index >= PED_BASE_COLUMNS.length ? fields[index] : undefined;
+    };
+
+    const status: Partial<PersonStatus> = {};
+    for (const { column, key } of PED_STATUS_COLUMNS) {
+      const flag = this.parseFlag(valueOf(column), column, lineNumber, warnings);
+      if (flag !== undefined) {
+        status[key] = flag;
+      }
+    }
+    record.status = status;
+
+    const isCarrier = this.parseFlag(valueOf(PED_CARRIER_COLUMN), PED_CARRIER_COLUMN, lineNumber, warnings);
+    if (isCarrier !== undefined) {
+      record.isCarrier = isCarrier;
+    }
+
+    const twinGroupId = valueOf(PED_TWIN_COLUMN);
+    if (twinGroupId !== undefined && !this.isMissingValue(twinGroupId)) {
+      record.twinGroupId = twinGroupId;
+      record.twinType = this.parseTwinType(valueOf(PED_TWIN_TYPE_COLUMN), lineNumber, warnings);
+    }
+  }
+
+  /**
+   * Parse a 0/1 flag column
+   * Returns undefined when the column is absent or the value is missing
+   */
+  private parseFlag(
+    value: string | undefined,
+    column: string,
+    lineNumber: number,
+    warnings: string[]
+  ): boolean | undefined {
+    if (value === undefined || this.isMissingValue(value)) {
+      return undefined;
+    }
+
+    switch (value.toLowerCase()) {
+      case '1':
+      case 'y':
+      case 'yes':
+      case 'true':
+        return true;
+      case 'n':
+      case 'no':
+      case 'false':
+        return false;
+      default:
+        warnings.push(`Line ${lineNumber}: invalid ${column} value "${value}", expected 0 or 1`);
+        return undefined;
+    }
+  }
+
+  /**
+   * Parse twin zygosity
+   * MZ = monozygotic, DZ = dizygotic; anything else is treated as dizygotic
+   */
+  private parseTwinType(value: string | undefined, lineNumber: number, warnings: string[]): TwinType {
+    switch (value?.toUpperCase()) {
+      case 'MZ':
+        return TwinType.Monozygotic;
+      case 'DZ':
+        return TwinType.Dizygotic;
+      default:
+        if (value !== undefined && !this.isMissingValue(value)) {
+          warnings.push(`Line ${lineNumber}: invalid ${PED_TWIN_TYPE_COLUMN} value "${value}", expected MZ or DZ`);
+        }
+        // Zygosity unknown - dizygotic is the non-committal NSGC symbol
+        return TwinType.Dizygotic;
+    }
+  }
+
+  private isMissingValue(value: string): boolean {
+    return value === '0' || value === '.' || value === '-9' || value.toUpperCase() === 'NA';
   }
 
   /**
@@ -112,30 +326,62 @@ export class PedParser {
   }
 
   /**
-   * Parse phenotype field
-   * 0, -9 = unknown
-   * 1 = unaffected
-   * 2 = affected
+   * Parse phenotype field using the configured encoding
+   * Default: 0, -9 = unknown, 1 = unaffected, 2 = affected
+   * Quantitative: unknown; the status follows the value and the pedigree's threshold
    */
   private parsePhenotype(value: string): Phenotype {
-    switch (value) {
-      case '1':
-        return Phenotype.Unaffected;
-      case '2':
-        return Phenotype.Affected;
-      case '0':
-      case '-9':
-      default:
-        return Phenotype.Unknown;
+    if (this.isMissingPhenotype(value)) {
+      return Phenotype.Unknown;
+    }
+
+    if (this.options.quantitative) {
+      return Phenotype.Unknown;
+    }
+
+    if (this.options.affectedCodes.includes(value)) {
+      return Phenotype.Affected;
+    }
+    if (this.options.unaffectedCodes.includes(value)) {
+      return Phenotype.Unaffected;
+    }
+    return Phenotype.Unknown;
+  }
+
+  /**
+   * Parse a quantitative phenotype value, undefined for missing or non-numeric values
+   */
+  private parseQuantitativeValue(value: string): number | undefined {
+    if (this.isMissingPhenotype(value)) {
+      return undefined;
+    }
+    const number = Number(value);
+    return value !== '' && Number.isFinite(number) ? number : undefined;
+  }
+
+  private isMissingPhenotype(value: string): boolean {
+    return this.options.missingCodes.some(code => code.toUpperCase() === value.toUpperCase());
+  }
+
+  /**
+   * Whether a phenotype value is a missing code or maps to a phenotype
+   */
+  private isRecognizedPhenotype(value: string): boolean {
+    if (this.isMissingPhenotype(value)) {
+      return true;
+    }
+    if (this.options.quantitative) {
+      return this.parseQuantitativeValue(value) !== undefined;
     }
+    return this.options.affectedCodes.includes(value) || this.options.unaffectedCodes.includes(value);
   }
 
   /**
    * Validate records for consistency
+   * IDs are scoped to their family, so parents must be in the same family
    */
   private validateRecords(records: PedRecord[]): string[] {
     const warnings: string[] = [];
-    const idSet = new Set<string>();
     const fullIdSet = new Set<string>();
 
     for (const record of records) {
@@ -148,19 +394,18 @@ export class PedParser {
         );
       }
       fullIdSet.add(fullId);
-      idSet.add(record.individualId);
     }
 
     // Check parent references
     for (const record of records) {
-      if (record.paternalId !== '0' && !idSet.has(record.paternalId)) {
+      if (record.paternalId !== '0' && !fullIdSet.has(`${record.familyId}:${record.paternalId}`)) {
         warnings.push(
-          `Father ${record.paternalId} of ${record.individualId} not found in pedigree`
+          `Father ${record.paternalId} of ${record.individualId} not found in family ${record.familyId}`
         );
       }
-      if (record.maternalId !== '0' && !idSet.has(record.maternalId)) {
+      if (record.maternalId !== '0' && !fullIdSet.has(`${record.familyId}:${record.maternalId}`)) {
         warnings.push(
-          `Mother ${record.maternalId} of ${record.individualId} not found in pedigree`
+          `Mother ${record.maternalId} of ${record.individualId} not found in family ${record.familyId}`
         );
       }
     }
@@ -169,25 +414,41 @@ export class PedParser {
   }
 
   /**
-   * Convert parsed records to a Pedigree structure
+   * Distinct family IDs in file order
+   */
+  getFamilyIds(records: PedRecord[]): string[] {
+    return Array.from(new Set(records.map(r => r.familyId)));
+  }
+
+  /**
+   * Convert parsed records of one family to a Pedigree structure
+   * Defaults to the first family in the file; records of other families are ignored
    */
-  recordsToPedigree(records: PedRecord[]): Pedigree {
+  recordsToPedigree(records: PedRecord[], familyId?: string): Pedigree {
     if (records.length === 0) {
       return createPedigree('unknown');
     }
 
-    const familyId = records[0].familyId;
-    const pedigree = createPedigree(familyId);
+    const targetFamilyId = familyId ?? records[0].familyId;
+    const familyRecords = records.filter(r => r.familyId === targetFamilyId);
+    const pedigree = createPedigree(targetFamilyId);
+    if (this.options.quantitative && this.options.affectedThreshold !== undefined) {
+      pedigree.metadata.affectedThreshold = this.options.affectedThreshold;
+    }
 
     // First pass: create all persons
-    for (const record of records) {
+    for (const record of familyRecords) {
       const person = createPerson(record.individualId, record.familyId, record.sex);
       person.phenotypes = [record.phenotype];
+      if (record.quantitativeValue !== undefined) {
+        person.metadata.quantitativeValue = record.quantitativeValue;
+      }
+      this.applyExtendedFields(person, record);
       pedigree.persons.set(person.id, person);
     }
 
     // Second pass: establish relationships
-    for (const record of records) {
+    for (const record of familyRecords) {
       const person = pedigree.persons.get(record.individualId);
       if (!person) continue;
 
@@ -252,12 +513,49 @@ export class PedParser {
     return pedigree;
   }
 
+  /**
+   * Copy extended PED annotations onto a person
+   */
+  private applyExtendedFields(person: Person, record: PedRecord): void {
+    if (record.status) {
+      person.status = { ...person.status, ...record.status };
+    }
+
+    // Carrier only refines an unaffected/unknown phenotype
+    if (record.isCarrier && record.phenotype !== Phenotype.Affected) {
+      person.phenotypes = [Phenotype.Carrier];
+    }
+
+    if (record.twinGroupId) {
+      person.twinGroupId = record.twinGroupId;
+      person.twinType = record.twinType ?? TwinType.Dizygotic;
+    }
+  }
+
+  /**
+   * Convert parsed records to one Pedigree per family
+   * @param familyIds Families to include (default: all, in file order)
+   */
+  recordsToPedigrees(records: PedRecord[], familyIds?: string[]): Pedigree[] {
+    const ids = familyIds ?? this.getFamilyIds(records);
+    return ids.map(id => this.recordsToPedigree(records, id));
+  }
+
   /**
    * Convenience method to parse content directly to Pedigree
+   * Only the first family is loaded; use recordsToPedigrees for multi-family files
    */
   parseToPedigree(content: string): { pedigree: Pedigree; result: PedParseResult } {
     const result = this.parse(content);
     const pedigree = this.recordsToPedigree(result.records);
+
+    const familyIds = this.getFamilyIds(result.records);
+    if (familyIds.length > 1) {
+      result.warnings.push(
+        `File contains ${familyIds.length} families; only ${pedigree.familyId} was loaded`
+      );
+    }
+
     return { pedigree, result };
   }
 }
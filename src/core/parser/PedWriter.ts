@@ -2,6 +2,8 @@
  * PED File Writer
  *
  * Exports Pedigree structure to GATK PED format
+ * Optionally writes the extended PED dialect (see pedColumns.ts) so
+ * statuses, twins and carrier status survive the export.
  */
 
 import {
@@ -9,42 +11,127 @@ import {
   type Person,
   Sex,
   Phenotype,
+  TwinType,
 } from '@/core/model/types';
+import {
+  PED_STATUS_COLUMNS,
+  PED_TWIN_COLUMN,
+  PED_TWIN_TYPE_COLUMN,
+  PED_CARRIER_COLUMN,
+  EXTENDED_PED_COLUMNS,
+} from './pedColumns';
+import { traitStatus } from '@/core/model/traitCatalogue';
+
+/**
+ * What the individual ID column holds: the label (or ID), or the NSGC
+ * generation number ("II-3", falling back to the label)
+ */
+export type PedIdSource = 'label' | 'number';
+
+export interface PedWriteOptions {
+  extended?: boolean;  // Write the #FID header and extended columns
+  idSource?: PedIdSource;
+}
 
 export class PedWriter {
   /**
    * Convert Pedigree to PED file content
    */
-  write(pedigree: Pedigree): string {
+  write(pedigree: Pedigree, options: PedWriteOptions = {}): string {
     const lines: string[] = [];
 
-    // Build ID to label mapping (use label if available, otherwise use ID)
-    const idToLabel = new Map<string, string>();
-    for (const [id, person] of pedigree.persons) {
-      idToLabel.set(id, person.metadata.label || id);
-    }
-
     // Add header comment
     lines.push(`# Pedigree: ${pedigree.familyId}`);
     lines.push(`# Generated: ${new Date().toISOString()}`);
-    lines.push(`# Format: FamilyID IndividualID PaternalID MaternalID Sex Phenotype`);
+    lines.push(this.formatHeader(options));
     lines.push('');
 
+    lines.push(...this.formatPedigreeLines(pedigree, options));
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Convert several family pedigrees to a single PED file
+   */
+  writeAll(pedigrees: Pedigree[], options: PedWriteOptions = {}): string {
+    const lines: string[] = [];
+
+    // Add header comment
+    lines.push(`# Pedigrees: ${pedigrees.map(p => p.familyId).join(', ')}`);
+    lines.push(`# Generated: ${new Date().toISOString()}`);
+    lines.push(this.formatHeader(options));
+    lines.push('');
+
+    for (const pedigree of pedigrees) {
+      lines.push(...this.formatPedigreeLines(pedigree, options));
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Column description line; in extended mode this is the #FID header the parser reads
+   */
+  private formatHeader(options: PedWriteOptions): string {
+    if (options.extended) {
+      return `#${EXTENDED_PED_COLUMNS.join('\t')}`;
+    }
+    return `# Format: FamilyID IndividualID PaternalID MaternalID Sex Phenotype`;
+  }
+
+  /**
+   * Format all persons of one pedigree, founders first
+   */
+  private formatPedigreeLines(pedigree: Pedigree, options: PedWriteOptions): string[] {
+    // Build ID to label mapping (use label if available, otherwise use ID)
+    const useNumbers = options.idSource === 'number';
+    const idToLabel = new Map<string, string>();
+    for (const [id, person] of pedigree.persons) {
+      idToLabel.set(id, (useNumbers && person.generationNumber) || person.metadata.label || id);
+    }
+
     // Sort persons by generation (founders first) then by ID
     const sortedPersons = this.sortPersonsByGeneration(pedigree);
 
-    for (const person of sortedPersons) {
-      const line = this.formatPersonLine(person, idToLabel);
-      lines.push(line);
+    return sortedPersons.map(person => {
+      const line = this.formatPersonLine(person, idToLabel, pedigree.metadata.affectedThreshold);
+      return options.extended ? `${line}\t${this.formatExtendedFields(person).join('\t')}` : line;
+    });
+  }
+
+  /**
+   * Extended column values, in EXTENDED_PED_COLUMNS order after the base columns
+   */
+  private formatExtendedFields(person: Person): string[] {
+    const values = new Map<string, string>();
+
+    for (const { column, key } of PED_STATUS_COLUMNS) {
+      values.set(column, person.status[key] ? '1' : '0');
     }
 
-    return lines.join('\n');
+    const isTwin = person.twinGroupId !== null && person.twinType !== TwinType.None;
+    values.set(PED_TWIN_COLUMN, isTwin ? person.twinGroupId! : '0');
+    values.set(PED_TWIN_TYPE_COLUMN, isTwin ? this.formatTwinType(person.twinType) : '0');
+    values.set(PED_CARRIER_COLUMN, person.phenotypes.includes(Phenotype.Carrier) ? '1' : '0');
+
+    return EXTENDED_PED_COLUMNS
+      .filter(column => values.has(column))
+      .map(column => values.get(column)!);
+  }
+
+  private formatTwinType(twinType: TwinType): string {
+    return twinType === TwinType.Monozygotic ? 'MZ' : 'DZ';
   }
 
   /**
    * Format a single person as a PED line
    */
-  private formatPersonLine(person: Person, idToLabel: Map<string, string>): string {
+  private formatPersonLine(
+    person: Person,
+    idToLabel: Map<string, string>,
+    affectedThreshold: number | undefined
+  ): string {
     const individualId = idToLabel.get(person.id) || person.id;
     const paternalId = person.fatherId ? (idToLabel.get(person.fatherId) || person.fatherId) : '0';
     const maternalId = person.motherId ? (idToLabel.get(person.motherId) || person.motherId) : '0';
@@ -55,7 +142,7 @@ export class PedWriter {
       paternalId,
       maternalId,
       this.formatSex(person.sex),
-      this.formatPhenotype(person.phenotypes[0] ?? Phenotype.Unknown),
+      this.formatPhenotype(traitStatus(person, 0, affectedThreshold)),
     ];
 
     return fields.join('\t');
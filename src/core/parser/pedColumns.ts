@@ -0,0 +1,48 @@
+/**
+ * Extended PED Columns
+ *
+ * Column names shared by PedParser and PedWriter for the extended PED dialect.
+ * An extended file starts with a header line naming its columns, e.g.
+ *
+ *   #FID IID PID MID SEX PHENO DECEASED PROBAND TWIN TWIN_TYPE CARRIER ...
+ *
+ * The first six columns are always positional (standard PED); the remaining
+ * columns are matched by name, so they may appear in any order or be omitted.
+ * Flag columns use 1 = yes, 0 = no.
+ */
+
+import type { PersonStatus } from '@/core/model/types';
+
+export const PED_BASE_COLUMNS = ['FID', 'IID', 'PID', 'MID', 'SEX', 'PHENO'] as const;
+
+export const PED_TWIN_COLUMN = 'TWIN';           // Twin group ID, 0 = not a twin
+export const PED_TWIN_TYPE_COLUMN = 'TWIN_TYPE'; // MZ, DZ, or 0 when unknown
+export const PED_CARRIER_COLUMN = 'CARRIER';     // Carrier flag (PHENO stays 1 for PLINK)
+
+export const PED_STATUS_COLUMNS: ReadonlyArray<{ column: string; key: keyof PersonStatus }> = [
+  { column: 'DECEASED', key: 'isDeceased' },
+  { column: 'PROBAND', key: 'isProband' },
+  { column: 'ADOPTED', key: 'isAdopted' },
+  { column: 'ADOPTED_IN', key: 'isAdoptedIn' },
+  { column: 'ADOPTED_OUT', key: 'isAdoptedOut' },
+  { column: 'MISCARRIAGE', key: 'isMiscarriage' },
+  { column: 'STILLBIRTH', key: 'isStillbirth' },
+  { column: 'PREGNANCY', key: 'isPregnancy' },
+  { column: 'INFERTILE', key: 'isInfertile' },
+  { column: 'EVALUATED', key: 'isEvaluated' },
+];
+
+/**
+ * Column order written by PedWriter in extended mode
+ */
+export const EXTENDED_PED_COLUMNS: string[] = [
+  ...PED_BASE_COLUMNS,
+  'DECEASED',
+  'PROBAND',
+  PED_TWIN_COLUMN,
+  PED_TWIN_TYPE_COLUMN,
+  PED_CARRIER_COLUMN,
+  ...PED_STATUS_COLUMNS
+    .map(c => c.column)
+    .filter(column => column !== 'DECEASED' && column !== 'PROBAND'),
+];
@@ -7,6 +7,7 @@
  * - Sibling connections (horizontal line above siblings)
  * - Twin connections (converging lines for identical, angled for fraternal)
  * - Consanguineous marriages (double line)
+ * - Adopted-in children (dashed line to the adoptive parents)
  */
 
 import type { Person, Relationship, TwinType, LayoutNode, PartnershipStatus } from '@/core/model/types';
@@ -41,6 +42,24 @@ export interface ConnectionPath {
   };
 }
 
+/**
+ * Symbols on the same row strictly between two partners
+ */
+export function spouseLineObstacles(
+  person1: LayoutNode,
+  person2: LayoutNode,
+  layoutNodes: Iterable<LayoutNode>
+): LayoutNode[] {
+  const [left, right] = person1.x < person2.x ? [person1, person2] : [person2, person1];
+  const obstacles: LayoutNode[] = [];
+  for (const node of layoutNodes) {
+    if (node.y === left.y && node.x > left.x && node.x < right.x) {
+      obstacles.push(node);
+    }
+  }
+  return obstacles;
+}
+
 export class ConnectionRenderer {
   private config: ConnectionConfig;
 
@@ -50,11 +69,14 @@ export class ConnectionRenderer {
 
   /**
    * Generate spouse connection path
+   * Symbols standing between the partners (see spouseLineObstacles) are
+   * bridged over instead of crossed.
    */
   renderSpouseConnection(
     person1: LayoutNode,
     person2: LayoutNode,
-    relationship?: Relationship
+    relationship?: Relationship,
+    obstacles: LayoutNode[] = []
   ): ConnectionPath[] {
     const halfSymbol = this.config.symbolSize / 2;
     const hitPadding = 8; // Padding for click target
@@ -70,6 +92,7 @@ export class ConnectionRenderer {
 
     const isConsanguineous = relationship?.type === RelationshipType.Consanguineous;
     const relationshipId = relationship?.id;
+    const line = (offset: number) => this.spouseLine(x1, x2, y, offset, obstacles);
 
     // Calculate clickable area
     const clickableArea = {
@@ -83,14 +106,14 @@ export class ConnectionRenderer {
       const gap = this.config.doubleLineGap;
       return [
         {
-          d: `M ${x1} ${y - gap} L ${x2} ${y - gap}`,
+          d: line(-gap),
           className: 'connection-spouse connection-consanguineous',
           relationshipId,
           connectionType: 'spouse',
           clickableArea,
         },
         {
-          d: `M ${x1} ${y + gap} L ${x2} ${y + gap}`,
+          d: line(gap),
           className: 'connection-spouse connection-consanguineous',
           relationshipId,
           connectionType: 'spouse',
@@ -100,7 +123,7 @@ export class ConnectionRenderer {
     }
 
     return [{
-      d: `M ${x1} ${y} L ${x2} ${y}`,
+      d: line(0),
       className: 'connection-spouse',
       relationshipId,
       connectionType: 'spouse',
@@ -108,6 +131,32 @@ export class ConnectionRenderer {
     }];
   }
 
+  /**
+   * Horizontal spouse line at y + offset, raised over each run of obstacles
+   * The offset keeps the two strokes of a double line parallel: the upper
+   * one bridges outside the lower one.
+   */
+  private spouseLine(x1: number, x2: number, y: number, offset: number, obstacles: LayoutNode[]): string {
+    const halfSymbol = this.config.symbolSize / 2;
+    const margin = 6;
+    const bridgeY = y - halfSymbol - margin * 2 + offset;
+
+    let d = `M ${x1} ${y + offset}`;
+    const sorted = [...obstacles].sort((a, b) => a.x - b.x);
+    let i = 0;
+    while (i < sorted.length) {
+      // Symbols closer than one symbol apart share a bridge
+      let j = i;
+      while (j + 1 < sorted.length && sorted[j + 1].x - sorted[j].x < this.config.symbolSize * 2) j++;
+
+      const left = sorted[i].x - halfSymbol - margin + offset;
+      const right = sorted[j].x + halfSymbol + margin - offset;
+      d += ` L ${left} ${y + offset} L ${left} ${bridgeY} L ${right} ${bridgeY} L ${right} ${y + offset}`;
+      i = j + 1;
+    }
+    return `${d} L ${x2} ${y + offset}`;
+  }
+
   /**
    * Generate parent-child connection paths
    * Returns paths for the vertical drop line and the child connection
@@ -119,7 +168,6 @@ export class ConnectionRenderer {
     if (children.length === 0) return [];
 
     const paths: ConnectionPath[] = [];
-    const halfSymbol = this.config.symbolSize / 2;
     const dropHeight = this.config.childDropHeight;
 
     // Calculate parent connection point
@@ -136,7 +184,6 @@ export class ConnectionRenderer {
       parentY = parents[0].y;
     }
 
-    const childY = children[0].y;
     const midY = parentY + dropHeight;
 
     // Vertical line from parent connection point (starts at spouse line level)
@@ -152,9 +199,10 @@ export class ConnectionRenderer {
       // Single child - direct vertical line
       const child = sortedChildren[0];
       paths.push({
-        d: `M ${parentX} ${midY} L ${child.x} ${midY} L ${child.x} ${childY - halfSymbol}`,
+        d: `M ${parentX} ${midY} L ${child.x} ${midY}`,
         className: 'connection-parent-child',
       });
+      paths.push(this.childDropPath(child, midY));
     } else {
       // Multiple children - horizontal line connecting all
       const leftX = sortedChildren[0].x;
@@ -178,16 +226,29 @@ export class ConnectionRenderer {
 
       // Vertical lines to each child
       for (const child of sortedChildren) {
-        paths.push({
-          d: `M ${child.x} ${midY} L ${child.x} ${childY - halfSymbol}`,
-          className: 'connection-parent-child',
-        });
+        paths.push(this.childDropPath(child, midY));
       }
     }
 
     return paths;
   }
 
+  /**
+   * Vertical line from the sibship line down to the top of a child's symbol
+   * Dashed (by className) for children adopted in; miscarriages are drawn
+   * as a smaller triangle, so their line reaches further down.
+   */
+  private childDropPath(child: LayoutNode, fromY: number): ConnectionPath {
+    const { status } = child.person;
+    const scale = status.isMiscarriage ? 0.4 : 1;
+    const top = child.y - (this.config.symbolSize / 2) * scale;
+
+    return {
+      d: `M ${child.x} ${fromY} L ${child.x} ${top}`,
+      className: status.isAdoptedIn ? 'connection-adopted-in' : 'connection-parent-child',
+    };
+  }
+
   /**
    * Generate twin connection paths
    */
@@ -9,9 +9,13 @@
  * - Half-filled: Carrier
  * - Diagonal line: Deceased
  * - Arrow: Proband
+ * - Number or "n" inside: Several siblings drawn as one symbol
+ * - Small triangle: Miscarriage (SAB)
+ * - "P" inside: Pregnancy
+ * - Line with double bar below: Infertility
  */
 
-import { Sex, Phenotype } from '@/core/model/types';
+import { Sex, Phenotype, type AggregateCount } from '@/core/model/types';
 
 export interface SymbolDimensions {
   width: number;
@@ -23,6 +27,11 @@ export interface SymbolPaths {
   fill?: string;
 }
 
+export interface SymbolText {
+  text: string;
+  fontSize: number;
+}
+
 export class SymbolRegistry {
   private size: number;
 
@@ -90,6 +99,8 @@ export class SymbolRegistry {
 
   /**
    * Get quadrant paths for multiple phenotypes
+   * Three phenotypes get pie wedges that overshoot the outline; clip them
+   * to getSymbolPath when drawing.
    * @param numPhenotypes Number of phenotypes (2, 3, or 4)
    */
   getQuadrantPaths(sex: Sex, numPhenotypes: number): string[] {
@@ -104,6 +115,11 @@ export class SymbolRegistry {
       ];
     }
 
+    if (numPhenotypes === 3) {
+      // Three wedges clockwise from the top
+      return [0, 1, 2].map(i => this.getWedgePath(-90 + i * 120, 30 + i * 120));
+    }
+
     if (numPhenotypes === 4) {
       // Four quadrants
       return [
@@ -144,6 +160,21 @@ export class SymbolRegistry {
     }
   }
 
+  /**
+   * Pie wedge from the center between two angles (degrees, clockwise from
+   * the positive x axis), large enough to cover any symbol shape
+   */
+  private getWedgePath(startAngle: number, endAngle: number): string {
+    const r = this.size;
+    const point = (angle: number) => {
+      const radians = (angle * Math.PI) / 180;
+      const round = (value: number) => Math.round(value * 100) / 100;
+      return `${round(r * Math.cos(radians))} ${round(r * Math.sin(radians))}`;
+    };
+
+    return `M 0 0 L ${point(startAngle)} A ${r} ${r} 0 0 1 ${point(endAngle)} Z`;
+  }
+
   private getQuadrantPath(sex: Sex, quadrant: 'top-left' | 'top-right' | 'bottom-right' | 'bottom-left'): string {
     const half = this.size / 2;
 
@@ -243,13 +274,47 @@ export class SymbolRegistry {
   }
 
   /**
-   * Get infertility line path
+   * Get the "P" drawn inside the symbol of a pregnancy
+   */
+  getPregnancyText(): SymbolText {
+    return { text: 'P', fontSize: Math.round(this.size * 0.45) };
+  }
+
+  /**
+   * Get infertility path: a short line down from the symbol ending in a
+   * double bar
    */
   getInfertilityPath(): string {
     const s = this.size;
-    const lineOffset = s * 0.7;
+    const half = s / 2;
+    const barHalf = s * 0.3;
+    const bar1 = half + s * 0.3;
+    const bar2 = bar1 + s * 0.1;
+
+    return `
+      M 0 ${half} L 0 ${bar1}
+      M ${-barHalf} ${bar1} L ${barHalf} ${bar1}
+      M ${-barHalf} ${bar2} L ${barHalf} ${bar2}
+    `;
+  }
+
+  /**
+   * How far the infertility indicator reaches below the symbol
+   * Labels are pushed down by this much so they do not overlap it
+   */
+  getInfertilityDepth(): number {
+    return this.size * 0.4;
+  }
+
+  /**
+   * Get the text drawn inside an aggregate sibling symbol
+   * Centered on the symbol; shrinks for longer counts so it fits the shape
+   */
+  getAggregateText(count: AggregateCount): SymbolText {
+    const text = String(count);
+    const scale = text.length > 2 ? 0.3 : 0.45;
 
-    return `M ${-s * 0.3} ${lineOffset} L ${s * 0.3} ${lineOffset}`;
+    return { text, fontSize: Math.round(this.size * scale) };
   }
 
   /**
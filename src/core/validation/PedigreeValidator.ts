@@ -0,0 +1,271 @@
+/**
+ * Pedigree Validator
+ *
+ * Structural consistency checks over a Pedigree, used after import and
+ * live while editing:
+ * - Ancestry cycles (a person who is their own ancestor)
+ * - Parent sex (father must be male, mother female)
+ * - Back-references (fatherId/motherId vs. childrenIds)
+ * - Relationships referencing missing persons or foreign children
+ * - Twins with different parents
+ * - More than one proband
+ */
+
+import {
+  type Pedigree,
+  type Person,
+  type ValidationIssue,
+  IssueSeverity,
+  ValidationIssueCode,
+  Sex,
+} from '@/core/model/types';
+
+export class PedigreeValidator {
+  /**
+   * Run every check, errors first
+   */
+  validate(pedigree: Pedigree): ValidationIssue[] {
+    const issues = [
+      ...this.checkAncestryCycles(pedigree),
+      ...this.checkParents(pedigree),
+      ...this.checkChildrenLists(pedigree),
+      ...this.checkRelationships(pedigree),
+      ...this.checkTwins(pedigree),
+      ...this.checkProbands(pedigree),
+    ];
+
+    const rank = (issue: ValidationIssue) => (issue.severity === IssueSeverity.Error ? 0 : 1);
+    return issues.sort((a, b) => rank(a) - rank(b));
+  }
+
+  /**
+   * Find persons who are their own ancestor (DFS over parent links)
+   */
+  private checkAncestryCycles(pedigree: Pedigree): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const state = new Map<string, 'visiting' | 'done'>();
+    const reported = new Set<string>();
+    const stack: string[] = [];
+
+    const visit = (id: string): void => {
+      state.set(id, 'visiting');
+      stack.push(id);
+
+      const person = pedigree.persons.get(id)!;
+      for (const parentId of [person.fatherId, person.motherId]) {
+        if (!parentId || !pedigree.persons.has(parentId)) continue;
+
+        if (state.get(parentId) === 'visiting') {
+          const cycle = stack.slice(stack.indexOf(parentId));
+          const key = [...cycle].sort().join('|');
+          if (!reported.has(key)) {
+            reported.add(key);
+            issues.push({
+              code: ValidationIssueCode.AncestryCycle,
+              severity: IssueSeverity.Error,
+              message: `Ancestry cycle: ${[...cycle, parentId].map(pid => this.name(pedigree, pid)).join(' → ')}`,
+              personIds: cycle,
+            });
+          }
+        } else if (!state.has(parentId)) {
+          visit(parentId);
+        }
+      }
+
+      stack.pop();
+      state.set(id, 'done');
+    };
+
+    for (const id of pedigree.persons.keys()) {
+      if (!state.has(id)) {
+        visit(id);
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Parents must exist and have the matching sex
+   */
+  private checkParents(pedigree: Pedigree): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+
+    for (const person of pedigree.persons.values()) {
+      const parents: Array<['father' | 'mother', string | null, Sex]> = [
+        ['father', person.fatherId, Sex.Male],
+        ['mother', person.motherId, Sex.Female],
+      ];
+
+      for (const [role, parentId, expectedSex] of parents) {
+        if (!parentId) continue;
+
+        const parent = pedigree.persons.get(parentId);
+        if (!parent) {
+          issues.push({
+            code: ValidationIssueCode.MissingParent,
+            severity: IssueSeverity.Error,
+            message: `${this.name(pedigree, person.id)} has a ${role} (${parentId}) that does not exist`,
+            personIds: [person.id],
+          });
+          continue;
+        }
+
+        if (parent.sex !== expectedSex) {
+          issues.push({
+            code: role === 'father' ? ValidationIssueCode.FatherNotMale : ValidationIssueCode.MotherNotFemale,
+            // Unknown sex is unusual but not contradictory
+            severity: parent.sex === Sex.Unknown ? IssueSeverity.Warning : IssueSeverity.Error,
+            message: `${this.name(pedigree, parent.id)} is the ${role} of ${this.name(pedigree, person.id)} but is ${parent.sex === Sex.Unknown ? 'of unknown sex' : parent.sex}`,
+            personIds: [parent.id, person.id],
+          });
+        }
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * childrenIds must agree with the children's fatherId/motherId
+   */
+  private checkChildrenLists(pedigree: Pedigree): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+
+    for (const person of pedigree.persons.values()) {
+      // Listed children must name this person as a parent
+      for (const childId of person.childrenIds) {
+        const child = pedigree.persons.get(childId);
+        if (!child) {
+          issues.push({
+            code: ValidationIssueCode.ChildrenMismatch,
+            severity: IssueSeverity.Error,
+            message: `${this.name(pedigree, person.id)} lists a child (${childId}) that does not exist`,
+            personIds: [person.id],
+          });
+        } else if (child.fatherId !== person.id && child.motherId !== person.id) {
+          issues.push({
+            code: ValidationIssueCode.ChildrenMismatch,
+            severity: IssueSeverity.Error,
+            message: `${this.name(pedigree, person.id)} lists ${this.name(pedigree, childId)} as a child, but is not their parent`,
+            personIds: [person.id, childId],
+          });
+        }
+      }
+
+      // Parents must list this person as a child
+      for (const parentId of [person.fatherId, person.motherId]) {
+        const parent = parentId ? pedigree.persons.get(parentId) : undefined;
+        if (parent && !parent.childrenIds.includes(person.id)) {
+          issues.push({
+            code: ValidationIssueCode.ChildrenMismatch,
+            severity: IssueSeverity.Error,
+            message: `${this.name(pedigree, person.id)} names ${this.name(pedigree, parent.id)} as a parent, but is missing from their children`,
+            personIds: [person.id, parent.id],
+          });
+        }
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Relationships must reference existing persons, and their children
+   * must not have parents outside the couple
+   */
+  private checkRelationships(pedigree: Pedigree): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+
+    for (const relationship of pedigree.relationships.values()) {
+      const partnerIds = [relationship.person1Id, relationship.person2Id];
+      const missing = [...partnerIds, ...relationship.childrenIds]
+        .filter(id => !pedigree.persons.has(id));
+
+      if (missing.length > 0) {
+        issues.push({
+          code: ValidationIssueCode.RelationshipMissingPerson,
+          severity: IssueSeverity.Error,
+          message: `Relationship ${partnerIds.map(id => this.name(pedigree, id)).join(' & ')} references missing ${missing.length === 1 ? 'person' : 'persons'} ${missing.join(', ')}`,
+          personIds: partnerIds.filter(id => pedigree.persons.has(id)),
+          relationshipId: relationship.id,
+        });
+      }
+
+      for (const childId of relationship.childrenIds) {
+        const child = pedigree.persons.get(childId);
+        if (!child) continue;
+
+        const foreignParents = [child.fatherId, child.motherId]
+          .filter((id): id is string => id !== null && !partnerIds.includes(id));
+        if (foreignParents.length > 0) {
+          issues.push({
+            code: ValidationIssueCode.RelationshipChildMismatch,
+            severity: IssueSeverity.Error,
+            message: `${this.name(pedigree, childId)} is a child of the union ${partnerIds.map(id => this.name(pedigree, id)).join(' & ')} but has parent ${foreignParents.map(id => this.name(pedigree, id)).join(', ')}`,
+            personIds: [childId],
+            relationshipId: relationship.id,
+          });
+        }
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Members of a twin group must share both parents
+   */
+  private checkTwins(pedigree: Pedigree): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const groups = new Map<string, Person[]>();
+
+    for (const person of pedigree.persons.values()) {
+      if (!person.twinGroupId) continue;
+      const group = groups.get(person.twinGroupId) ?? [];
+      group.push(person);
+      groups.set(person.twinGroupId, group);
+    }
+
+    for (const members of groups.values()) {
+      const [first, ...rest] = members;
+      const differs = rest.some(p => p.fatherId !== first.fatherId || p.motherId !== first.motherId);
+      if (differs) {
+        issues.push({
+          code: ValidationIssueCode.TwinParentMismatch,
+          severity: IssueSeverity.Error,
+          message: `Twins ${members.map(p => this.name(pedigree, p.id)).join(', ')} have different parents`,
+          personIds: members.map(p => p.id),
+        });
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * At most one proband per pedigree
+   */
+  private checkProbands(pedigree: Pedigree): ValidationIssue[] {
+    const probands = Array.from(pedigree.persons.values()).filter(p => p.status.isProband);
+    if (probands.length <= 1) {
+      return [];
+    }
+
+    return [{
+      code: ValidationIssueCode.MultipleProbands,
+      severity: IssueSeverity.Warning,
+      message: `${probands.length} probands marked: ${probands.map(p => this.name(pedigree, p.id)).join(', ')}`,
+      personIds: probands.map(p => p.id),
+    }];
+  }
+
+  /**
+   * Display name for messages: label if set, otherwise ID
+   */
+  private name(pedigree: Pedigree, id: string): string {
+    return pedigree.persons.get(id)?.metadata.label || id;
+  }
+}
+
+export const pedigreeValidator = new PedigreeValidator();
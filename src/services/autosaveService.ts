@@ -0,0 +1,217 @@
+/**
+ * Autosave Service
+ *
+ * Persists the working pedigree to localStorage so a reload or crash
+ * does not lose work:
+ * - Recovery snapshot (current document + recent undo history), kept
+ *   only while there are changes not saved to a file
+ * - Recent documents list, keyed by Pedigree.id
+ *
+ * Documents are stored in the native format, so older autosaves are
+ * upgraded by the schema migrator like any opened file.
+ */
+
+import type { Pedigree, PedigreeDocument, DocumentParseResult } from '@/core/model/types';
+import { DocumentWriter } from '@/core/parser/DocumentWriter';
+import { DocumentParser } from '@/core/parser/DocumentParser';
+
+export interface RecentDocumentEntry {
+  id: string;          // Pedigree.id
+  familyId: string;
+  name?: string;
+  modifiedAt: string;  // ISO string from Pedigree.metadata.modifiedAt
+  personCount: number;
+}
+
+export interface RecoverySnapshot {
+  pedigree: Pedigree;
+  history: Pedigree[];  // Oldest first, for the undo stack
+  savedAt: Date;
+}
+
+interface StoredRecovery {
+  documentId: string;
+  savedAt: string;
+  history: PedigreeDocument[];
+}
+
+const RECOVERY_KEY = 'pedigree-draw-autosave';
+const RECENT_KEY = 'pedigree-draw-recent-documents';
+const DOCUMENT_KEY_PREFIX = 'pedigree-draw-document:';
+
+const MAX_RECENT_DOCUMENTS = 10;
+const MAX_HISTORY_STATES = 10;
+
+export class AutosaveService {
+  private documentWriter = new DocumentWriter();
+  private documentParser = new DocumentParser();
+  private listeners = new Set<() => void>();
+  private recentCache: RecentDocumentEntry[] | null = null;
+  private savedPedigree: Pedigree | null = null;
+
+  /**
+   * Save the working pedigree (and optionally its undo history)
+   */
+  save(pedigree: Pedigree, history: Pedigree[] = []): void {
+    const documentContent = this.documentWriter.write(pedigree);
+
+    if (!this.writeItem(this.documentKey(pedigree.id), documentContent)) {
+      return;
+    }
+
+    this.upsertRecent(pedigree);
+
+    // Back at the state saved to a file: nothing to recover
+    if (pedigree === this.savedPedigree) {
+      this.clearRecovery();
+      return;
+    }
+
+    const recovery: StoredRecovery = {
+      documentId: pedigree.id,
+      savedAt: new Date().toISOString(),
+      history: history
+        .slice(-MAX_HISTORY_STATES)
+        .map(state => this.documentWriter.toDocument(state)),
+    };
+
+    // Undo history is a nice-to-have; drop it if storage is full
+    if (!this.writeItem(RECOVERY_KEY, JSON.stringify(recovery))) {
+      this.writeItem(RECOVERY_KEY, JSON.stringify({ ...recovery, history: [] }));
+    }
+  }
+
+  /**
+   * Load the last autosaved working pedigree, if any
+   */
+  loadRecovery(): RecoverySnapshot | null {
+    const raw = localStorage.getItem(RECOVERY_KEY);
+    if (!raw) return null;
+
+    try {
+      const stored = JSON.parse(raw) as StoredRecovery;
+      const result = this.openDocument(stored.documentId);
+      if (!result?.pedigree) return null;
+
+      const history = (stored.history ?? [])
+        .map(document => this.documentParser.fromDocument(document).pedigree)
+        .filter((pedigree): pedigree is Pedigree => pedigree !== null);
+
+      return {
+        pedigree: result.pedigree,
+        history,
+        savedAt: new Date(stored.savedAt),
+      };
+    } catch (error) {
+      console.warn('Failed to read autosave:', error);
+      return null;
+    }
+  }
+
+  /**
+   * The pedigree was saved to a file; recovery is not offered for it
+   */
+  markSaved(pedigree: Pedigree): void {
+    this.savedPedigree = pedigree;
+    this.clearRecovery();
+  }
+
+  /**
+   * Forget the recovery snapshot (the document stays in the recent list)
+   */
+  clearRecovery(): void {
+    localStorage.removeItem(RECOVERY_KEY);
+  }
+
+  /**
+   * Recently autosaved documents, most recently modified first
+   */
+  listRecent(): RecentDocumentEntry[] {
+    if (this.recentCache) return this.recentCache;
+
+    try {
+      const raw = localStorage.getItem(RECENT_KEY);
+      this.recentCache = raw ? (JSON.parse(raw) as RecentDocumentEntry[]) : [];
+    } catch {
+      this.recentCache = [];
+    }
+
+    return this.recentCache;
+  }
+
+  /**
+   * Parse a recent document from storage
+   */
+  openDocument(id: string): DocumentParseResult | null {
+    const content = localStorage.getItem(this.documentKey(id));
+    return content ? this.documentParser.parse(content) : null;
+  }
+
+  /**
+   * Remove a document from the recent list and storage
+   */
+  removeRecent(id: string): void {
+    localStorage.removeItem(this.documentKey(id));
+    this.writeRecent(this.listRecent().filter(entry => entry.id !== id));
+  }
+
+  /**
+   * Subscribe to changes of the recent documents list
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private upsertRecent(pedigree: Pedigree): void {
+    const entry: RecentDocumentEntry = {
+      id: pedigree.id,
+      familyId: pedigree.familyId,
+      modifiedAt: pedigree.metadata.modifiedAt.toISOString(),
+      personCount: pedigree.persons.size,
+    };
+    if (pedigree.name !== undefined) {
+      entry.name = pedigree.name;
+    }
+
+    const byModified = (a: RecentDocumentEntry, b: RecentDocumentEntry) =>
+      b.modifiedAt.localeCompare(a.modifiedAt);
+    const others = this.listRecent()
+      .filter(e => e.id !== pedigree.id)
+      .sort(byModified);
+
+    // Evict the oldest other documents; the one being saved is always kept
+    for (const evicted of others.slice(MAX_RECENT_DOCUMENTS - 1)) {
+      localStorage.removeItem(this.documentKey(evicted.id));
+    }
+
+    this.writeRecent([entry, ...others.slice(0, MAX_RECENT_DOCUMENTS - 1)].sort(byModified));
+  }
+
+  private writeRecent(entries: RecentDocumentEntry[]): void {
+    this.writeItem(RECENT_KEY, JSON.stringify(entries));
+    this.recentCache = entries;
+    this.listeners.forEach(listener => listener());
+  }
+
+  private documentKey(id: string): string {
+    return `${DOCUMENT_KEY_PREFIX}${id}`;
+  }
+
+  /**
+   * Write to localStorage, returning false when the quota is exceeded
+   */
+  private writeItem(key: string, value: string): boolean {
+    try {
+      localStorage.setItem(key, value);
+      return true;
+    } catch (error) {
+      console.warn(`Failed to autosave ${key}:`, error);
+      return false;
+    }
+  }
+}
+
+export const autosaveService = new AutosaveService();
@@ -5,31 +5,47 @@
  * - SVG (vector graphics)
  * - PNG (raster graphics)
  * - PED (GATK format)
+ * - Native pedigree-draw document (JSON)
+ *
+ * With de-identification options, PED and documents are written from a
+ * de-identified copy; images show whatever the canvas draws.
  */
 
 import { toPng, toSvg } from 'html-to-image';
 import type { Pedigree } from '@/core/model/types';
-import { PedWriter } from '@/core/parser/PedWriter';
+import { PedWriter, type PedIdSource } from '@/core/parser/PedWriter';
+import { DocumentWriter } from '@/core/parser/DocumentWriter';
+import { deidentify, type DeidentifyOptions } from '@/core/model/deidentify';
 
 export interface ExportOptions {
   filename?: string;
   scale?: number;
   backgroundColor?: string;
   padding?: number;
+  extendedPed?: boolean;  // PED only: write the extended column dialect
+  pedIdSource?: PedIdSource;  // PED only: labels or generation numbers as IDs
+  deidentify?: DeidentifyOptions | null;  // PED and documents: write a de-identified copy
 }
 
+export const DOCUMENT_FILE_EXTENSION = '.pedigree.json';
+
 const DEFAULT_OPTIONS: Required<ExportOptions> = {
   filename: 'pedigree',
   scale: 2,
   backgroundColor: '#ffffff',
   padding: 20,
+  extendedPed: false,
+  pedIdSource: 'label',
+  deidentify: null,
 };
 
 export class ExportService {
   private pedWriter: PedWriter;
+  private documentWriter: DocumentWriter;
 
   constructor() {
     this.pedWriter = new PedWriter();
+    this.documentWriter = new DocumentWriter();
   }
 
   /**
@@ -112,10 +128,13 @@ export class ExportService {
    * Export pedigree as PED file
    */
   exportPed(pedigree: Pedigree, options: ExportOptions = {}): void {
-    const { filename } = { ...DEFAULT_OPTIONS, ...options };
+    const { filename, extendedPed, pedIdSource, deidentify: privacy } = { ...DEFAULT_OPTIONS, ...options };
 
     try {
-      const pedContent = this.pedWriter.write(pedigree);
+      const pedContent = this.pedWriter.write(this.prepare(pedigree, privacy), {
+        extended: extendedPed,
+        idSource: pedIdSource,
+      });
       const blob = new Blob([pedContent], { type: 'text/plain;charset=utf-8' });
       this.downloadBlob(blob, `${filename}.ped`);
     } catch (error) {
@@ -124,6 +143,48 @@ export class ExportService {
     }
   }
 
+  /**
+   * Export several family pedigrees as one PED file
+   */
+  exportPedAll(pedigrees: Pedigree[], options: ExportOptions = {}): void {
+    const { filename, extendedPed, pedIdSource, deidentify: privacy } = { ...DEFAULT_OPTIONS, ...options };
+
+    try {
+      const pedContent = this.pedWriter.writeAll(
+        pedigrees.map((pedigree, index) => this.prepare(pedigree, privacy, index + 1)),
+        { extended: extendedPed, idSource: pedIdSource }
+      );
+      const blob = new Blob([pedContent], { type: 'text/plain;charset=utf-8' });
+      this.downloadBlob(blob, `${filename}.ped`);
+    } catch (error) {
+      console.error('Failed to export PED:', error);
+      throw new Error('Failed to export PED file');
+    }
+  }
+
+  /**
+   * Export pedigree as a native document that keeps every field
+   */
+  exportDocument(pedigree: Pedigree, options: ExportOptions = {}): void {
+    const { filename, deidentify: privacy } = { ...DEFAULT_OPTIONS, ...options };
+
+    try {
+      const content = this.documentWriter.write(this.prepare(pedigree, privacy));
+      const blob = new Blob([content], { type: 'application/json;charset=utf-8' });
+      this.downloadBlob(blob, `${filename}${DOCUMENT_FILE_EXTENSION}`);
+    } catch (error) {
+      console.error('Failed to export document:', error);
+      throw new Error('Failed to export pedigree document');
+    }
+  }
+
+  /**
+   * The pedigree to write: a de-identified copy when requested
+   */
+  private prepare(pedigree: Pedigree, privacy: DeidentifyOptions | null, familyNumber = 1): Pedigree {
+    return privacy ? deidentify(pedigree, privacy, familyNumber).pedigree : pedigree;
+  }
+
   /**
    * Download a blob as a file
    */
@@ -0,0 +1,47 @@
+/**
+ * Settings Service
+ *
+ * The user's default chart settings, kept in localStorage. Documents
+ * without settings of their own are drawn with them.
+ */
+
+import type { ChartSettings } from '@/core/model/types';
+import { pickChartSettings } from '@/core/model/chartSettings';
+
+const CHART_SETTINGS_KEY = 'pedigree-draw-chart-settings';
+
+export class SettingsService {
+  private cache: Partial<ChartSettings> | null = null;
+
+  /**
+   * Saved defaults; values that are no longer valid are dropped
+   */
+  loadChartSettings(): Partial<ChartSettings> {
+    if (this.cache) return this.cache;
+
+    try {
+      const raw = localStorage.getItem(CHART_SETTINGS_KEY);
+      this.cache = raw ? pickChartSettings(JSON.parse(raw)) : {};
+    } catch {
+      this.cache = {};
+    }
+
+    return this.cache;
+  }
+
+  saveChartSettings(settings: Partial<ChartSettings>): void {
+    this.cache = pickChartSettings(settings);
+    try {
+      localStorage.setItem(CHART_SETTINGS_KEY, JSON.stringify(this.cache));
+    } catch (error) {
+      console.warn('Failed to save chart settings:', error);
+    }
+  }
+
+  clearChartSettings(): void {
+    this.cache = {};
+    localStorage.removeItem(CHART_SETTINGS_KEY);
+  }
+}
+
+export const settingsService = new SettingsService();
@@ -4,9 +4,19 @@
  * Global state management using Zustand with Zundo for undo/redo
  */
 
-import { create } from 'zustand';
+import { create, type StoreApi } from 'zustand';
 import { temporal } from 'zundo';
-import type { Pedigree, Person, Relationship, LayoutNode } from '@/core/model/types';
+import type {
+  Pedigree,
+  Person,
+  Relationship,
+  LayoutNode,
+  Trait,
+  PartialDate,
+  BranchDirection,
+  LayoutEngineId,
+  ChartSettings,
+} from '@/core/model/types';
 import {
   createPerson,
   createPedigree,
@@ -15,41 +25,130 @@ import {
   Phenotype,
   RelationshipType,
 } from '@/core/model/types';
-import { PedigreeLayout } from '@/core/layout/PedigreeLayout';
+import { pedigreeLayout } from '@/core/layout/PedigreeLayout';
+import { layoutEngineFor, setLayoutOptions } from '@/core/layout/layoutEngines';
+import * as edits from '@/core/model/pedigreeEdits';
+import * as traitCatalogue from '@/core/model/traitCatalogue';
+import * as numbering from '@/core/model/numbering';
+import * as branchView from '@/core/model/branchView';
+import * as chartSettings from '@/core/model/chartSettings';
+import type { DeidentifyOptions } from '@/core/model/deidentify';
+import { settingsService } from '@/services/settingsService';
+
+export interface LoadPedigreeOptions {
+  // Keep the x/y stored on each person instead of the computed layout
+  keepPositions?: boolean;
+}
 
 interface PedigreeState {
   // Data
   pedigree: Pedigree | null;
   layoutNodes: Map<string, LayoutNode>;
 
+  // Workspace - all loaded family pedigrees by Pedigree.id (the active entry may be stale)
+  workspace: Map<string, Pedigree>;
+
   // Selection
   selectedPersonId: string | null;
   selectedRelationshipId: string | null;
 
+  // Persons marked on the canvas by an analysis (e.g. inheritance inconsistencies)
+  highlightedPersonIds: string[];
+  // Extra line under each symbol from the risk calculator, by person id
+  riskLabels: Map<string, string>;
+  // De-identified preview on the canvas (null = off); the document is unchanged
+  privacyOptions: DeidentifyOptions | null;
+  // NSGC individual numbers ("II-3") under each symbol
+  showIndividualNumbers: boolean;
+  // Layout keeps pinned persons where they were dragged (see Person.pin)
+  respectPins: boolean;
+  // The user's default chart settings (saved in this browser)
+  userChartSettings: Partial<ChartSettings>;
+
   // UI State
   isEditing: boolean;
   currentTool: 'select' | 'add-person' | 'add-relationship' | 'delete';
 
   // Actions - Pedigree
-  loadPedigree: (pedigree: Pedigree) => void;
+  loadPedigree: (pedigree: Pedigree, options?: LoadPedigreeOptions) => void;
   clearPedigree: () => void;
   createNewPedigree: (familyId: string) => void;
 
+  // Actions - Workspace
+  loadWorkspace: (pedigrees: Pedigree[]) => void;
+  switchPedigree: (id: string) => void;
+
   // Actions - Person
+  // fatherId/motherId are linked on both sides; childrenIds/spouseIds are
+  // derived and ignored here (use the family link actions below)
   addPerson: (person: Person) => void;
   updatePerson: (id: string, updates: Partial<Person>) => void;
   deletePerson: (id: string) => void;
+  // Also pins the person there
   updatePersonPosition: (id: string, x: number, y: number) => void;
 
   // Actions - Relationship
-  addRelationship: (relationship: Relationship) => void;
-  updateRelationship: (id: string, updates: Partial<Relationship>) => void;
-  deleteRelationship: (id: string) => void;
+  addRelationship: (relationship: Relationship) => boolean;
+  updateRelationship: (id: string, updates: Partial<Relationship>) => boolean;
+  deleteRelationship: (id: string) => boolean;
+
+  // Actions - Family links
+  // Each keeps all back-references consistent in one undo step and
+  // returns false if the edit was rejected (e.g. it would create a cycle)
+  linkParent: (childId: string, parentId: string, role?: edits.ParentRole) => boolean;
+  unlinkParent: (childId: string, parentId: string) => boolean;
+  setParents: (childId: string, fatherId: string | null, motherId: string | null) => boolean;
+  addParents: (childId: string, father: Person, mother: Person) => boolean;
+  addPartner: (personId: string, partner: Person, relationship: Relationship) => boolean;
+  addChildToUnion: (relationshipId: string, child: Person) => boolean;
+  addChildrenToUnion: (relationshipId: string, children: Person[]) => boolean;
+  addSiblings: (personId: string, siblings: Person[]) => boolean;
+  collapseSiblings: (keepId: string, siblingIds: string[]) => boolean;
+  moveChildToUnion: (childId: string, relationshipId: string) => boolean;
+  mergePersons: (keepId: string, removeId: string) => boolean;
+
+  // Actions - Trait catalogue
+  addTrait: (trait: Trait) => boolean;
+  updateTrait: (id: string, updates: Partial<Pick<Trait, 'name' | 'color' | 'pattern'>>) => boolean;
+  setTraitSlot: (id: string, slot: number) => boolean;
+  removeTrait: (id: string) => boolean;
+
+  // Actions - Dates
+  setAsOfDate: (date: PartialDate | undefined) => boolean;
+  // Quantitative trait values at or above it are affected (see traitStatus)
+  setAffectedThreshold: (threshold: number | undefined) => boolean;
+
+  // Actions - Numbering
+  renumberPersons: () => boolean;
+
+  // Actions - Pins
+  // Unpinning lets the layout place those persons again ("re-layout selection")
+  setPinned: (ids: string[], pinned: boolean) => boolean;
+  releaseAllPins: () => boolean;
+  setRespectPins: (respect: boolean) => void;
+
+  // Actions - Layout engine (saved with the document, see layoutEngines.ts)
+  setLayoutEngine: (engine: LayoutEngineId, rootId?: string) => boolean;
+
+  // Actions - Chart settings (per document, over the user's defaults)
+  setChartSettings: (updates: Partial<ChartSettings>) => boolean;
+  resetChartSettings: () => boolean;
+  saveChartSettingsAsDefaults: () => void;
+  clearChartSettingsDefaults: () => void;
+
+  // Actions - Branch view (saved with the document, see branchView.ts)
+  toggleBranch: (personId: string, direction: BranchDirection) => boolean;
+  setFocusMode: (focus: boolean) => boolean;
+  expandAllBranches: () => boolean;
 
   // Actions - Selection
   selectPerson: (id: string | null) => void;
   selectRelationship: (id: string | null) => void;
   clearSelection: () => void;
+  setHighlightedPersons: (ids: string[]) => void;
+  setRiskLabels: (labels: Map<string, string>) => void;
+  setPrivacyOptions: (options: DeidentifyOptions | null) => void;
+  setShowIndividualNumbers: (show: boolean) => void;
 
   // Actions - UI
   setCurrentTool: (tool: PedigreeState['currentTool']) => void;
@@ -61,9 +160,99 @@ interface PedigreeState {
   // Helpers
   getSelectedPerson: () => Person | null;
   getSelectedRelationship: () => Relationship | null;
+  getWorkspacePedigrees: () => Pedigree[];
+}
+
+/**
+ * Size and space every layout engine as the pedigree's settings ask
+ * (its own over the user's defaults, see chartSettings.ts)
+ */
+function applyChartSettings(pedigree: Pedigree): void {
+  const settings = chartSettings.resolveChartSettings(pedigree, settingsService.loadChartSettings());
+  setLayoutOptions(chartSettings.layoutOptionsOf(settings));
+}
+
+/**
+ * Lay out a pedigree with the engine it was saved with (see layoutEngines.ts)
+ */
+function layoutPedigree(pedigree: Pedigree): Map<string, LayoutNode> {
+  applyChartSettings(pedigree);
+  return layoutEngineFor(pedigree).layout(pedigree);
 }
 
-const layout = new PedigreeLayout();
+/**
+ * Snapshot the stored x/y of every person (the layout overwrites them)
+ */
+function capturePositions(pedigree: Pedigree): Map<string, { x: number; y: number }> {
+  const positions = new Map<string, { x: number; y: number }>();
+  for (const [id, person] of pedigree.persons) {
+    if (person.x !== undefined && person.y !== undefined) {
+      positions.set(id, { x: person.x, y: person.y });
+    }
+  }
+  return positions;
+}
+
+/**
+ * Put captured positions back onto the layout nodes and persons
+ */
+function applyPositions(
+  layoutNodes: Map<string, LayoutNode>,
+  positions: Map<string, { x: number; y: number }>
+): void {
+  for (const [id, { x, y }] of positions) {
+    const node = layoutNodes.get(id);
+    if (!node) continue;
+    node.x = x;
+    node.y = y;
+    node.person.x = x;
+    node.person.y = y;
+  }
+}
+
+/**
+ * Lay out a pedigree the store owns and number anyone new (see numbering.ts)
+ */
+function layoutAndNumber(pedigree: Pedigree): Map<string, LayoutNode> {
+  // Numbers follow the generation layout whichever chart is drawn
+  applyChartSettings(pedigree);
+  const engine = layoutEngineFor(pedigree);
+  if (engine !== pedigreeLayout) {
+    numbering.assignGenerationNumbers(pedigree, pedigreeLayout.layout(pedigree));
+  }
+  const layoutNodes = engine.layout(pedigree);
+  if (engine === pedigreeLayout) {
+    numbering.assignGenerationNumbers(pedigree, layoutNodes);
+  }
+  return layoutNodes;
+}
+
+/**
+ * Run a structural edit on a copy of the pedigree and commit it as one change
+ * Returns false (and leaves the state alone) if the edit throws
+ */
+function commitEdit(
+  get: StoreApi<PedigreeState>['getState'],
+  set: StoreApi<PedigreeState>['setState'],
+  edit: (draft: Pedigree) => void,
+  extra: Partial<PedigreeState> = {}
+): boolean {
+  const { pedigree } = get();
+  if (!pedigree) return false;
+
+  const draft = edits.clonePedigree(pedigree);
+  try {
+    edit(draft);
+  } catch (error) {
+    console.warn('Edit rejected:', error instanceof Error ? error.message : error);
+    return false;
+  }
+
+  draft.metadata.modifiedAt = new Date();
+  const layoutNodes = layoutAndNumber(draft);
+  set({ ...extra, pedigree: draft, layoutNodes });
+  return true;
+}
 
 export const usePedigreeStore = create<PedigreeState>()(
   temporal(
@@ -71,21 +260,44 @@ export const usePedigreeStore = create<PedigreeState>()(
       // Initial state
       pedigree: null,
       layoutNodes: new Map(),
+      workspace: new Map(),
       selectedPersonId: null,
       selectedRelationshipId: null,
+      highlightedPersonIds: [],
+      riskLabels: new Map(),
+      privacyOptions: null,
+      showIndividualNumbers: false,
+      respectPins: pedigreeLayout.getOptions().respectPins,
+      userChartSettings: settingsService.loadChartSettings(),
       isEditing: false,
       currentTool: 'select',
 
       // Pedigree actions
-      loadPedigree: (pedigree) => {
-        const layoutNodes = layout.layout(pedigree);
-        set({ pedigree, layoutNodes });
+      loadPedigree: (pedigree, options = {}) => {
+        const savedPositions = options.keepPositions ? capturePositions(pedigree) : null;
+        const layoutNodes = layoutAndNumber(pedigree);
+        if (savedPositions) {
+          applyPositions(layoutNodes, savedPositions);
+        }
+        set({
+          pedigree,
+          layoutNodes,
+          workspace: new Map([[pedigree.id, pedigree]]),
+          selectedPersonId: null,
+          selectedRelationshipId: null,
+          highlightedPersonIds: [],
+          riskLabels: new Map(),
+        });
+
+        // Undo history belongs to the previous file
+        usePedigreeStore.temporal.getState().clear();
       },
 
       clearPedigree: () => {
         set({
           pedigree: null,
           layoutNodes: new Map(),
+          workspace: new Map(),
           selectedPersonId: null,
           selectedRelationshipId: null,
         });
@@ -93,32 +305,99 @@ export const usePedigreeStore = create<PedigreeState>()(
 
       createNewPedigree: (familyId) => {
         const pedigree = createPedigree(familyId);
-        set({ pedigree, layoutNodes: new Map() });
+        set({ pedigree, layoutNodes: new Map(), workspace: new Map([[pedigree.id, pedigree]]) });
       },
 
-      // Person actions
-      addPerson: (person) => {
-        set((state) => {
-          if (!state.pedigree) return state;
+      // Workspace actions
+      loadWorkspace: (pedigrees) => {
+        if (pedigrees.length === 0) return;
 
-          const newPersons = new Map(state.pedigree.persons);
-          newPersons.set(person.id, person);
+        const active = pedigrees[0];
+        const layoutNodes = layoutAndNumber(active);
+        set({
+          pedigree: active,
+          layoutNodes,
+          workspace: new Map(pedigrees.map(p => [p.id, p])),
+          selectedPersonId: null,
+          selectedRelationshipId: null,
+          highlightedPersonIds: [],
+          riskLabels: new Map(),
+        });
 
-          const newPedigree = {
-            ...state.pedigree,
-            persons: newPersons,
-            metadata: {
-              ...state.pedigree.metadata,
-              modifiedAt: new Date(),
-            },
-          };
+        // Undo history belongs to the previous file
+        usePedigreeStore.temporal.getState().clear();
+      },
+
+      switchPedigree: (id) => {
+        const state = get();
+        if (!state.pedigree || state.pedigree.id === id) return;
 
-          const layoutNodes = layout.layout(newPedigree);
-          return { pedigree: newPedigree, layoutNodes };
+        const target = state.workspace.get(id);
+        if (!target) return;
+
+        // Store the edited active pedigree back before switching
+        const workspace = new Map(state.workspace);
+        workspace.set(state.pedigree.id, state.pedigree);
+
+        // Keep positions from the last time this family was shown
+        const savedPositions = capturePositions(target);
+        const layoutNodes = layoutAndNumber(target);
+        applyPositions(layoutNodes, savedPositions);
+
+        set({
+          pedigree: target,
+          layoutNodes,
+          workspace,
+          selectedPersonId: null,
+          selectedRelationshipId: null,
+          highlightedPersonIds: [],
+          riskLabels: new Map(),
+        });
+
+        // Undo history belongs to the previous family
+        usePedigreeStore.temporal.getState().clear();
+      },
+
+      // Person actions
+      addPerson: (person) => {
+        commitEdit(get, set, (draft) => {
+          draft.persons.set(person.id, {
+            ...person,
+            fatherId: null,
+            motherId: null,
+            spouseIds: [],
+            childrenIds: [],
+          });
+          if (person.fatherId || person.motherId) {
+            edits.setParents(draft, person.id, person.fatherId, person.motherId);
+          }
         });
       },
 
       updatePerson: (id, updates) => {
+        const { fatherId, motherId } = updates;
+        const fields: Partial<Person> = { ...updates };
+        delete fields.fatherId;
+        delete fields.motherId;
+        delete fields.childrenIds;
+        delete fields.spouseIds;
+
+        // Parent changes go through the family links
+        if (fatherId !== undefined || motherId !== undefined) {
+          commitEdit(get, set, (draft) => {
+            const person = draft.persons.get(id);
+            if (!person) return;
+            draft.persons.set(id, { ...person, ...fields });
+            edits.setParents(
+              draft,
+              id,
+              fatherId !== undefined ? fatherId : person.fatherId,
+              motherId !== undefined ? motherId : person.motherId
+            );
+          });
+          return;
+        }
+
         set((state) => {
           if (!state.pedigree) return state;
 
@@ -126,7 +405,7 @@ export const usePedigreeStore = create<PedigreeState>()(
           if (!person) return state;
 
           const newPersons = new Map(state.pedigree.persons);
-          newPersons.set(id, { ...person, ...updates });
+          newPersons.set(id, { ...person, ...fields });
 
           const newPedigree = {
             ...state.pedigree,
@@ -142,48 +421,19 @@ export const usePedigreeStore = create<PedigreeState>()(
       },
 
       deletePerson: (id) => {
-        set((state) => {
-          if (!state.pedigree) return state;
-
-          const newPersons = new Map(state.pedigree.persons);
-          const person = newPersons.get(id);
-          if (!person) return state;
-
-          // Remove from other persons' references
-          for (const [, p] of newPersons) {
-            if (p.fatherId === id) p.fatherId = null;
-            if (p.motherId === id) p.motherId = null;
-            p.spouseIds = p.spouseIds.filter((sid) => sid !== id);
-            p.childrenIds = p.childrenIds.filter((cid) => cid !== id);
-          }
-
-          newPersons.delete(id);
-
-          // Remove related relationships
-          const newRelationships = new Map(state.pedigree.relationships);
-          for (const [relId, rel] of newRelationships) {
-            if (rel.person1Id === id || rel.person2Id === id) {
-              newRelationships.delete(relId);
+        commitEdit(
+          get,
+          set,
+          (draft) => {
+            edits.deletePerson(draft, id);
+            branchView.pruneView(draft);
+            // The chart picks its own root again
+            if (draft.layoutSelection?.rootId === id) {
+              draft.layoutSelection = { engine: draft.layoutSelection.engine };
             }
-          }
-
-          const newPedigree = {
-            ...state.pedigree,
-            persons: newPersons,
-            relationships: newRelationships,
-            metadata: {
-              ...state.pedigree.metadata,
-              modifiedAt: new Date(),
-            },
-          };
-
-          const layoutNodes = layout.layout(newPedigree);
-          return {
-            pedigree: newPedigree,
-            layoutNodes,
-            selectedPersonId: state.selectedPersonId === id ? null : state.selectedPersonId,
-          };
-        });
+          },
+          get().selectedPersonId === id ? { selectedPersonId: null } : {}
+        );
       },
 
       updatePersonPosition: (id, x, y) => {
@@ -194,7 +444,7 @@ export const usePedigreeStore = create<PedigreeState>()(
           if (!person) return state;
 
           const newPersons = new Map(state.pedigree.persons);
-          newPersons.set(id, { ...person, x, y });
+          newPersons.set(id, { ...person, x, y, pin: { x, y } });
 
           const newLayoutNodes = new Map(state.layoutNodes);
           const node = newLayoutNodes.get(id);
@@ -213,116 +463,193 @@ export const usePedigreeStore = create<PedigreeState>()(
       },
 
       // Relationship actions
-      addRelationship: (relationship) => {
-        set((state) => {
-          if (!state.pedigree) return state;
-
-          const newRelationships = new Map(state.pedigree.relationships);
-          newRelationships.set(relationship.id, relationship);
-
-          // Update spouse references
-          const newPersons = new Map(state.pedigree.persons);
-          const person1 = newPersons.get(relationship.person1Id);
-          const person2 = newPersons.get(relationship.person2Id);
-
-          if (person1 && !person1.spouseIds.includes(relationship.person2Id)) {
-            newPersons.set(person1.id, {
-              ...person1,
-              spouseIds: [...person1.spouseIds, relationship.person2Id],
-            });
+      addRelationship: (relationship) =>
+        commitEdit(get, set, (draft) => edits.addRelationship(draft, relationship)),
+
+      updateRelationship: (id, updates) =>
+        commitEdit(get, set, (draft) => {
+          const relationship = draft.relationships.get(id);
+          if (!relationship) {
+            throw new Error(`Relationship ${id} not found`);
           }
-          if (person2 && !person2.spouseIds.includes(relationship.person1Id)) {
-            newPersons.set(person2.id, {
-              ...person2,
-              spouseIds: [...person2.spouseIds, relationship.person1Id],
-            });
+          // Partners and children change through the family links
+          const fields: Partial<Relationship> = { ...updates };
+          delete fields.id;
+          delete fields.person1Id;
+          delete fields.person2Id;
+          delete fields.childrenIds;
+          draft.relationships.set(id, { ...relationship, ...fields });
+        }),
+
+      deleteRelationship: (id) =>
+        commitEdit(
+          get,
+          set,
+          (draft) => edits.deleteRelationship(draft, id),
+          get().selectedRelationshipId === id ? { selectedRelationshipId: null } : {}
+        ),
+
+      // Family link actions
+      linkParent: (childId, parentId, role) =>
+        commitEdit(get, set, (draft) => edits.linkParent(draft, childId, parentId, role)),
+
+      unlinkParent: (childId, parentId) =>
+        commitEdit(get, set, (draft) => edits.unlinkParent(draft, childId, parentId)),
+
+      setParents: (childId, fatherId, motherId) =>
+        commitEdit(get, set, (draft) => edits.setParents(draft, childId, fatherId, motherId)),
+
+      addParents: (childId, father, mother) =>
+        commitEdit(get, set, (draft) => edits.addParents(draft, childId, father, mother)),
+
+      addPartner: (personId, partner, relationship) =>
+        commitEdit(get, set, (draft) => edits.addPartner(draft, personId, partner, relationship)),
+
+      addChildToUnion: (relationshipId, child) =>
+        commitEdit(get, set, (draft) => edits.addChildToUnion(draft, relationshipId, child)),
+
+      addChildrenToUnion: (relationshipId, children) =>
+        commitEdit(get, set, (draft) => {
+          for (const child of children) {
+            edits.addChildToUnion(draft, relationshipId, child);
           }
+        }),
+
+      addSiblings: (personId, siblings) =>
+        commitEdit(get, set, (draft) => edits.addSiblings(draft, personId, siblings)),
+
+      collapseSiblings: (keepId, siblingIds) =>
+        commitEdit(
+          get,
+          set,
+          (draft) => edits.collapseSiblings(draft, keepId, siblingIds),
+          { selectedPersonId: keepId }
+        ),
+
+      moveChildToUnion: (childId, relationshipId) =>
+        commitEdit(get, set, (draft) => edits.moveChildToUnion(draft, childId, relationshipId)),
+
+      mergePersons: (keepId, removeId) =>
+        commitEdit(
+          get,
+          set,
+          (draft) => edits.mergePersons(draft, keepId, removeId),
+          get().selectedPersonId === removeId ? { selectedPersonId: keepId } : {}
+        ),
+
+      // Trait catalogue actions
+      addTrait: (trait) =>
+        commitEdit(get, set, (draft) => traitCatalogue.addTrait(draft, trait)),
+
+      updateTrait: (id, updates) =>
+        commitEdit(get, set, (draft) => traitCatalogue.updateTrait(draft, id, updates)),
+
+      setTraitSlot: (id, slot) =>
+        commitEdit(get, set, (draft) => traitCatalogue.setTraitSlot(draft, id, slot)),
+
+      removeTrait: (id) =>
+        commitEdit(get, set, (draft) => traitCatalogue.removeTrait(draft, id)),
+
+      // Date actions
+      setAsOfDate: (date) =>
+        commitEdit(get, set, (draft) => {
+          if (date) {
+            draft.metadata.asOfDate = date;
+          } else {
+            delete draft.metadata.asOfDate;
+          }
+        }),
 
-          const newPedigree = {
-            ...state.pedigree,
-            persons: newPersons,
-            relationships: newRelationships,
-            metadata: {
-              ...state.pedigree.metadata,
-              modifiedAt: new Date(),
-            },
-          };
-
-          const layoutNodes = layout.layout(newPedigree);
-          return { pedigree: newPedigree, layoutNodes };
-        });
+      setAffectedThreshold: (threshold) =>
+        commitEdit(get, set, (draft) => {
+          if (threshold !== undefined && !Number.isFinite(threshold)) {
+            throw new Error('The affected threshold must be a number');
+          }
+          if (threshold !== undefined) {
+            draft.metadata.affectedThreshold = threshold;
+          } else {
+            delete draft.metadata.affectedThreshold;
+          }
+        }),
+
+      // Numbering actions
+      renumberPersons: () => {
+        // Left to right as drawn by the generation layout
+        const { pedigree, layoutNodes } = get();
+        const generationNodes = pedigree && layoutEngineFor(pedigree) !== pedigreeLayout
+          ? pedigreeLayout.layout(edits.clonePedigree(pedigree))
+          : layoutNodes;
+        return commitEdit(get, set, (draft) => numbering.renumber(draft, generationNodes));
       },
 
-      updateRelationship: (id, updates) => {
-        set((state) => {
-          if (!state.pedigree) return state;
-
-          const relationship = state.pedigree.relationships.get(id);
-          if (!relationship) return state;
+      // Pin actions
+      setPinned: (ids, pinned) =>
+        commitEdit(get, set, (draft) => {
+          for (const id of ids) {
+            const person = draft.persons.get(id);
+            if (!person) continue;
+            if (pinned && person.x !== undefined && person.y !== undefined) {
+              person.pin = { x: person.x, y: person.y };
+            } else if (!pinned) {
+              delete person.pin;
+            }
+          }
+        }),
 
-          const newRelationships = new Map(state.pedigree.relationships);
-          newRelationships.set(id, { ...relationship, ...updates });
+      releaseAllPins: () =>
+        commitEdit(get, set, (draft) => {
+          for (const person of draft.persons.values()) {
+            delete person.pin;
+          }
+        }),
 
-          return {
-            pedigree: {
-              ...state.pedigree,
-              relationships: newRelationships,
-              metadata: {
-                ...state.pedigree.metadata,
-                modifiedAt: new Date(),
-              },
-            },
-          };
-        });
+      setRespectPins: (respect) => {
+        setLayoutOptions({ respectPins: respect });
+        const { pedigree } = get();
+        set({ respectPins: respect, layoutNodes: pedigree ? layoutPedigree(pedigree) : new Map() });
       },
 
-      deleteRelationship: (id) => {
-        set((state) => {
-          if (!state.pedigree) return state;
+      // Layout engine actions
+      setLayoutEngine: (engine, rootId) =>
+        commitEdit(get, set, (draft) => {
+          if (rootId !== undefined && !draft.persons.has(rootId)) {
+            throw new Error(`Person ${rootId} not found`);
+          }
+          draft.layoutSelection = rootId !== undefined ? { engine, rootId } : { engine };
+        }),
 
-          const relationship = state.pedigree.relationships.get(id);
-          if (!relationship) return state;
+      // Chart settings actions
+      setChartSettings: (updates) =>
+        commitEdit(get, set, (draft) => chartSettings.setChartSettings(draft, updates)),
 
-          const newRelationships = new Map(state.pedigree.relationships);
-          newRelationships.delete(id);
+      resetChartSettings: () =>
+        commitEdit(get, set, (draft) => chartSettings.clearChartSettings(draft)),
 
-          // Remove spouse references
-          const newPersons = new Map(state.pedigree.persons);
-          const person1 = newPersons.get(relationship.person1Id);
-          const person2 = newPersons.get(relationship.person2Id);
-
-          if (person1) {
-            newPersons.set(person1.id, {
-              ...person1,
-              spouseIds: person1.spouseIds.filter((sid) => sid !== relationship.person2Id),
-            });
-          }
-          if (person2) {
-            newPersons.set(person2.id, {
-              ...person2,
-              spouseIds: person2.spouseIds.filter((sid) => sid !== relationship.person1Id),
-            });
-          }
-
-          const newPedigree = {
-            ...state.pedigree,
-            persons: newPersons,
-            relationships: newRelationships,
-            metadata: {
-              ...state.pedigree.metadata,
-              modifiedAt: new Date(),
-            },
-          };
+      saveChartSettingsAsDefaults: () => {
+        const { pedigree, userChartSettings } = get();
+        settingsService.saveChartSettings(chartSettings.resolveChartSettings(pedigree, userChartSettings));
+        set({ userChartSettings: settingsService.loadChartSettings() });
+      },
 
-          const layoutNodes = layout.layout(newPedigree);
-          return {
-            pedigree: newPedigree,
-            layoutNodes,
-            selectedRelationshipId: state.selectedRelationshipId === id ? null : state.selectedRelationshipId,
-          };
+      clearChartSettingsDefaults: () => {
+        settingsService.clearChartSettings();
+        const { pedigree } = get();
+        set({
+          userChartSettings: settingsService.loadChartSettings(),
+          layoutNodes: pedigree ? layoutPedigree(pedigree) : new Map(),
         });
       },
 
+      // Branch view actions
+      toggleBranch: (personId, direction) =>
+        commitEdit(get, set, (draft) => branchView.toggleBranch(draft, personId, direction)),
+
+      setFocusMode: (focus) =>
+        commitEdit(get, set, (draft) => branchView.setFocus(draft, focus)),
+
+      expandAllBranches: () =>
+        commitEdit(get, set, (draft) => branchView.expandAll(draft)),
+
       // Selection actions
       selectPerson: (id) => {
         set({ selectedPersonId: id, selectedRelationshipId: null });
@@ -336,6 +663,22 @@ export const usePedigreeStore = create<PedigreeState>()(
         set({ selectedPersonId: null, selectedRelationshipId: null });
       },
 
+      setHighlightedPersons: (ids) => {
+        set({ highlightedPersonIds: ids });
+      },
+
+      setRiskLabels: (labels) => {
+        set({ riskLabels: labels });
+      },
+
+      setPrivacyOptions: (options) => {
+        set({ privacyOptions: options });
+      },
+
+      setShowIndividualNumbers: (show) => {
+        set({ showIndividualNumbers: show });
+      },
+
       // UI actions
       setCurrentTool: (tool) => {
         set({ currentTool: tool });
@@ -349,7 +692,9 @@ export const usePedigreeStore = create<PedigreeState>()(
       recalculateLayout: () => {
         set((state) => {
           if (!state.pedigree) return state;
-          const layoutNodes = layout.layout(state.pedigree);
+          // Arrange again rather than keep newcomers where they were slotted in
+          layoutEngineFor(state.pedigree).clearCache();
+          const layoutNodes = layoutPedigree(state.pedigree);
           return { layoutNodes };
         });
       },
@@ -366,6 +711,13 @@ export const usePedigreeStore = create<PedigreeState>()(
         if (!state.pedigree || !state.selectedRelationshipId) return null;
         return state.pedigree.relationships.get(state.selectedRelationshipId) ?? null;
       },
+
+      getWorkspacePedigrees: () => {
+        const state = get();
+        return Array.from(state.workspace.values()).map(p =>
+          state.pedigree && p.id === state.pedigree.id ? state.pedigree : p
+        );
+      },
     }),
     {
       // Zundo configuration
@@ -377,5 +729,17 @@ export const usePedigreeStore = create<PedigreeState>()(
   )
 );
 
+// Undo, redo and detail edits set the pedigree without laying it out; lay
+// it out here, usually from the layout cache. Not recorded, so redo survives.
+usePedigreeStore.subscribe((state, prevState) => {
+  if (!state.pedigree || state.pedigree === prevState.pedigree || state.layoutNodes !== prevState.layoutNodes) {
+    return;
+  }
+  const { temporal: history } = usePedigreeStore;
+  history.getState().pause();
+  usePedigreeStore.setState({ layoutNodes: layoutAndNumber(state.pedigree) });
+  history.getState().resume();
+});
+
 // Export temporal actions for undo/redo
 export const useTemporalStore = () => usePedigreeStore.temporal;